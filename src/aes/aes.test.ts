@@ -0,0 +1,53 @@
+import { expect, test } from "vitest";
+import { AES } from "./aes.js";
+import * as nodeCrypto from "node:crypto";
+
+test("AES.encryptBlock()", () => {
+	for (const keySize of [16, 24, 32]) {
+		for (let i = 0; i < 20; i++) {
+			const key = crypto.getRandomValues(new Uint8Array(keySize));
+			const block = crypto.getRandomValues(new Uint8Array(16));
+			const cipher = nodeCrypto.createCipheriv(`aes-${keySize * 8}-ecb`, key, null);
+			cipher.setAutoPadding(false);
+			const expected = new Uint8Array(Buffer.concat([cipher.update(block), cipher.final()]));
+			expect(new AES(key).encryptBlock(block)).toStrictEqual(expected);
+		}
+	}
+});
+
+test("AES.decryptBlock()", () => {
+	for (const keySize of [16, 24, 32]) {
+		for (let i = 0; i < 20; i++) {
+			const key = crypto.getRandomValues(new Uint8Array(keySize));
+			const block = crypto.getRandomValues(new Uint8Array(16));
+			const decipher = nodeCrypto.createDecipheriv(`aes-${keySize * 8}-ecb`, key, null);
+			decipher.setAutoPadding(false);
+			const expected = new Uint8Array(Buffer.concat([decipher.update(block), decipher.final()]));
+			const aes = new AES(key);
+			expect(aes.decryptBlock(block)).toStrictEqual(expected);
+			expect(aes.decryptBlock(aes.encryptBlock(block))).toStrictEqual(block);
+		}
+	}
+});
+
+test("AES.encryptBlock() does not modify input", () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const block = crypto.getRandomValues(new Uint8Array(16));
+	const copy = block.slice();
+	new AES(key).encryptBlock(block);
+	expect(block).toStrictEqual(copy);
+});
+
+test("AES with invalid key length", () => {
+	for (const keySize of [0, 8, 15, 17, 20, 31, 33, 64]) {
+		expect(() => new AES(new Uint8Array(keySize))).toThrowError(TypeError);
+	}
+});
+
+test("AES with invalid block size", () => {
+	const aes = new AES(new Uint8Array(16));
+	for (const blockSize of [0, 1, 15, 17, 32]) {
+		expect(() => aes.encryptBlock(new Uint8Array(blockSize))).toThrowError(TypeError);
+		expect(() => aes.decryptBlock(new Uint8Array(blockSize))).toThrowError(TypeError);
+	}
+});
@@ -0,0 +1,277 @@
+/**
+ * AES 分组密码实现模块（NIST FIPS 197）
+ *
+ * AES（Advanced Encryption Standard）是一种128位分组的对称分组密码，支持128、192和256位密钥，
+ * 分别进行10、12和14轮变换。每一轮包括：
+ * 1. SubBytes：使用S盒对每个字节进行非线性替换
+ * 2. ShiftRows：将状态矩阵的第r行循环左移r个字节
+ * 3. MixColumns：将每一列视为GF(2^8)上的多项式，与固定多项式相乘（最后一轮省略）
+ * 4. AddRoundKey：与轮密钥异或
+ *
+ * 常见的实现使用预先计算的查找表（S盒或T表），但查表的内存访问模式取决于密钥和数据，
+ * 可能通过缓存计时泄露密钥。这里不使用任何查找表：S盒通过GF(2^8)上的求逆（x^254）和仿射变换计算，
+ * 所有运算都不包含依赖秘密数据的分支或内存访问。代价是速度较慢。
+ *
+ * 解密使用逆变换（InvShiftRows、InvSubBytes、AddRoundKey、InvMixColumns），按相反的顺序使用轮密钥。
+ *
+ * 分组密码本身只能加密一个16字节的块，实际使用时需要配合工作模式（如GCM）。
+ */
+
+/**
+ * AES分组密码
+ *
+ * @example
+ * const aes = new AES(key);
+ * const ciphertext = aes.encryptBlock(block);
+ * const plaintext = aes.decryptBlock(ciphertext);
+ */
+export class AES {
+	/**
+	 * 轮数（AES-128为10，AES-192为12，AES-256为14）
+	 */
+	public rounds: number;
+
+	/**
+	 * 扩展后的轮密钥，共(rounds + 1) * 16字节
+	 */
+	private roundKeys: Uint8Array;
+
+	/**
+	 * @param key 16、24或32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 16 && key.byteLength !== 24 && key.byteLength !== 32) {
+			throw new TypeError("Invalid key length");
+		}
+		this.rounds = key.byteLength / 4 + 6;
+		this.roundKeys = expandKey(key, this.rounds);
+	}
+
+	/**
+	 * 加密一个16字节的块
+	 *
+	 * @param block 16字节的明文块
+	 * @returns 16字节的密文块
+	 * @throws TypeError 如果块长度不是16字节
+	 */
+	public encryptBlock(block: Uint8Array): Uint8Array {
+		if (block.byteLength !== 16) {
+			throw new TypeError("Invalid block size");
+		}
+		// 复制输入（Buffer的slice()不会复制数据）
+		const state = new Uint8Array(block);
+		addRoundKey(state, this.roundKeys, 0);
+		for (let round = 1; round < this.rounds; round++) {
+			subBytes(state);
+			shiftRows(state);
+			mixColumns(state);
+			addRoundKey(state, this.roundKeys, round);
+		}
+		subBytes(state);
+		shiftRows(state);
+		addRoundKey(state, this.roundKeys, this.rounds);
+		return state;
+	}
+
+	/**
+	 * 解密一个16字节的块（FIPS 197 5.3节）
+	 *
+	 * @param block 16字节的密文块
+	 * @returns 16字节的明文块
+	 * @throws TypeError 如果块长度不是16字节
+	 */
+	public decryptBlock(block: Uint8Array): Uint8Array {
+		if (block.byteLength !== 16) {
+			throw new TypeError("Invalid block size");
+		}
+		const state = new Uint8Array(block);
+		addRoundKey(state, this.roundKeys, this.rounds);
+		for (let round = this.rounds - 1; round > 0; round--) {
+			invShiftRows(state);
+			invSubBytes(state);
+			addRoundKey(state, this.roundKeys, round);
+			invMixColumns(state);
+		}
+		invShiftRows(state);
+		invSubBytes(state);
+		addRoundKey(state, this.roundKeys, 0);
+		return state;
+	}
+}
+
+/**
+ * 密钥扩展（FIPS 197 5.2节）
+ *
+ * 将Nk个32位字的密钥扩展为4 * (Nr + 1)个字的轮密钥。
+ */
+function expandKey(key: Uint8Array, rounds: number): Uint8Array {
+	const nk = key.byteLength / 4;
+	const w = new Uint8Array((rounds + 1) * 16);
+	w.set(key);
+	let rcon = 0x01;
+	for (let i = nk; i < (rounds + 1) * 4; i++) {
+		let t0 = w[(i - 1) * 4];
+		let t1 = w[(i - 1) * 4 + 1];
+		let t2 = w[(i - 1) * 4 + 2];
+		let t3 = w[(i - 1) * 4 + 3];
+		if (i % nk === 0) {
+			// RotWord、SubWord并与轮常量异或
+			const temp = t0;
+			t0 = sbox(t1) ^ rcon;
+			t1 = sbox(t2);
+			t2 = sbox(t3);
+			t3 = sbox(temp);
+			rcon = xtime(rcon);
+		} else if (nk > 6 && i % nk === 4) {
+			// AES-256额外的SubWord
+			t0 = sbox(t0);
+			t1 = sbox(t1);
+			t2 = sbox(t2);
+			t3 = sbox(t3);
+		}
+		w[i * 4] = w[(i - nk) * 4] ^ t0;
+		w[i * 4 + 1] = w[(i - nk) * 4 + 1] ^ t1;
+		w[i * 4 + 2] = w[(i - nk) * 4 + 2] ^ t2;
+		w[i * 4 + 3] = w[(i - nk) * 4 + 3] ^ t3;
+	}
+	return w;
+}
+
+function addRoundKey(state: Uint8Array, roundKeys: Uint8Array, round: number): void {
+	for (let i = 0; i < 16; i++) {
+		state[i] ^= roundKeys[round * 16 + i];
+	}
+}
+
+function subBytes(state: Uint8Array): void {
+	for (let i = 0; i < 16; i++) {
+		state[i] = sbox(state[i]);
+	}
+}
+
+function invSubBytes(state: Uint8Array): void {
+	for (let i = 0; i < 16; i++) {
+		state[i] = invSbox(state[i]);
+	}
+}
+
+/**
+ * 状态按列存储（state[r + 4c]），第r行循环左移r个字节
+ */
+function shiftRows(state: Uint8Array): void {
+	const temp = state.slice();
+	for (let r = 1; r < 4; r++) {
+		for (let c = 0; c < 4; c++) {
+			state[r + 4 * c] = temp[r + 4 * ((c + r) % 4)];
+		}
+	}
+}
+
+/**
+ * 第r行循环右移r个字节
+ */
+function invShiftRows(state: Uint8Array): void {
+	const temp = state.slice();
+	for (let r = 1; r < 4; r++) {
+		for (let c = 0; c < 4; c++) {
+			state[r + 4 * ((c + r) % 4)] = temp[r + 4 * c];
+		}
+	}
+}
+
+/**
+ * 每一列乘以固定多项式{03}x^3 + {01}x^2 + {01}x + {02}
+ */
+function mixColumns(state: Uint8Array): void {
+	for (let c = 0; c < 4; c++) {
+		const a0 = state[4 * c];
+		const a1 = state[4 * c + 1];
+		const a2 = state[4 * c + 2];
+		const a3 = state[4 * c + 3];
+		const all = a0 ^ a1 ^ a2 ^ a3;
+		// 2a0 ^ 3a1 ^ a2 ^ a3 = a0 ^ all ^ 2(a0 ^ a1)
+		state[4 * c] = a0 ^ all ^ xtime(a0 ^ a1);
+		state[4 * c + 1] = a1 ^ all ^ xtime(a1 ^ a2);
+		state[4 * c + 2] = a2 ^ all ^ xtime(a2 ^ a3);
+		state[4 * c + 3] = a3 ^ all ^ xtime(a3 ^ a0);
+	}
+}
+
+/**
+ * 每一列乘以{0b}x^3 + {0d}x^2 + {09}x + {0e}
+ *
+ * 该多项式等于({04}x^2 + {05}) · ({03}x^3 + {01}x^2 + {01}x + {02})，
+ * 因此先乘以{04}x^2 + {05}，再进行MixColumns。
+ */
+function invMixColumns(state: Uint8Array): void {
+	for (let c = 0; c < 4; c++) {
+		const u = xtime(xtime(state[4 * c] ^ state[4 * c + 2]));
+		const v = xtime(xtime(state[4 * c + 1] ^ state[4 * c + 3]));
+		state[4 * c] ^= u;
+		state[4 * c + 1] ^= v;
+		state[4 * c + 2] ^= u;
+		state[4 * c + 3] ^= v;
+	}
+	mixColumns(state);
+}
+
+/**
+ * S盒：求GF(2^8)上的乘法逆元，再进行仿射变换（FIPS 197 5.1.1节）
+ */
+function sbox(x: number): number {
+	const b = inverse(x);
+	return b ^ rotl8(b, 1) ^ rotl8(b, 2) ^ rotl8(b, 3) ^ rotl8(b, 4) ^ 0x63;
+}
+
+/**
+ * 逆S盒：先进行逆仿射变换，再求乘法逆元
+ */
+function invSbox(x: number): number {
+	return inverse(rotl8(x, 1) ^ rotl8(x, 3) ^ rotl8(x, 6) ^ 0x05);
+}
+
+/**
+ * 通过x^254计算GF(2^8)上的乘法逆元（0的逆元定义为0）
+ *
+ * 加法链：x^2、x^3、x^6、x^12、x^15、x^240、x^14、x^254
+ */
+function inverse(x: number): number {
+	const x2 = multiply(x, x);
+	const x3 = multiply(x2, x);
+	const x6 = multiply(x3, x3);
+	const x12 = multiply(x6, x6);
+	const x15 = multiply(x12, x3);
+	let x240 = x15;
+	for (let i = 0; i < 4; i++) {
+		x240 = multiply(x240, x240);
+	}
+	const x14 = multiply(x12, x2);
+	return multiply(x240, x14);
+}
+
+/**
+ * GF(2^8)上的乘法，模多项式为x^8 + x^4 + x^3 + x + 1
+ *
+ * 使用掩码代替分支，运算时间与输入无关。
+ */
+function multiply(a: number, b: number): number {
+	let result = 0;
+	for (let i = 0; i < 8; i++) {
+		result ^= a & -(b & 1);
+		b >>= 1;
+		a = xtime(a);
+	}
+	return result;
+}
+
+/**
+ * 乘以x（即{02}）
+ */
+function xtime(a: number): number {
+	return ((a << 1) ^ (0x1b & -(a >> 7))) & 0xff;
+}
+
+function rotl8(x: number, n: number): number {
+	return ((x << n) | (x >> (8 - n))) & 0xff;
+}
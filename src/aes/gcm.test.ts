@@ -0,0 +1,75 @@
+import { expect, test } from "vitest";
+import { AESGCM } from "./gcm.js";
+import * as nodeCrypto from "node:crypto";
+
+test("AESGCM.seal()", () => {
+	for (const keySize of [16, 24, 32]) {
+		for (const nonceSize of [1, 8, 12, 16, 60]) {
+			for (const plaintextSize of [0, 1, 15, 16, 17, 100]) {
+				for (const additionalDataSize of [0, 5, 16, 33]) {
+					const key = crypto.getRandomValues(new Uint8Array(keySize));
+					const nonce = crypto.getRandomValues(new Uint8Array(nonceSize));
+					const plaintext = crypto.getRandomValues(new Uint8Array(plaintextSize));
+					const additionalData = crypto.getRandomValues(new Uint8Array(additionalDataSize));
+					const cipher = nodeCrypto.createCipheriv(
+						`aes-${keySize * 8}-gcm` as nodeCrypto.CipherGCMTypes,
+						key,
+						nonce
+					);
+					cipher.setAAD(additionalData);
+					const expected = new Uint8Array(
+						Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+					);
+					const gcm = new AESGCM(key);
+					const sealed = gcm.seal(nonce, plaintext, additionalData);
+					expect(sealed).toStrictEqual(expected);
+					expect(gcm.open(nonce, sealed, additionalData)).toStrictEqual(plaintext);
+				}
+			}
+		}
+	}
+});
+
+test("AESGCM.seal() without additional data", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const plaintext = crypto.getRandomValues(new Uint8Array(50));
+	const gcm = new AESGCM(key);
+	const sealed = gcm.seal(nonce, plaintext);
+	expect(sealed).toStrictEqual(gcm.seal(nonce, plaintext, new Uint8Array()));
+	expect(gcm.open(nonce, sealed)).toStrictEqual(plaintext);
+});
+
+test("AESGCM.open() with modified data", () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const plaintext = crypto.getRandomValues(new Uint8Array(40));
+	const additionalData = crypto.getRandomValues(new Uint8Array(10));
+	const gcm = new AESGCM(key);
+	const sealed = gcm.seal(nonce, plaintext, additionalData);
+	for (let i = 0; i < sealed.byteLength; i++) {
+		const modified = sealed.slice();
+		modified[i] ^= 0x01;
+		expect(() => gcm.open(nonce, modified, additionalData)).toThrowError("Invalid tag");
+	}
+	const modifiedAdditionalData = additionalData.slice();
+	modifiedAdditionalData[0] ^= 0x01;
+	expect(() => gcm.open(nonce, sealed, modifiedAdditionalData)).toThrowError("Invalid tag");
+	expect(() => gcm.open(nonce, sealed)).toThrowError("Invalid tag");
+	const modifiedNonce = nonce.slice();
+	modifiedNonce[0] ^= 0x01;
+	expect(() => gcm.open(modifiedNonce, sealed, additionalData)).toThrowError("Invalid tag");
+});
+
+test("AESGCM.open() with truncated data", () => {
+	const gcm = new AESGCM(crypto.getRandomValues(new Uint8Array(16)));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	expect(() => gcm.open(nonce, new Uint8Array(15))).toThrowError("Invalid data");
+	expect(() => gcm.open(nonce, new Uint8Array(16))).toThrowError("Invalid tag");
+});
+
+test("AESGCM with empty nonce", () => {
+	const gcm = new AESGCM(crypto.getRandomValues(new Uint8Array(16)));
+	expect(() => gcm.seal(new Uint8Array(), new Uint8Array(16))).toThrowError(TypeError);
+	expect(() => gcm.open(new Uint8Array(), new Uint8Array(32))).toThrowError(TypeError);
+});
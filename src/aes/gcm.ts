@@ -0,0 +1,137 @@
+/**
+ * AES-GCM 认证加密实现模块（NIST SP 800-38D）
+ *
+ * GCM（Galois/Counter Mode）是一种带附加数据的认证加密（AEAD）模式：
+ * 1. 使用计数器模式（CTR）加密明文，计数器的初始值由nonce派生
+ * 2. 使用GHASH对附加数据和密文计算认证值，再用加密后的初始计数器块掩盖，得到16字节的认证标签
+ *
+ * 附加数据（AAD）只被认证而不被加密，可以用于绑定上下文信息（例如Cookie名称或用户ID）。
+ *
+ * 注意：同一个密钥下nonce绝对不能重复使用，否则攻击者可以恢复认证密钥并伪造消息。
+ * 推荐使用随机生成的12字节nonce，并限制每个密钥加密的消息数量（约2^32条）。
+ */
+
+import { bigEndian } from "@oslojs/binary";
+import { AES } from "./aes.js";
+import { GHASH, initialCounterBlock } from "./ghash.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+/**
+ * AES-GCM认证加密
+ *
+ * @example
+ * const gcm = new AESGCM(key);
+ * const nonce = new Uint8Array(12);
+ * crypto.getRandomValues(nonce);
+ * const sealed = gcm.seal(nonce, plaintext, additionalData);
+ * const opened = gcm.open(nonce, sealed, additionalData);
+ */
+export class AESGCM {
+	/**
+	 * 认证标签的长度（字节）
+	 */
+	public tagSize = 16;
+
+	private aes: AES;
+
+	/**
+	 * 哈希子密钥H = E_K(0^128)
+	 */
+	private h: Uint8Array;
+
+	/**
+	 * @param key 16、24或32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		this.aes = new AES(key);
+		this.h = this.aes.encryptBlock(new Uint8Array(16));
+	}
+
+	/**
+	 * 加密并认证数据
+	 *
+	 * @param nonce nonce（推荐12字节，可以是任意非空长度）
+	 * @param plaintext 明文
+	 * @param additionalData 只认证不加密的附加数据
+	 * @returns 密文与16字节认证标签的连接
+	 * @throws TypeError 如果nonce为空
+	 */
+	public seal(nonce: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const j0 = initialCounterBlock(this.h, nonce);
+		const result = new Uint8Array(plaintext.byteLength + this.tagSize);
+		const ciphertext = result.subarray(0, plaintext.byteLength);
+		this.ctr(j0, plaintext, ciphertext);
+		result.set(this.tag(j0, ciphertext, additionalData), plaintext.byteLength);
+		return result;
+	}
+
+	/**
+	 * 验证并解密数据
+	 *
+	 * 在验证认证标签之前不会输出任何明文。
+	 *
+	 * @param nonce 加密时使用的nonce
+	 * @param sealed 密文与认证标签的连接
+	 * @param additionalData 加密时使用的附加数据
+	 * @returns 明文
+	 * @throws TypeError 如果nonce为空
+	 * @throws Error 如果数据过短或认证失败
+	 */
+	public open(nonce: Uint8Array, sealed: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		if (sealed.byteLength < this.tagSize) {
+			throw new Error("Invalid data");
+		}
+		const j0 = initialCounterBlock(this.h, nonce);
+		const ciphertext = sealed.subarray(0, sealed.byteLength - this.tagSize);
+		const tag = sealed.subarray(sealed.byteLength - this.tagSize);
+		if (!constantTimeEqual(this.tag(j0, ciphertext, additionalData), tag)) {
+			throw new Error("Invalid tag");
+		}
+		const plaintext = new Uint8Array(ciphertext.byteLength);
+		this.ctr(j0, ciphertext, plaintext);
+		return plaintext;
+	}
+
+	/**
+	 * 计数器模式（GCTR），从inc32(J0)开始
+	 */
+	private ctr(j0: Uint8Array, input: Uint8Array, output: Uint8Array): void {
+		const counterBlock = j0.slice();
+		let counter = bigEndian.uint32(counterBlock, 12);
+		for (let offset = 0; offset < input.byteLength; offset += 16) {
+			// inc32：只递增最后32位，溢出时回绕
+			counter = (counter + 1) >>> 0;
+			bigEndian.putUint32(counterBlock, counter, 12);
+			const keyStream = this.aes.encryptBlock(counterBlock);
+			const length = Math.min(16, input.byteLength - offset);
+			for (let i = 0; i < length; i++) {
+				output[offset + i] = input[offset + i] ^ keyStream[i];
+			}
+		}
+	}
+
+	/**
+	 * 计算认证标签：GCTR(J0, GHASH(A || 0^v || C || 0^u || [len(A)]_64 || [len(C)]_64))
+	 */
+	private tag(j0: Uint8Array, ciphertext: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const ghash = new GHASH(this.h);
+		const additionalDataLength = additionalData?.byteLength ?? 0;
+		if (additionalData !== undefined) {
+			ghash.update(additionalData);
+			ghash.pad();
+		}
+		ghash.update(ciphertext);
+		ghash.pad();
+		const lengthBlock = new Uint8Array(16);
+		bigEndian.putUint64(lengthBlock, BigInt(additionalDataLength) * 8n, 0);
+		bigEndian.putUint64(lengthBlock, BigInt(ciphertext.byteLength) * 8n, 8);
+		ghash.update(lengthBlock);
+		const s = ghash.digest();
+		const mask = this.aes.encryptBlock(j0);
+		for (let i = 0; i < 16; i++) {
+			s[i] ^= mask[i];
+		}
+		return s;
+	}
+}
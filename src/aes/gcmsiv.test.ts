@@ -0,0 +1,60 @@
+import { expect, test } from "vitest";
+import { AESGCMSIV } from "./gcmsiv.js";
+
+test("AESGCMSIV.seal()", () => {
+	for (const keySize of [16, 32]) {
+		for (const plaintextSize of [0, 1, 15, 16, 17, 100]) {
+			for (const additionalDataSize of [0, 5, 16, 33]) {
+				const key = crypto.getRandomValues(new Uint8Array(keySize));
+				const nonce = crypto.getRandomValues(new Uint8Array(12));
+				const plaintext = crypto.getRandomValues(new Uint8Array(plaintextSize));
+				const additionalData = crypto.getRandomValues(new Uint8Array(additionalDataSize));
+				const gcmsiv = new AESGCMSIV(key);
+				const sealed = gcmsiv.seal(nonce, plaintext, additionalData);
+				expect(sealed.byteLength).toBe(plaintextSize + 16);
+				expect(gcmsiv.open(nonce, sealed, additionalData)).toStrictEqual(plaintext);
+			}
+		}
+	}
+});
+
+test("AESGCMSIV.seal() with reused nonce", () => {
+	const gcmsiv = new AESGCMSIV(crypto.getRandomValues(new Uint8Array(16)));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const a = crypto.getRandomValues(new Uint8Array(32));
+	const b = a.slice();
+	b[31] ^= 0x01;
+	const sealedA = gcmsiv.seal(nonce, a);
+	const sealedB = gcmsiv.seal(nonce, b);
+	expect(gcmsiv.seal(nonce, a)).toStrictEqual(sealedA);
+	// Different messages use different tags and therefore different key streams
+	expect(sealedA.subarray(0, 16)).not.toStrictEqual(sealedB.subarray(0, 16));
+	expect(sealedA.subarray(32)).not.toStrictEqual(sealedB.subarray(32));
+});
+
+test("AESGCMSIV.open() with modified data", () => {
+	const gcmsiv = new AESGCMSIV(crypto.getRandomValues(new Uint8Array(32)));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const plaintext = crypto.getRandomValues(new Uint8Array(40));
+	const additionalData = crypto.getRandomValues(new Uint8Array(10));
+	const sealed = gcmsiv.seal(nonce, plaintext, additionalData);
+	for (let i = 0; i < sealed.byteLength; i++) {
+		const modified = sealed.slice();
+		modified[i] ^= 0x01;
+		expect(() => gcmsiv.open(nonce, modified, additionalData)).toThrowError("Invalid tag");
+	}
+	const modifiedNonce = nonce.slice();
+	modifiedNonce[0] ^= 0x01;
+	expect(() => gcmsiv.open(modifiedNonce, sealed, additionalData)).toThrowError("Invalid tag");
+	expect(() => gcmsiv.open(nonce, sealed)).toThrowError("Invalid tag");
+	expect(() => gcmsiv.open(nonce, new Uint8Array(15))).toThrowError("Invalid data");
+});
+
+test("AESGCMSIV with invalid parameters", () => {
+	for (const keySize of [0, 24, 31, 64]) {
+		expect(() => new AESGCMSIV(new Uint8Array(keySize))).toThrowError(TypeError);
+	}
+	const gcmsiv = new AESGCMSIV(new Uint8Array(16));
+	expect(() => gcmsiv.seal(new Uint8Array(16), new Uint8Array())).toThrowError(TypeError);
+	expect(() => gcmsiv.open(new Uint8Array(8), new Uint8Array(16))).toThrowError(TypeError);
+});
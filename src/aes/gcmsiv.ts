@@ -0,0 +1,169 @@
+/**
+ * AES-GCM-SIV 认证加密实现模块（RFC 8452）
+ *
+ * AES-GCM-SIV是一种抵抗nonce误用的认证加密模式：
+ * 1. 使用主密钥和nonce为每条消息派生认证密钥和加密密钥
+ * 2. 使用POLYVAL对附加数据、明文和长度计算认证值，与nonce异或后用加密密钥加密，得到16字节的认证标签
+ * 3. 以认证标签（最高位置1）作为初始计数器，使用计数器模式加密明文
+ *
+ * 与GCM不同，nonce重复时只会泄露两条消息（在相同nonce和附加数据下）是否完全相同。
+ * 即使如此，仍然应该尽量使用不重复的nonce。
+ *
+ * 支持16字节（AES-128）和32字节（AES-256）的密钥，nonce固定为12字节。
+ */
+
+import { littleEndian } from "@oslojs/binary";
+import { AES } from "./aes.js";
+import { POLYVAL } from "./polyval.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+/**
+ * AES-GCM-SIV认证加密
+ *
+ * @example
+ * const gcmsiv = new AESGCMSIV(key);
+ * const nonce = new Uint8Array(12);
+ * crypto.getRandomValues(nonce);
+ * const sealed = gcmsiv.seal(nonce, plaintext, additionalData);
+ * const opened = gcmsiv.open(nonce, sealed, additionalData);
+ */
+export class AESGCMSIV {
+	/**
+	 * 认证标签的长度（字节）
+	 */
+	public tagSize = 16;
+
+	/**
+	 * nonce的长度（字节）
+	 */
+	public nonceSize = 12;
+
+	private aes: AES;
+
+	/**
+	 * @param key 16或32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 16 && key.byteLength !== 32) {
+			throw new TypeError("Invalid key length");
+		}
+		this.aes = new AES(key);
+	}
+
+	/**
+	 * 加密并认证数据
+	 *
+	 * @param nonce 12字节的nonce
+	 * @param plaintext 明文
+	 * @param additionalData 只认证不加密的附加数据
+	 * @returns 密文与16字节认证标签的连接
+	 * @throws TypeError 如果nonce长度无效
+	 */
+	public seal(nonce: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const [authKey, encryptionCipher] = this.deriveKeys(nonce);
+		const tag = computeTag(authKey, encryptionCipher, nonce, plaintext, additionalData);
+		const result = new Uint8Array(plaintext.byteLength + this.tagSize);
+		ctr(encryptionCipher, tag, plaintext, result.subarray(0, plaintext.byteLength));
+		result.set(tag, plaintext.byteLength);
+		return result;
+	}
+
+	/**
+	 * 解密并验证数据
+	 *
+	 * 认证失败时不会返回明文。
+	 *
+	 * @param nonce 加密时使用的nonce
+	 * @param sealed 密文与认证标签的连接
+	 * @param additionalData 加密时使用的附加数据
+	 * @returns 明文
+	 * @throws TypeError 如果nonce长度无效
+	 * @throws Error 如果数据过短或认证失败
+	 */
+	public open(nonce: Uint8Array, sealed: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const [authKey, encryptionCipher] = this.deriveKeys(nonce);
+		if (sealed.byteLength < this.tagSize) {
+			throw new Error("Invalid data");
+		}
+		const ciphertext = sealed.subarray(0, sealed.byteLength - this.tagSize);
+		const tag = sealed.subarray(sealed.byteLength - this.tagSize);
+		const plaintext = new Uint8Array(ciphertext.byteLength);
+		ctr(encryptionCipher, tag, ciphertext, plaintext);
+		const expectedTag = computeTag(authKey, encryptionCipher, nonce, plaintext, additionalData);
+		if (!constantTimeEqual(expectedTag, tag)) {
+			throw new Error("Invalid tag");
+		}
+		return plaintext;
+	}
+
+	/**
+	 * 派生消息认证密钥和消息加密密钥（RFC 8452 4节）
+	 *
+	 * 加密le32(i) || nonce，取每个结果的前8字节：
+	 * 第0-1块组成16字节的认证密钥，第2-3块（AES-256为第2-5块）组成加密密钥。
+	 */
+	private deriveKeys(nonce: Uint8Array): [Uint8Array, AES] {
+		if (nonce.byteLength !== 12) {
+			throw new TypeError("Invalid nonce length");
+		}
+		const blockCount = this.aes.rounds === 10 ? 4 : 6;
+		const keys = new Uint8Array(blockCount * 8);
+		const input = new Uint8Array(16);
+		input.set(nonce, 4);
+		for (let i = 0; i < blockCount; i++) {
+			littleEndian.putUint32(input, i, 0);
+			keys.set(this.aes.encryptBlock(input).subarray(0, 8), i * 8);
+		}
+		return [keys.subarray(0, 16), new AES(keys.subarray(16))];
+	}
+}
+
+/**
+ * 计算认证标签：S = POLYVAL(AAD || 填充 || 明文 || 填充 || 长度块)，
+ * S的前12字节与nonce异或，清除最后一个字节的最高位后加密。
+ */
+function computeTag(
+	authKey: Uint8Array,
+	encryptionCipher: AES,
+	nonce: Uint8Array,
+	plaintext: Uint8Array,
+	additionalData?: Uint8Array
+): Uint8Array {
+	const polyval = new POLYVAL(authKey);
+	const additionalDataLength = additionalData?.byteLength ?? 0;
+	if (additionalData !== undefined) {
+		polyval.update(additionalData);
+		polyval.pad();
+	}
+	polyval.update(plaintext);
+	polyval.pad();
+	const lengthBlock = new Uint8Array(16);
+	littleEndian.putUint64(lengthBlock, BigInt(additionalDataLength) * 8n, 0);
+	littleEndian.putUint64(lengthBlock, BigInt(plaintext.byteLength) * 8n, 8);
+	polyval.update(lengthBlock);
+	const s = polyval.digest();
+	for (let i = 0; i < 12; i++) {
+		s[i] ^= nonce[i];
+	}
+	s[15] &= 0x7f;
+	return encryptionCipher.encryptBlock(s);
+}
+
+/**
+ * 计数器模式，初始计数器为最高位置1的认证标签，只递增前32位（小端序，溢出时回绕）
+ */
+function ctr(aes: AES, tag: Uint8Array, input: Uint8Array, output: Uint8Array): void {
+	const counterBlock = new Uint8Array(tag);
+	counterBlock[15] |= 0x80;
+	let counter = littleEndian.uint32(counterBlock, 0);
+	for (let offset = 0; offset < input.byteLength; offset += 16) {
+		const keyStream = aes.encryptBlock(counterBlock);
+		const length = Math.min(16, input.byteLength - offset);
+		for (let i = 0; i < length; i++) {
+			output[offset + i] = input[offset + i] ^ keyStream[i];
+		}
+		counter = (counter + 1) >>> 0;
+		littleEndian.putUint32(counterBlock, counter, 0);
+	}
+}
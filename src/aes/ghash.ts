@@ -0,0 +1,173 @@
+/**
+ * GHASH 实现模块（NIST SP 800-38D 6.4节）
+ *
+ * GHASH是GCM中用于认证的通用哈希函数，在GF(2^128)上计算：
+ * 将输入按16字节分块X_1...X_m，Y_0 = 0，Y_i = (Y_{i-1} ⊕ X_i) · H，输出Y_m。
+ * 其中H = E_K(0^128)是哈希子密钥。
+ *
+ * GCM使用"反射"的位序：每个字节的最高位对应多项式的x^0项，
+ * 域的模多项式为x^128 + x^7 + x^2 + x + 1。
+ *
+ * 乘法不使用查找表，逐位计算并用掩码代替分支，运算时间与输入无关。
+ *
+ * 本模块只供AES-GCM和GMAC内部使用（包括初始计数器块J0的派生），不从@oslojs/crypto/aes导出。
+ */
+
+import { bigEndian } from "@oslojs/binary";
+
+/**
+ * GHASH函数
+ *
+ * 数据会被补零到16字节的整数倍后再处理。
+ */
+export class GHASH {
+	/**
+	 * 哈希子密钥H（4个大端序32位字）
+	 */
+	private h: Uint32Array;
+
+	/**
+	 * 当前的累加值Y
+	 */
+	private y = new Uint32Array(4);
+
+	/**
+	 * 当前块的缓冲区
+	 */
+	private block = new Uint8Array(16);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private blockLength = 0;
+
+	/**
+	 * @param h 16字节的哈希子密钥
+	 */
+	constructor(h: Uint8Array) {
+		this.h = new Uint32Array(4);
+		for (let i = 0; i < 4; i++) {
+			this.h[i] = bigEndian.uint32(h, i * 4);
+		}
+	}
+
+	/**
+	 * 添加数据
+	 */
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			const length = Math.min(16 - this.blockLength, data.byteLength - offset);
+			this.block.set(data.subarray(offset, offset + length), this.blockLength);
+			this.blockLength += length;
+			offset += length;
+			if (this.blockLength === 16) {
+				this.processBlock();
+			}
+		}
+	}
+
+	/**
+	 * 将缓冲区中不足16字节的数据补零并处理
+	 *
+	 * GCM中附加数据和密文分别补零，因此在两者之间需要调用此方法。
+	 */
+	public pad(): void {
+		if (this.blockLength > 0) {
+			this.block.fill(0, this.blockLength);
+			this.processBlock();
+		}
+	}
+
+	/**
+	 * 补零并返回16字节的结果
+	 */
+	public digest(): Uint8Array {
+		this.pad();
+		const result = new Uint8Array(16);
+		for (let i = 0; i < 4; i++) {
+			bigEndian.putUint32(result, this.y[i], i * 4);
+		}
+		return result;
+	}
+
+	/**
+	 * 复制当前的计算状态，复制后的实例与原实例互不影响
+	 */
+	public clone(): GHASH {
+		const ghash = new GHASH(new Uint8Array(16));
+		ghash.h = this.h;
+		ghash.y = this.y.slice();
+		ghash.block = this.block.slice();
+		ghash.blockLength = this.blockLength;
+		return ghash;
+	}
+
+	private processBlock(): void {
+		for (let i = 0; i < 4; i++) {
+			this.y[i] ^= bigEndian.uint32(this.block, i * 4);
+		}
+		multiply(this.y, this.h);
+		this.blockLength = 0;
+	}
+}
+
+/**
+ * 派生初始计数器块J0（SP 800-38D 7.1节步骤2）
+ *
+ * 12字节的nonce直接使用IV || 0^31 || 1，其他长度使用GHASH(IV || 0^s || 0^64 || [len(IV)]_64)。
+ *
+ * @param h 哈希子密钥
+ * @param nonce 非空的nonce
+ * @throws TypeError 如果nonce为空
+ */
+export function initialCounterBlock(h: Uint8Array, nonce: Uint8Array): Uint8Array {
+	if (nonce.byteLength === 0) {
+		throw new TypeError("Invalid nonce");
+	}
+	if (nonce.byteLength === 12) {
+		const j0 = new Uint8Array(16);
+		j0.set(nonce);
+		j0[15] = 1;
+		return j0;
+	}
+	const ghash = new GHASH(h);
+	ghash.update(nonce);
+	ghash.pad();
+	const lengthBlock = new Uint8Array(16);
+	bigEndian.putUint64(lengthBlock, BigInt(nonce.byteLength) * 8n, 8);
+	ghash.update(lengthBlock);
+	return ghash.digest();
+}
+
+/**
+ * 计算x = x · y（SP 800-38D 算法1）
+ */
+function multiply(x: Uint32Array, y: Uint32Array): void {
+	let z0 = 0;
+	let z1 = 0;
+	let z2 = 0;
+	let z3 = 0;
+	let v0 = y[0];
+	let v1 = y[1];
+	let v2 = y[2];
+	let v3 = y[3];
+	for (let i = 0; i < 128; i++) {
+		// 如果x的第i位为1，则Z ^= V
+		const mask = -((x[i >>> 5] >>> (31 - (i & 31))) & 1);
+		z0 ^= v0 & mask;
+		z1 ^= v1 & mask;
+		z2 ^= v2 & mask;
+		z3 ^= v3 & mask;
+		// V = V · x：右移1位，如果移出的位为1则与R = 11100001 || 0^120异或
+		const reduce = -(v3 & 1);
+		v3 = (v3 >>> 1) | (v2 << 31);
+		v2 = (v2 >>> 1) | (v1 << 31);
+		v1 = (v1 >>> 1) | (v0 << 31);
+		v0 = (v0 >>> 1) ^ (0xe1000000 & reduce);
+	}
+	x[0] = z0;
+	x[1] = z1;
+	x[2] = z2;
+	x[3] = z3;
+}
@@ -0,0 +1,27 @@
+/**
+ * AES 对称加密模块
+ *
+ * AES（Advanced Encryption Standard）是目前使用最广泛的对称分组密码，由NIST在FIPS 197中标准化。
+ * 分组密码只能加密固定长度的块，实际使用时需要配合工作模式。
+ *
+ * 本模块提供：
+ * 1. AES-128、AES-192和AES-256分组密码（不使用查找表的实现，支持加密和解密）
+ * 2. AES-GCM认证加密（NIST SP 800-38D），同时保证数据的机密性和完整性
+ * 3. AES-SIV（RFC 5297）和AES-GCM-SIV（RFC 8452）认证加密，在nonce重复时仍然保持大部分安全性
+ * 4. AES密钥包装（RFC 3394）和带填充的密钥包装（RFC 5649）
+ *
+ * 一般情况下应该直接使用AES-GCM等认证加密模式，而不是直接使用分组密码。
+ */
+
+// 导出AES分组密码
+export { AES } from "./aes.js";
+
+// 导出AES-GCM认证加密
+export { AESGCM } from "./gcm.js";
+
+// 导出AES-SIV和AES-GCM-SIV认证加密（抵抗nonce误用）
+export { AESSIV } from "./siv.js";
+export { AESGCMSIV } from "./gcmsiv.js";
+
+// 导出AES密钥包装
+export { wrapKey, unwrapKey, wrapKeyWithPadding, unwrapKeyWithPadding } from "./keywrap.js";
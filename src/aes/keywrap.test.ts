@@ -0,0 +1,90 @@
+import { expect, test } from "vitest";
+import { wrapKey, unwrapKey, wrapKeyWithPadding, unwrapKeyWithPadding } from "./keywrap.js";
+import * as nodeCrypto from "node:crypto";
+
+test("wrapKey()", () => {
+	for (const kekSize of [16, 24, 32]) {
+		for (const keyDataSize of [16, 24, 32, 40, 64]) {
+			const kek = crypto.getRandomValues(new Uint8Array(kekSize));
+			const keyData = crypto.getRandomValues(new Uint8Array(keyDataSize));
+			const cipher = nodeCrypto.createCipheriv(
+				`id-aes${kekSize * 8}-wrap`,
+				kek,
+				Buffer.from("a6a6a6a6a6a6a6a6", "hex")
+			);
+			const expected = new Uint8Array(Buffer.concat([cipher.update(keyData), cipher.final()]));
+			expect(wrapKey(kek, keyData)).toStrictEqual(expected);
+			expect(unwrapKey(kek, expected)).toStrictEqual(keyData);
+		}
+	}
+});
+
+test("wrapKeyWithPadding()", () => {
+	for (const kekSize of [16, 24, 32]) {
+		for (const keyDataSize of [1, 7, 8, 9, 15, 16, 20, 33, 100]) {
+			const kek = crypto.getRandomValues(new Uint8Array(kekSize));
+			const keyData = crypto.getRandomValues(new Uint8Array(keyDataSize));
+			const cipher = nodeCrypto.createCipheriv(
+				`id-aes${kekSize * 8}-wrap-pad`,
+				kek,
+				Buffer.from("a65959a6", "hex")
+			);
+			const expected = new Uint8Array(Buffer.concat([cipher.update(keyData), cipher.final()]));
+			expect(wrapKeyWithPadding(kek, keyData)).toStrictEqual(expected);
+			expect(unwrapKeyWithPadding(kek, expected)).toStrictEqual(keyData);
+		}
+	}
+});
+
+test("unwrapKey() with modified data", () => {
+	const kek = crypto.getRandomValues(new Uint8Array(32));
+	const wrappedKey = wrapKey(kek, crypto.getRandomValues(new Uint8Array(32)));
+	for (let i = 0; i < wrappedKey.byteLength; i++) {
+		const modified = wrappedKey.slice();
+		modified[i] ^= 0x01;
+		expect(() => unwrapKey(kek, modified)).toThrowError("Invalid wrapped key");
+	}
+	const otherKek = crypto.getRandomValues(new Uint8Array(32));
+	expect(() => unwrapKey(otherKek, wrappedKey)).toThrowError("Invalid wrapped key");
+	expect(() => unwrapKey(kek, wrappedKey.subarray(8))).toThrowError("Invalid wrapped key");
+	expect(() => unwrapKey(kek, wrappedKey.subarray(0, 20))).toThrowError("Invalid wrapped key");
+	expect(() => unwrapKey(kek, new Uint8Array(16))).toThrowError("Invalid wrapped key");
+});
+
+test("unwrapKeyWithPadding() with modified data", () => {
+	const kek = crypto.getRandomValues(new Uint8Array(32));
+	for (const keyDataSize of [5, 20]) {
+		const wrappedKey = wrapKeyWithPadding(kek, crypto.getRandomValues(new Uint8Array(keyDataSize)));
+		for (let i = 0; i < wrappedKey.byteLength; i++) {
+			const modified = wrappedKey.slice();
+			modified[i] ^= 0x01;
+			expect(() => unwrapKeyWithPadding(kek, modified)).toThrowError("Invalid wrapped key");
+		}
+	}
+	// RFC 3394 output uses a different initial value
+	const wrappedKey = wrapKey(kek, crypto.getRandomValues(new Uint8Array(16)));
+	expect(() => unwrapKeyWithPadding(kek, wrappedKey)).toThrowError("Invalid wrapped key");
+	expect(() => unwrapKeyWithPadding(kek, new Uint8Array(8))).toThrowError("Invalid wrapped key");
+	expect(() => unwrapKeyWithPadding(kek, new Uint8Array(20))).toThrowError("Invalid wrapped key");
+});
+
+test("unwrapKeyWithPadding() with invalid padding", () => {
+	const kek = crypto.getRandomValues(new Uint8Array(16));
+	// Wrap 8 bytes with nonzero padding but a length indicator of 5
+	const block = new Uint8Array(16);
+	block.set([0xa6, 0x59, 0x59, 0xa6, 0x00, 0x00, 0x00, 0x05]);
+	block.set([1, 2, 3, 4, 5, 0, 0, 1], 8);
+	const cipher = nodeCrypto.createCipheriv("aes-128-ecb", kek, null);
+	cipher.setAutoPadding(false);
+	const wrappedKey = new Uint8Array(Buffer.concat([cipher.update(block), cipher.final()]));
+	expect(() => unwrapKeyWithPadding(kek, wrappedKey)).toThrowError("Invalid wrapped key");
+});
+
+test("wrapKey() with invalid parameters", () => {
+	for (const keyDataSize of [0, 8, 15, 17, 31]) {
+		expect(() => wrapKey(new Uint8Array(16), new Uint8Array(keyDataSize))).toThrowError(TypeError);
+	}
+	expect(() => wrapKeyWithPadding(new Uint8Array(16), new Uint8Array())).toThrowError(TypeError);
+	expect(() => wrapKey(new Uint8Array(20), new Uint8Array(16))).toThrowError(TypeError);
+	expect(() => unwrapKey(new Uint8Array(20), new Uint8Array(24))).toThrowError(TypeError);
+});
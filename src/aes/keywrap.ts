@@ -0,0 +1,200 @@
+/**
+ * AES密钥包装实现模块（RFC 3394、RFC 5649）
+ *
+ * 密钥包装（Key Wrap）使用密钥加密密钥（KEK）加密另一个密钥，同时提供完整性保护。
+ * 它不需要nonce，是确定性的，适用于加密高熵的密钥材料而不是一般数据。
+ * JWE的A128KW/A192KW/A256KW、CMS以及各种云KMS都使用这种格式。
+ *
+ * RFC 3394（AES-KW）：
+ * 1. 要包装的密钥长度必须是8字节的整数倍，并且至少16字节
+ * 2. 以A = A6A6A6A6A6A6A6A6作为初始值，对64位的半块R[1..n]进行6 * n次AES变换
+ * 3. 输出A || R[1..n]，比原密钥长8字节。解包装后检查A是否等于初始值
+ *
+ * RFC 5649（AES-KWP）：
+ * 1. 支持任意长度（至少1字节）的密钥，补零到8字节的整数倍
+ * 2. 初始值为A65959A6 || 32位大端序的原始长度（MLI）
+ * 3. 补零后只有8字节时，直接对AIV || P进行一次AES加密
+ */
+
+import { bigEndian } from "@oslojs/binary";
+import { AES } from "./aes.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+/**
+ * 使用AES-KW（RFC 3394）包装密钥
+ *
+ * @example
+ * const wrappedKey = wrapKey(kek, dataEncryptionKey);
+ * const dataEncryptionKey = unwrapKey(kek, wrappedKey);
+ *
+ * @param kek 16、24或32字节的密钥加密密钥
+ * @param keyData 要包装的密钥（至少16字节，长度为8字节的整数倍）
+ * @returns 包装后的密钥（比原密钥长8字节）
+ * @throws TypeError 如果KEK或密钥长度无效
+ */
+export function wrapKey(kek: Uint8Array, keyData: Uint8Array): Uint8Array {
+	if (keyData.byteLength < 16 || keyData.byteLength % 8 !== 0) {
+		throw new TypeError("Invalid key data length");
+	}
+	return wrap(new AES(kek), DEFAULT_IV, keyData);
+}
+
+/**
+ * 解包装AES-KW（RFC 3394）包装的密钥
+ *
+ * @param kek 16、24或32字节的密钥加密密钥
+ * @param wrappedKey 包装后的密钥
+ * @returns 原密钥
+ * @throws TypeError 如果KEK长度无效
+ * @throws Error 如果包装后的密钥无效或完整性校验失败
+ */
+export function unwrapKey(kek: Uint8Array, wrappedKey: Uint8Array): Uint8Array {
+	const aes = new AES(kek);
+	if (wrappedKey.byteLength < 24 || wrappedKey.byteLength % 8 !== 0) {
+		throw new Error("Invalid wrapped key");
+	}
+	const [a, keyData] = unwrap(aes, wrappedKey);
+	if (!constantTimeEqual(a, DEFAULT_IV)) {
+		throw new Error("Invalid wrapped key");
+	}
+	return keyData;
+}
+
+/**
+ * 使用AES-KWP（RFC 5649）包装任意长度的密钥
+ *
+ * @example
+ * const wrappedKey = wrapKeyWithPadding(kek, privateKey);
+ * const privateKey = unwrapKeyWithPadding(kek, wrappedKey);
+ *
+ * @param kek 16、24或32字节的密钥加密密钥
+ * @param keyData 要包装的密钥（至少1字节）
+ * @returns 包装后的密钥
+ * @throws TypeError 如果KEK或密钥长度无效
+ */
+export function wrapKeyWithPadding(kek: Uint8Array, keyData: Uint8Array): Uint8Array {
+	if (keyData.byteLength < 1 || keyData.byteLength > 0xffffffff) {
+		throw new TypeError("Invalid key data length");
+	}
+	const aes = new AES(kek);
+	const iv = new Uint8Array(8);
+	iv.set(ALTERNATIVE_IV_PREFIX);
+	bigEndian.putUint32(iv, keyData.byteLength, 4);
+	const padded = new Uint8Array(Math.ceil(keyData.byteLength / 8) * 8);
+	padded.set(keyData);
+	if (padded.byteLength === 8) {
+		const block = new Uint8Array(16);
+		block.set(iv);
+		block.set(padded, 8);
+		return aes.encryptBlock(block);
+	}
+	return wrap(aes, iv, padded);
+}
+
+/**
+ * 解包装AES-KWP（RFC 5649）包装的密钥
+ *
+ * 所有的校验（初始值、长度和填充）都会执行完毕后再统一判断，失败时抛出相同的错误。
+ *
+ * @param kek 16、24或32字节的密钥加密密钥
+ * @param wrappedKey 包装后的密钥
+ * @returns 原密钥
+ * @throws TypeError 如果KEK长度无效
+ * @throws Error 如果包装后的密钥无效或完整性校验失败
+ */
+export function unwrapKeyWithPadding(kek: Uint8Array, wrappedKey: Uint8Array): Uint8Array {
+	const aes = new AES(kek);
+	if (wrappedKey.byteLength < 16 || wrappedKey.byteLength % 8 !== 0) {
+		throw new Error("Invalid wrapped key");
+	}
+	let a: Uint8Array;
+	let padded: Uint8Array;
+	if (wrappedKey.byteLength === 16) {
+		const block = aes.decryptBlock(wrappedKey);
+		a = block.subarray(0, 8);
+		padded = block.subarray(8);
+	} else {
+		[a, padded] = unwrap(aes, wrappedKey);
+	}
+	const length = bigEndian.uint32(a, 4);
+	const validPrefix = constantTimeEqual(a.subarray(0, 4), ALTERNATIVE_IV_PREFIX);
+	// 8 * (n - 1) < MLI <= 8 * n
+	const validLength = length > padded.byteLength - 8 && length <= padded.byteLength;
+	// 填充必须全部为0
+	let paddingBits = 0;
+	for (let i = padded.byteLength - 8; i < padded.byteLength; i++) {
+		paddingBits |= padded[i] & -(i >= length ? 1 : 0);
+	}
+	if (!validPrefix || !validLength || paddingBits !== 0) {
+		throw new Error("Invalid wrapped key");
+	}
+	return padded.slice(0, length);
+}
+
+/**
+ * 包装过程W（RFC 3394 2.2.1节，使用索引的形式）
+ */
+function wrap(aes: AES, iv: Uint8Array, keyData: Uint8Array): Uint8Array {
+	const n = keyData.byteLength / 8;
+	const result = new Uint8Array(8 + keyData.byteLength);
+	result.set(iv);
+	result.set(keyData, 8);
+	const block = new Uint8Array(16);
+	for (let j = 0; j < 6; j++) {
+		for (let i = 1; i <= n; i++) {
+			// B = AES(K, A | R[i])
+			block.set(result.subarray(0, 8));
+			block.set(result.subarray(i * 8, (i + 1) * 8), 8);
+			const b = aes.encryptBlock(block);
+			// A = MSB(64, B) ^ t，R[i] = LSB(64, B)
+			xorCounter(b, n * j + i);
+			result.set(b.subarray(0, 8));
+			result.set(b.subarray(8), i * 8);
+		}
+	}
+	return result;
+}
+
+/**
+ * 解包装过程W^-1（RFC 3394 2.2.2节），返回A和R[1..n]
+ */
+function unwrap(aes: AES, wrappedKey: Uint8Array): [Uint8Array, Uint8Array] {
+	const n = wrappedKey.byteLength / 8 - 1;
+	const a = new Uint8Array(wrappedKey.subarray(0, 8));
+	const r = new Uint8Array(wrappedKey.subarray(8));
+	const block = new Uint8Array(16);
+	for (let j = 5; j >= 0; j--) {
+		for (let i = n; i >= 1; i--) {
+			// B = AES-1(K, (A ^ t) | R[i])
+			block.set(a);
+			xorCounter(block, n * j + i);
+			block.set(r.subarray((i - 1) * 8, i * 8), 8);
+			const b = aes.decryptBlock(block);
+			// A = MSB(64, B)，R[i] = LSB(64, B)
+			a.set(b.subarray(0, 8));
+			r.set(b.subarray(8), (i - 1) * 8);
+		}
+	}
+	return [a, r];
+}
+
+/**
+ * 将计数器t（64位大端序）异或到前8字节
+ */
+function xorCounter(block: Uint8Array, t: number): void {
+	const counter = new Uint8Array(8);
+	bigEndian.putUint64(counter, BigInt(t), 0);
+	for (let i = 0; i < 8; i++) {
+		block[i] ^= counter[i];
+	}
+}
+
+/**
+ * RFC 3394 2.2.3.1节的默认初始值
+ */
+const DEFAULT_IV = new Uint8Array([0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6, 0xa6]);
+
+/**
+ * RFC 5649 3节的替代初始值的前32位
+ */
+const ALTERNATIVE_IV_PREFIX = new Uint8Array([0xa6, 0x59, 0x59, 0xa6]);
@@ -0,0 +1,99 @@
+/**
+ * POLYVAL 实现模块（RFC 8452 3节）
+ *
+ * POLYVAL是AES-GCM-SIV中使用的通用哈希函数，与GHASH类似，但使用"小端序"的位序：
+ * 每个字节的最低位对应多项式的x^0项，域的模多项式为x^128 + x^127 + x^126 + x^121 + 1，
+ * 并且乘法定义为dot(a, b) = a · b · x^-128。
+ *
+ * 根据RFC 8452附录A，POLYVAL可以通过GHASH计算：
+ * POLYVAL(H, X_1, ..., X_n) =
+ *     ByteReverse(GHASH(mulX_GHASH(ByteReverse(H)), ByteReverse(X_1), ..., ByteReverse(X_n)))
+ * 因此这里直接复用GHASH的实现。
+ */
+
+import { GHASH } from "./ghash.js";
+
+/**
+ * POLYVAL函数
+ *
+ * 数据会被补零到16字节的整数倍后再处理。
+ */
+export class POLYVAL {
+	private ghash: GHASH;
+
+	/**
+	 * 当前块的缓冲区
+	 */
+	private block = new Uint8Array(16);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private blockLength = 0;
+
+	/**
+	 * @param h 16字节的哈希密钥
+	 */
+	constructor(h: Uint8Array) {
+		this.ghash = new GHASH(mulX(reverse(h)));
+	}
+
+	/**
+	 * 添加数据
+	 */
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			const length = Math.min(16 - this.blockLength, data.byteLength - offset);
+			this.block.set(data.subarray(offset, offset + length), this.blockLength);
+			this.blockLength += length;
+			offset += length;
+			if (this.blockLength === 16) {
+				this.processBlock();
+			}
+		}
+	}
+
+	/**
+	 * 将缓冲区中不足16字节的数据补零并处理
+	 */
+	public pad(): void {
+		if (this.blockLength > 0) {
+			this.block.fill(0, this.blockLength);
+			this.processBlock();
+		}
+	}
+
+	/**
+	 * 补零并返回16字节的结果
+	 */
+	public digest(): Uint8Array {
+		this.pad();
+		return reverse(this.ghash.digest());
+	}
+
+	private processBlock(): void {
+		this.ghash.update(reverse(this.block));
+		this.blockLength = 0;
+	}
+}
+
+function reverse(block: Uint8Array): Uint8Array {
+	const result = new Uint8Array(16);
+	for (let i = 0; i < 16; i++) {
+		result[i] = block[15 - i];
+	}
+	return result;
+}
+
+/**
+ * GHASH位序下乘以x：右移1位，如果移出的位为1则与R = 11100001 || 0^120异或
+ */
+function mulX(block: Uint8Array): Uint8Array {
+	const result = new Uint8Array(16);
+	for (let i = 15; i > 0; i--) {
+		result[i] = (block[i] >>> 1) | (block[i - 1] << 7);
+	}
+	result[0] = (block[0] >>> 1) ^ (0xe1 & -(block[15] & 1));
+	return result;
+}
@@ -0,0 +1,66 @@
+import { expect, test } from "vitest";
+import { AESSIV } from "./siv.js";
+
+test("AESSIV.seal()", () => {
+	for (const keySize of [32, 48, 64]) {
+		for (const plaintextSize of [0, 1, 15, 16, 17, 100]) {
+			const key = crypto.getRandomValues(new Uint8Array(keySize));
+			const plaintext = crypto.getRandomValues(new Uint8Array(plaintextSize));
+			const additionalData = [
+				crypto.getRandomValues(new Uint8Array(5)),
+				new Uint8Array(),
+				crypto.getRandomValues(new Uint8Array(32))
+			];
+			const siv = new AESSIV(key);
+			const sealed = siv.seal(plaintext, additionalData);
+			expect(sealed.byteLength).toBe(plaintextSize + 16);
+			expect(siv.seal(plaintext, additionalData)).toStrictEqual(sealed);
+			expect(siv.open(sealed, additionalData)).toStrictEqual(plaintext);
+		}
+	}
+});
+
+test("AESSIV.seal() without additional data", () => {
+	const siv = new AESSIV(crypto.getRandomValues(new Uint8Array(32)));
+	const plaintext = crypto.getRandomValues(new Uint8Array(20));
+	const sealed = siv.seal(plaintext);
+	expect(siv.open(sealed)).toStrictEqual(plaintext);
+	expect(() => siv.open(sealed, [new Uint8Array()])).toThrowError("Invalid tag");
+});
+
+test("AESSIV.seal() authenticates each additional data component separately", () => {
+	const siv = new AESSIV(crypto.getRandomValues(new Uint8Array(32)));
+	const plaintext = crypto.getRandomValues(new Uint8Array(20));
+	const a = crypto.getRandomValues(new Uint8Array(8));
+	const b = crypto.getRandomValues(new Uint8Array(8));
+	const ab = new Uint8Array(16);
+	ab.set(a);
+	ab.set(b, 8);
+	const sealed = siv.seal(plaintext, [a, b]);
+	expect(() => siv.open(sealed, [ab])).toThrowError("Invalid tag");
+	expect(() => siv.open(sealed, [b, a])).toThrowError("Invalid tag");
+});
+
+test("AESSIV.open() with modified data", () => {
+	const siv = new AESSIV(crypto.getRandomValues(new Uint8Array(32)));
+	const plaintext = crypto.getRandomValues(new Uint8Array(40));
+	const additionalData = [crypto.getRandomValues(new Uint8Array(10))];
+	const sealed = siv.seal(plaintext, additionalData);
+	for (let i = 0; i < sealed.byteLength; i++) {
+		const modified = sealed.slice();
+		modified[i] ^= 0x01;
+		expect(() => siv.open(modified, additionalData)).toThrowError("Invalid tag");
+	}
+	expect(() => siv.open(sealed)).toThrowError("Invalid tag");
+	expect(() => siv.open(new Uint8Array(15))).toThrowError("Invalid data");
+});
+
+test("AESSIV with invalid parameters", () => {
+	for (const keySize of [0, 16, 24, 31, 33, 65]) {
+		expect(() => new AESSIV(new Uint8Array(keySize))).toThrowError(TypeError);
+	}
+	const siv = new AESSIV(new Uint8Array(32));
+	const additionalData = new Array<Uint8Array>(127).fill(new Uint8Array());
+	expect(() => siv.seal(new Uint8Array(), additionalData)).toThrowError(TypeError);
+	expect(() => siv.seal(new Uint8Array(), additionalData.slice(1))).not.toThrow();
+});
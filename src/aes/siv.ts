@@ -0,0 +1,172 @@
+/**
+ * AES-SIV 认证加密实现模块（RFC 5297）
+ *
+ * SIV（Synthetic Initialization Vector）是一种确定性的认证加密模式，能够抵抗nonce误用：
+ * 1. 使用S2V（基于CMAC的伪随机函数）对所有附加数据和明文计算出16字节的合成IV（V）
+ * 2. 使用V作为计数器模式（CTR）的初始计数器加密明文
+ * 3. 输出V || 密文
+ *
+ * 由于IV由明文本身派生，即使nonce重复，也只会泄露两条消息是否完全相同，
+ * 而不会像GCM那样泄露明文的异或值或认证密钥。不使用nonce时则是确定性加密（适用于密钥封装等场景）。
+ *
+ * 密钥长度为32、48或64字节，前一半用于S2V（CMAC），后一半用于CTR，分别对应AES-128、AES-192和AES-256。
+ */
+
+import { AES } from "./aes.js";
+import { CMAC, dbl } from "../cmac/cmac.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+/**
+ * AES-SIV认证加密
+ *
+ * 附加数据是一个字节数组的列表，每个元素分别参与认证。使用nonce时，应将其作为列表的最后一个元素（RFC 5297 3节）。
+ *
+ * @example
+ * const siv = new AESSIV(key);
+ * const sealed = siv.seal(plaintext, [header, nonce]);
+ * const opened = siv.open(sealed, [header, nonce]);
+ */
+export class AESSIV {
+	/**
+	 * 合成IV（认证标签）的长度（字节）
+	 */
+	public tagSize = 16;
+
+	/**
+	 * 用于S2V的CMAC，每次计算时复制一份
+	 */
+	private mac: CMAC;
+
+	/**
+	 * 用于CTR的AES实例
+	 */
+	private ctrCipher: AES;
+
+	/**
+	 * @param key 32、48或64字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 32 && key.byteLength !== 48 && key.byteLength !== 64) {
+			throw new TypeError("Invalid key length");
+		}
+		const half = key.byteLength / 2;
+		this.mac = new CMAC(key.subarray(0, half));
+		this.ctrCipher = new AES(key.subarray(half));
+	}
+
+	/**
+	 * 加密并认证数据
+	 *
+	 * @param plaintext 明文
+	 * @param additionalData 只认证不加密的附加数据列表（最多126个）
+	 * @returns 16字节合成IV与密文的连接
+	 * @throws TypeError 如果附加数据过多
+	 */
+	public seal(plaintext: Uint8Array, additionalData: Uint8Array[] = []): Uint8Array {
+		const v = this.s2v(additionalData, plaintext);
+		const result = new Uint8Array(16 + plaintext.byteLength);
+		result.set(v);
+		this.ctr(v, plaintext, result.subarray(16));
+		return result;
+	}
+
+	/**
+	 * 解密并验证数据
+	 *
+	 * 认证失败时不会返回明文。
+	 *
+	 * @param sealed 合成IV与密文的连接
+	 * @param additionalData 加密时使用的附加数据列表
+	 * @returns 明文
+	 * @throws TypeError 如果附加数据过多
+	 * @throws Error 如果数据过短或认证失败
+	 */
+	public open(sealed: Uint8Array, additionalData: Uint8Array[] = []): Uint8Array {
+		if (sealed.byteLength < 16) {
+			throw new Error("Invalid data");
+		}
+		const v = sealed.subarray(0, 16);
+		const plaintext = new Uint8Array(sealed.byteLength - 16);
+		this.ctr(v, sealed.subarray(16), plaintext);
+		if (!constantTimeEqual(this.s2v(additionalData, plaintext), v)) {
+			throw new Error("Invalid tag");
+		}
+		return plaintext;
+	}
+
+	/**
+	 * S2V（RFC 5297 2.4节）
+	 *
+	 * D = CMAC(<zero>)，对每个附加数据S_i计算D = dbl(D) ⊕ CMAC(S_i)，
+	 * 最后将D混入明文后再计算一次CMAC。
+	 */
+	private s2v(additionalData: Uint8Array[], plaintext: Uint8Array): Uint8Array {
+		// 包括明文在内最多127个分量
+		if (additionalData.length > 126) {
+			throw new TypeError("Too many additional data");
+		}
+		let d = this.cmac(new Uint8Array(16));
+		for (const data of additionalData) {
+			d = dbl(d);
+			xor(d, this.cmac(data));
+		}
+		let t: Uint8Array;
+		if (plaintext.byteLength >= 16) {
+			// xorend：将D异或到明文的最后16字节
+			t = new Uint8Array(plaintext);
+			xor(t.subarray(t.byteLength - 16), d);
+		} else {
+			t = dbl(d);
+			xor(t, pad(plaintext));
+		}
+		return this.cmac(t);
+	}
+
+	private cmac(data: Uint8Array): Uint8Array {
+		const mac = this.mac.clone();
+		mac.update(data);
+		return mac.digest();
+	}
+
+	/**
+	 * 计数器模式，初始计数器为清除了第31和63位的V（RFC 5297 2.5节）
+	 *
+	 * 清除这两位使得实现可以只递增低32位或64位而不用处理进位，
+	 * 这里仍然按128位大端序整数递增。
+	 */
+	private ctr(v: Uint8Array, input: Uint8Array, output: Uint8Array): void {
+		const counterBlock = new Uint8Array(v);
+		counterBlock[8] &= 0x7f;
+		counterBlock[12] &= 0x7f;
+		for (let offset = 0; offset < input.byteLength; offset += 16) {
+			const keyStream = this.ctrCipher.encryptBlock(counterBlock);
+			const length = Math.min(16, input.byteLength - offset);
+			for (let i = 0; i < length; i++) {
+				output[offset + i] = input[offset + i] ^ keyStream[i];
+			}
+			for (let i = 15; i >= 0; i--) {
+				counterBlock[i]++;
+				if (counterBlock[i] !== 0) {
+					break;
+				}
+			}
+		}
+	}
+}
+
+/**
+ * 补齐到16字节：附加0x80后补零
+ */
+function pad(data: Uint8Array): Uint8Array {
+	const result = new Uint8Array(16);
+	result.set(data);
+	result[data.byteLength] = 0x80;
+	return result;
+}
+
+function xor(a: Uint8Array, b: Uint8Array): void {
+	for (let i = 0; i < b.byteLength; i++) {
+		a[i] ^= b[i];
+	}
+}
@@ -0,0 +1,525 @@
+/**
+ * Argon2密码哈希算法实现（RFC 9106）
+ *
+ * Argon2是一种内存困难（memory-hard）的密码哈希函数，有三个变体：
+ * - Argon2d：根据数据选择引用块，抗GPU破解能力最强，但可能受到侧信道攻击
+ * - Argon2i：与数据无关地选择引用块，可抵抗侧信道攻击
+ * - Argon2id：第一遍的前半部分使用Argon2i的方式，其余使用Argon2d的方式（推荐）
+ *
+ * 算法结构：
+ * 1. 使用BLAKE2b计算初始哈希H0（包含所有参数、密码、盐值、密钥和关联数据）
+ * 2. 将内存分为p条通道（lane），每条通道分为4个片段（slice），
+ *    每个1 KiB的内存块由前一个块和一个引用块经压缩函数G计算得到
+ * 3. 重复t遍，最后将各通道的最后一个块异或，再用可变长度哈希H'得到输出
+ *
+ * 本实现依次计算各条通道，因此并行度p不会带来速度提升。
+ *
+ * 注意：为了性能，内存块以32位字对的方式表示64位字（低32位在前）。
+ */
+import { littleEndian } from "@oslojs/binary";
+import { BLAKE2b } from "../blake2/index.js";
+
+/**
+ * Argon2参数
+ */
+export interface Argon2Parameters {
+	/**
+	 * 内存大小（KiB），至少为8 * parallelism
+	 */
+	memoryCost: number;
+
+	/**
+	 * 迭代次数（遍数），至少为1
+	 */
+	timeCost: number;
+
+	/**
+	 * 并行度（通道数），1到2^24 - 1
+	 */
+	parallelism: number;
+
+	/**
+	 * 输出长度（字节），至少为4
+	 */
+	hashLength: number;
+}
+
+/**
+ * 使用Argon2d计算哈希
+ *
+ * @param password 密码
+ * @param salt 盐值（至少8字节，推荐16字节）
+ * @param parameters Argon2参数
+ * @param secret 可选的密钥（pepper）
+ * @param associatedData 可选的关联数据
+ * @returns 长度为hashLength的哈希值
+ * @throws 如果参数无效
+ */
+export function argon2d(
+	password: Uint8Array,
+	salt: Uint8Array,
+	parameters: Argon2Parameters,
+	secret: Uint8Array = new Uint8Array(),
+	associatedData: Uint8Array = new Uint8Array()
+): Uint8Array {
+	return argon2(ARGON2D, password, salt, parameters, secret, associatedData);
+}
+
+/**
+ * 使用Argon2i计算哈希
+ *
+ * @param password 密码
+ * @param salt 盐值（至少8字节，推荐16字节）
+ * @param parameters Argon2参数
+ * @param secret 可选的密钥（pepper）
+ * @param associatedData 可选的关联数据
+ * @returns 长度为hashLength的哈希值
+ * @throws 如果参数无效
+ */
+export function argon2i(
+	password: Uint8Array,
+	salt: Uint8Array,
+	parameters: Argon2Parameters,
+	secret: Uint8Array = new Uint8Array(),
+	associatedData: Uint8Array = new Uint8Array()
+): Uint8Array {
+	return argon2(ARGON2I, password, salt, parameters, secret, associatedData);
+}
+
+/**
+ * 使用Argon2id计算哈希
+ *
+ * @param password 密码
+ * @param salt 盐值（至少8字节，推荐16字节）
+ * @param parameters Argon2参数
+ * @param secret 可选的密钥（pepper）
+ * @param associatedData 可选的关联数据
+ * @returns 长度为hashLength的哈希值
+ * @throws 如果参数无效
+ */
+export function argon2id(
+	password: Uint8Array,
+	salt: Uint8Array,
+	parameters: Argon2Parameters,
+	secret: Uint8Array = new Uint8Array(),
+	associatedData: Uint8Array = new Uint8Array()
+): Uint8Array {
+	return argon2(ARGON2ID, password, salt, parameters, secret, associatedData);
+}
+
+// Argon2类型（y）
+export const ARGON2D = 0;
+export const ARGON2I = 1;
+export const ARGON2ID = 2;
+
+// Argon2版本号（0x13 = 19）
+export const ARGON2_VERSION = 0x13;
+
+// 每条通道的片段数
+const SYNC_POINTS = 4;
+
+// 每个内存块中32位字的数量（1024字节）
+const BLOCK_WORDS = 256;
+
+function argon2(
+	type: number,
+	password: Uint8Array,
+	salt: Uint8Array,
+	parameters: Argon2Parameters,
+	secret: Uint8Array,
+	associatedData: Uint8Array
+): Uint8Array {
+	const { memoryCost, timeCost, parallelism, hashLength } = parameters;
+	if (!Number.isInteger(parallelism) || parallelism < 1 || parallelism > 0xffffff) {
+		throw new TypeError("Invalid parallelism");
+	}
+	if (!Number.isInteger(memoryCost) || memoryCost < 8 * parallelism || memoryCost > 0xffffffff) {
+		throw new TypeError("Invalid memory cost");
+	}
+	if (!Number.isInteger(timeCost) || timeCost < 1 || timeCost > 0xffffffff) {
+		throw new TypeError("Invalid time cost");
+	}
+	if (!Number.isInteger(hashLength) || hashLength < 4 || hashLength > 0xffffffff) {
+		throw new TypeError("Invalid hash length");
+	}
+	if (salt.byteLength < 8) {
+		throw new TypeError("Invalid salt");
+	}
+
+	// H0 = H^(64)(LE32(p) || LE32(T) || LE32(m) || LE32(t) || LE32(v) || LE32(y) ||
+	//             LE32(len(P)) || P || LE32(len(S)) || S || LE32(len(K)) || K || LE32(len(X)) || X)
+	const h0Hash = new BLAKE2b(64);
+	const header = new Uint8Array(24);
+	littleEndian.putUint32(header, parallelism, 0);
+	littleEndian.putUint32(header, hashLength, 4);
+	littleEndian.putUint32(header, memoryCost, 8);
+	littleEndian.putUint32(header, timeCost, 12);
+	littleEndian.putUint32(header, ARGON2_VERSION, 16);
+	littleEndian.putUint32(header, type, 20);
+	h0Hash.update(header);
+	for (const data of [password, salt, secret, associatedData]) {
+		const length = new Uint8Array(4);
+		littleEndian.putUint32(length, data.byteLength, 0);
+		h0Hash.update(length);
+		h0Hash.update(data);
+	}
+	const h0 = h0Hash.digest();
+
+	// m' = 4 * p * floor(m / 4p)
+	const blockCount =
+		SYNC_POINTS * parallelism * Math.floor(memoryCost / (SYNC_POINTS * parallelism));
+	const laneLength = blockCount / parallelism;
+	const segmentLength = laneLength / SYNC_POINTS;
+	const memory = new Uint32Array(blockCount * BLOCK_WORDS);
+
+	// B[i][0] = H'^(1024)(H0 || LE32(0) || LE32(i))，B[i][1] = H'^(1024)(H0 || LE32(1) || LE32(i))
+	const input = new Uint8Array(72);
+	input.set(h0);
+	for (let lane = 0; lane < parallelism; lane++) {
+		for (let j = 0; j < 2; j++) {
+			littleEndian.putUint32(input, j, 64);
+			littleEndian.putUint32(input, lane, 68);
+			decodeBlock(variableLengthHash(input, 1024), memory, (lane * laneLength + j) * BLOCK_WORDS);
+		}
+	}
+
+	const instance: Instance = {
+		memory,
+		type,
+		timeCost,
+		parallelism,
+		blockCount,
+		laneLength,
+		segmentLength,
+		buffer: new Uint32Array(BLOCK_WORDS)
+	};
+	for (let pass = 0; pass < timeCost; pass++) {
+		for (let slice = 0; slice < SYNC_POINTS; slice++) {
+			for (let lane = 0; lane < parallelism; lane++) {
+				fillSegment(instance, pass, slice, lane);
+			}
+		}
+	}
+
+	// C = B[0][q-1] XOR B[1][q-1] XOR ... XOR B[p-1][q-1]
+	const finalBlock = memory.slice((laneLength - 1) * BLOCK_WORDS, laneLength * BLOCK_WORDS);
+	for (let lane = 1; lane < parallelism; lane++) {
+		const offset = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+		for (let i = 0; i < BLOCK_WORDS; i++) {
+			finalBlock[i] ^= memory[offset + i];
+		}
+	}
+	return variableLengthHash(encodeBlock(finalBlock), hashLength);
+}
+
+interface Instance {
+	memory: Uint32Array;
+	type: number;
+	timeCost: number;
+	parallelism: number;
+	blockCount: number;
+	laneLength: number;
+	segmentLength: number;
+	buffer: Uint32Array;
+}
+
+/**
+ * 计算一个片段中的所有内存块（RFC 9106 3.4节）
+ */
+function fillSegment(instance: Instance, pass: number, slice: number, lane: number): void {
+	const { memory, laneLength, segmentLength, parallelism } = instance;
+
+	// Argon2i，以及Argon2id第一遍的前两个片段，使用与数据无关的寻址
+	const dataIndependent =
+		instance.type === ARGON2I ||
+		(instance.type === ARGON2ID && pass === 0 && slice < SYNC_POINTS / 2);
+	const zeroBlock = new Uint32Array(BLOCK_WORDS);
+	const inputBlock = new Uint32Array(BLOCK_WORDS);
+	const addressBlock = new Uint32Array(BLOCK_WORDS);
+	if (dataIndependent) {
+		// Z = LE64(r) || LE64(l) || LE64(sl) || LE64(m') || LE64(t) || LE64(y) || LE64(i) || 0
+		inputBlock[0] = pass;
+		inputBlock[2] = lane;
+		inputBlock[4] = slice;
+		inputBlock[6] = instance.blockCount;
+		inputBlock[8] = instance.timeCost;
+		inputBlock[10] = instance.type;
+	}
+	const nextAddresses = (): void => {
+		inputBlock[12]++;
+		compress(zeroBlock, 0, inputBlock, 0, addressBlock, 0, false, instance.buffer);
+		compress(zeroBlock, 0, addressBlock, 0, addressBlock, 0, false, instance.buffer);
+	};
+
+	// 第一遍的第一个片段中，前两个块已经计算好
+	let startIndex = 0;
+	if (pass === 0 && slice === 0) {
+		startIndex = 2;
+		if (dataIndependent) {
+			nextAddresses();
+		}
+	}
+
+	for (let i = startIndex; i < segmentLength; i++) {
+		const index = slice * segmentLength + i;
+		const current = lane * laneLength + index;
+		const previous = index === 0 ? current + laneLength - 1 : current - 1;
+
+		// 取得伪随机数J1和J2
+		let j1: number;
+		let j2: number;
+		if (dataIndependent) {
+			if (i % 128 === 0) {
+				nextAddresses();
+			}
+			j1 = addressBlock[(i % 128) * 2];
+			j2 = addressBlock[(i % 128) * 2 + 1];
+		} else {
+			j1 = memory[previous * BLOCK_WORDS];
+			j2 = memory[previous * BLOCK_WORDS + 1];
+		}
+
+		// 引用通道：第一遍的第一个片段只能引用当前通道
+		const referenceLane = pass === 0 && slice === 0 ? lane : j2 % parallelism;
+		const sameLane = referenceLane === lane;
+
+		// 引用区域W的大小（RFC 9106 3.4.1.2节）
+		let referenceAreaSize: number;
+		if (pass === 0) {
+			if (sameLane) {
+				referenceAreaSize = index - 1;
+			} else {
+				referenceAreaSize = slice * segmentLength - (i === 0 ? 1 : 0);
+			}
+		} else {
+			if (sameLane) {
+				referenceAreaSize = laneLength - segmentLength + i - 1;
+			} else {
+				referenceAreaSize = laneLength - segmentLength - (i === 0 ? 1 : 0);
+			}
+		}
+
+		// x = J1^2 / 2^32，y = (|W| * x) / 2^32，zz = |W| - 1 - y
+		const x = mulHigh(j1, j1);
+		const y = mulHigh(referenceAreaSize, x);
+		const relativePosition = referenceAreaSize - 1 - y;
+		const startPosition = pass === 0 || slice === SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+		const reference =
+			referenceLane * laneLength + ((startPosition + relativePosition) % laneLength);
+
+		// 第一遍直接写入，之后的遍数与原来的块异或（版本0x13）
+		compress(
+			memory,
+			previous * BLOCK_WORDS,
+			memory,
+			reference * BLOCK_WORDS,
+			memory,
+			current * BLOCK_WORDS,
+			pass > 0,
+			instance.buffer
+		);
+	}
+}
+
+/**
+ * 压缩函数G（RFC 9106 3.5节）
+ *
+ * R = X XOR Y，先对R的8行应用置换P，再对8列应用置换P得到Z，输出Z XOR R。
+ * 如果withXor为true，输出再与目标块原有的值异或。
+ */
+function compress(
+	x: Uint32Array,
+	xOffset: number,
+	y: Uint32Array,
+	yOffset: number,
+	out: Uint32Array,
+	outOffset: number,
+	withXor: boolean,
+	r: Uint32Array
+): void {
+	for (let i = 0; i < BLOCK_WORDS; i++) {
+		r[i] = x[xOffset + i] ^ y[yOffset + i];
+	}
+	const z = r.slice();
+	// 行：每行是16个连续的64位字
+	for (let i = 0; i < 8; i++) {
+		permute(z, i * 16, 2);
+	}
+	// 列：每列由每行中相邻的两个64位字组成
+	for (let i = 0; i < 8; i++) {
+		permute(z, i * 2, 16);
+	}
+	if (withXor) {
+		for (let i = 0; i < BLOCK_WORDS; i++) {
+			out[outOffset + i] ^= z[i] ^ r[i];
+		}
+	} else {
+		for (let i = 0; i < BLOCK_WORDS; i++) {
+			out[outOffset + i] = z[i] ^ r[i];
+		}
+	}
+}
+
+/**
+ * 置换P：对16个64位字应用一轮BLAKE2b（不含消息），其中加法替换为BlaMka乘加
+ *
+ * 第k个64位字的索引为 base + floor(k / 2) * step + (k mod 2)，
+ * 对行使用step = 2（16个连续的字），对列使用step = 16（每行中相邻的两个字）。
+ */
+function permute(v: Uint32Array, base: number, step: number): void {
+	const w = new Array<number>(16);
+	for (let k = 0; k < 16; k++) {
+		w[k] = base + (k >> 1) * step + (k & 1);
+	}
+	mix(v, w[0], w[4], w[8], w[12]);
+	mix(v, w[1], w[5], w[9], w[13]);
+	mix(v, w[2], w[6], w[10], w[14]);
+	mix(v, w[3], w[7], w[11], w[15]);
+	mix(v, w[0], w[5], w[10], w[15]);
+	mix(v, w[1], w[6], w[11], w[12]);
+	mix(v, w[2], w[7], w[8], w[13]);
+	mix(v, w[3], w[4], w[9], w[14]);
+}
+
+/**
+ * 函数GB（RFC 9106 3.6节）
+ *
+ * a = a + b + 2 * trunc(a) * trunc(b)
+ * d = (d XOR a) >>> 32
+ * c = c + d + 2 * trunc(c) * trunc(d)
+ * b = (b XOR c) >>> 24
+ * a = a + b + 2 * trunc(a) * trunc(b)
+ * d = (d XOR a) >>> 16
+ * c = c + d + 2 * trunc(c) * trunc(d)
+ * b = (b XOR c) >>> 63
+ */
+function mix(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+	a *= 2;
+	b *= 2;
+	c *= 2;
+	d *= 2;
+	let lo: number;
+	let hi: number;
+
+	blamka(v, a, b);
+	lo = v[d] ^ v[a];
+	hi = v[d + 1] ^ v[a + 1];
+	v[d] = hi;
+	v[d + 1] = lo;
+
+	blamka(v, c, d);
+	lo = v[b] ^ v[c];
+	hi = v[b + 1] ^ v[c + 1];
+	v[b] = (lo >>> 24) | (hi << 8);
+	v[b + 1] = (hi >>> 24) | (lo << 8);
+
+	blamka(v, a, b);
+	lo = v[d] ^ v[a];
+	hi = v[d + 1] ^ v[a + 1];
+	v[d] = (lo >>> 16) | (hi << 16);
+	v[d + 1] = (hi >>> 16) | (lo << 16);
+
+	blamka(v, c, d);
+	lo = v[b] ^ v[c];
+	hi = v[b + 1] ^ v[c + 1];
+	v[b] = (lo << 1) | (hi >>> 31);
+	v[b + 1] = (hi << 1) | (lo >>> 31);
+}
+
+/**
+ * v[x] = v[x] + v[y] + 2 * trunc(v[x]) * trunc(v[y])（模2^64）
+ *
+ * 参数为32位字的索引（低32位）。
+ */
+function blamka(v: Uint32Array, x: number, y: number): void {
+	const xl = v[x];
+	const yl = v[y];
+
+	// trunc(x) * trunc(y)：将两个32位数拆分为16位计算64位乘积
+	const xll = xl & 0xffff;
+	const xlh = xl >>> 16;
+	const yll = yl & 0xffff;
+	const ylh = yl >>> 16;
+	const t = xll * yll;
+	const m1 = xlh * yll + (t >>> 16);
+	const m2 = xll * ylh + (m1 & 0xffff);
+	let productLow = ((m2 << 16) | (t & 0xffff)) >>> 0;
+	let productHigh = (xlh * ylh + (m1 >>> 16) + (m2 >>> 16)) >>> 0;
+
+	// 乘以2
+	productHigh = ((productHigh << 1) | (productLow >>> 31)) >>> 0;
+	productLow = (productLow << 1) >>> 0;
+
+	// x + y + 2 * trunc(x) * trunc(y)
+	const low = xl + yl + productLow;
+	v[x] = low;
+	v[x + 1] = v[x + 1] + v[y + 1] + productHigh + Math.floor(low / 0x100000000);
+}
+
+/**
+ * 计算两个32位无符号整数乘积的高32位
+ *
+ * 将a拆分为两个16位数，使每个部分积都不超过2^53，从而可以用浮点数精确计算。
+ */
+function mulHigh(a: number, b: number): number {
+	const high = (a >>> 16) * b;
+	const low = (a & 0xffff) * b;
+	return Math.floor((high + Math.floor(low / 0x10000)) / 0x10000);
+}
+
+/**
+ * 可变长度哈希函数H'（RFC 9106 3.3节）
+ *
+ * 如果T <= 64：H'^T(A) = H^T(LE32(T) || A)
+ * 否则：r = ceil(T / 32) - 2，
+ *   V1 = H^(64)(LE32(T) || A)，V2 = H^(64)(V1)，...，Vr = H^(64)(V(r-1))，
+ *   V(r+1) = H^(T-32r)(Vr)
+ *   H'^T(A) = W1 || W2 || ... || Wr || V(r+1)，其中Wi是Vi的前32字节
+ */
+function variableLengthHash(input: Uint8Array, length: number): Uint8Array {
+	const lengthBytes = new Uint8Array(4);
+	littleEndian.putUint32(lengthBytes, length, 0);
+	if (length <= 64) {
+		const hash = new BLAKE2b(length);
+		hash.update(lengthBytes);
+		hash.update(input);
+		return hash.digest();
+	}
+	const result = new Uint8Array(length);
+	const r = Math.ceil(length / 32) - 2;
+	let hash = new BLAKE2b(64);
+	hash.update(lengthBytes);
+	hash.update(input);
+	let v = hash.digest();
+	result.set(v.subarray(0, 32));
+	for (let i = 1; i < r; i++) {
+		hash = new BLAKE2b(64);
+		hash.update(v);
+		v = hash.digest();
+		result.set(v.subarray(0, 32), i * 32);
+	}
+	hash = new BLAKE2b(length - 32 * r);
+	hash.update(v);
+	result.set(hash.digest(), r * 32);
+	return result;
+}
+
+/**
+ * 将1024字节的块按小端序读取为32位字
+ */
+function decodeBlock(bytes: Uint8Array, words: Uint32Array, offset: number): void {
+	for (let i = 0; i < BLOCK_WORDS; i++) {
+		words[offset + i] = littleEndian.uint32(bytes, i * 4);
+	}
+}
+
+/**
+ * 将32位字按小端序编码为1024字节的块
+ */
+function encodeBlock(words: Uint32Array): Uint8Array {
+	const bytes = new Uint8Array(BLOCK_WORDS * 4);
+	for (let i = 0; i < BLOCK_WORDS; i++) {
+		littleEndian.putUint32(bytes, words[i], i * 4);
+	}
+	return bytes;
+}
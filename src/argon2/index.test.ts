@@ -0,0 +1,127 @@
+import { expect, test } from "vitest";
+import { argon2d, argon2i, argon2id, hashPassword, verifyPassword } from "./index.js";
+
+import type { RandomReader } from "../random/index.js";
+
+const random: RandomReader = {
+	read(bytes: Uint8Array): void {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+const parameters = {
+	memoryCost: 64,
+	timeCost: 1,
+	parallelism: 1,
+	hashLength: 32
+};
+
+test("hashPassword() and verifyPassword()", () => {
+	const password = new TextEncoder().encode("correct horse battery staple");
+	const hash = hashPassword(random, password, parameters);
+	expect(hash).toMatch(/^\$argon2id\$v=19\$m=64,t=1,p=1\$[A-Za-z0-9+/]{22}\$[A-Za-z0-9+/]{43}$/);
+	expect(verifyPassword(hash, password)).toBe(true);
+	expect(verifyPassword(hash, new TextEncoder().encode("wrong password"))).toBe(false);
+	expect(hashPassword(random, password, parameters)).not.toBe(hash);
+});
+
+test("hashPassword() and verifyPassword() with secret", () => {
+	const password = new TextEncoder().encode("password");
+	const secret = crypto.getRandomValues(new Uint8Array(32));
+	const hash = hashPassword(random, password, parameters, secret);
+	expect(verifyPassword(hash, password, secret)).toBe(true);
+	expect(verifyPassword(hash, password)).toBe(false);
+});
+
+test("verifyPassword() with libargon2 hash", () => {
+	// https://github.com/P-H-C/phc-winner-argon2#command-line-utility
+	const password = new TextEncoder().encode("password");
+	expect(
+		verifyPassword(
+			"$argon2i$v=19$m=65536,t=2,p=4$c29tZXNhbHQ$RdescudvJCsgt3ub+b+dWRWJTmaaJObG",
+			password
+		)
+	).toBe(true);
+});
+
+test("verifyPassword() with argon2d and argon2i", () => {
+	const password = new TextEncoder().encode("password");
+	const salt = new TextEncoder().encode("somesalt");
+	const hash = Buffer.from(argon2d(password, salt, parameters)).toString("base64");
+	expect(
+		verifyPassword(`$argon2d$v=19$m=64,t=1,p=1$c29tZXNhbHQ$${hash.replace(/=+$/, "")}`, password)
+	).toBe(true);
+	const hashI = Buffer.from(argon2i(password, salt, parameters)).toString("base64");
+	expect(
+		verifyPassword(`$argon2i$v=19$m=64,t=1,p=1$c29tZXNhbHQ$${hashI.replace(/=+$/, "")}`, password)
+	).toBe(true);
+});
+
+test("verifyPassword() with malformed hash", () => {
+	const password = new TextEncoder().encode("password");
+	const hash = "RdescudvJCsgt3ub+b+dWRWJTmaaJObG";
+	for (const malformed of [
+		"",
+		"argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHQ$" + hash,
+		"$scrypt$v=19$m=64,t=1,p=1$c29tZXNhbHQ$" + hash,
+		"$argon2id$v=16$m=64,t=1,p=1$c29tZXNhbHQ$" + hash,
+		"$argon2id$m=64,t=1,p=1$c29tZXNhbHQ$" + hash,
+		"$argon2id$v=19$t=1,m=64,p=1$c29tZXNhbHQ$" + hash,
+		"$argon2id$v=19$m=064,t=1,p=1$c29tZXNhbHQ$" + hash,
+		"$argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHQ=$" + hash,
+		"$argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHR$" + hash,
+		"$argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHQ$" + hash + "$"
+	]) {
+		expect(() => verifyPassword(malformed, password)).toThrowError();
+	}
+});
+
+test("verifyPassword() with unsupported algorithm", () => {
+	const password = new TextEncoder().encode("abc");
+	for (const algorithm of [
+		"constructor",
+		"__proto__",
+		"toString",
+		"hasOwnProperty",
+		"argon2",
+		"Argon2id"
+	]) {
+		expect(() =>
+			verifyPassword(`$${algorithm}$v=19$m=8,t=1,p=1$AAAAAAAAAAAAAAAAAAAAAA$YWJj`, password)
+		).toThrowError("Unsupported algorithm");
+	}
+});
+
+test("verifyPassword() with parameters above the limits", () => {
+	const password = new TextEncoder().encode("password");
+	const hash = "RdescudvJCsgt3ub+b+dWRWJTmaaJObG";
+	expect(() =>
+		verifyPassword(`$argon2id$v=19$m=4294967295,t=1,p=1$c29tZXNhbHQ$${hash}`, password)
+	).toThrowError("Invalid hash");
+	expect(() =>
+		verifyPassword(`$argon2id$v=19$m=64,t=4294967295,p=1$c29tZXNhbHQ$${hash}`, password)
+	).toThrowError("Invalid hash");
+	expect(() =>
+		verifyPassword(`$argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHQ$${hash}`, password, undefined, 63)
+	).toThrowError("Invalid hash");
+	expect(() =>
+		verifyPassword(`$argon2id$v=19$m=64,t=2,p=1$c29tZXNhbHQ$${hash}`, password, undefined, 64, 1)
+	).toThrowError("Invalid hash");
+	expect(
+		verifyPassword(`$argon2id$v=19$m=64,t=1,p=1$c29tZXNhbHQ$${hash}`, password, undefined, 64, 1)
+	).toBe(false);
+});
+
+test("argon2id() with invalid parameters", () => {
+	const password = new TextEncoder().encode("password");
+	const salt = new TextEncoder().encode("somesalt");
+	expect(() => argon2id(password, salt, { ...parameters, parallelism: 0 })).toThrowError();
+	expect(() => argon2id(password, salt, { ...parameters, parallelism: 2 ** 24 })).toThrowError();
+	expect(() => argon2id(password, salt, { ...parameters, memoryCost: 7 })).toThrowError();
+	expect(() =>
+		argon2id(password, salt, { ...parameters, memoryCost: 15, parallelism: 2 })
+	).toThrowError();
+	expect(() => argon2id(password, salt, { ...parameters, timeCost: 0 })).toThrowError();
+	expect(() => argon2id(password, salt, { ...parameters, hashLength: 3 })).toThrowError();
+	expect(() => argon2id(password, salt.subarray(0, 7), parameters)).toThrowError();
+});
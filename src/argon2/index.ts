@@ -0,0 +1,39 @@
+/**
+ * Argon2 密码哈希模块
+ *
+ * Argon2是2015年密码哈希竞赛（Password Hashing Competition）的获胜算法，定义于RFC 9106。
+ * 它是一种内存困难（memory-hard）的函数，计算时需要大量内存，
+ * 使得使用GPU或ASIC进行大规模暴力破解的成本大大增加。
+ *
+ * Argon2的主要特点：
+ * 1. 内存大小、迭代次数和并行度都可以配置
+ * 2. 支持可选的密钥（pepper）和关联数据
+ * 3. 使用BLAKE2b作为内部哈希函数
+ *
+ * 本模块提供了Argon2d、Argon2i和Argon2id的实现，
+ * 以及读写PHC字符串格式的密码哈希和验证功能。
+ */
+
+// 导出Argon2核心功能
+export {
+	// 使用Argon2d计算哈希（数据相关寻址）
+	argon2d,
+
+	// 使用Argon2i计算哈希（数据无关寻址）
+	argon2i,
+
+	// 使用Argon2id计算哈希（混合寻址，推荐用于密码哈希）
+	argon2id
+} from "./argon2.js";
+
+// 导出Argon2参数类型
+export type { Argon2Parameters } from "./argon2.js";
+
+// 导出PHC字符串格式的密码哈希功能
+export {
+	// 使用Argon2id对密码进行哈希，返回PHC格式的字符串
+	hashPassword,
+
+	// 验证密码是否与PHC格式的哈希匹配
+	verifyPassword
+} from "./password.js";
@@ -0,0 +1,189 @@
+/**
+ * 使用Argon2存储密码
+ *
+ * 哈希结果以PHC字符串格式表示，包含算法、版本、参数、盐值和哈希值：
+ * $argon2id$v=19$m=19456,t=2,p=1$<盐值>$<哈希值>
+ *
+ * 盐值和哈希值使用不带填充的标准Base64编码。
+ * 这种格式与libargon2、argon2-cffi等常见实现兼容，参数和盐值都保存在字符串中，
+ * 因此可以在不影响已存储的哈希的情况下调整参数。
+ */
+import { constantTimeEqual } from "../subtle/index.js";
+import { argon2d, argon2i, argon2id, ARGON2_VERSION } from "./argon2.js";
+
+import type { RandomReader } from "../random/index.js";
+import type { Argon2Parameters } from "./argon2.js";
+
+/**
+ * 使用Argon2id对密码进行哈希
+ *
+ * 默认参数为OWASP推荐的最低配置（19 MiB内存，2次迭代，并行度1）。
+ *
+ * @example
+ * const password = new TextEncoder().encode("correct horse battery staple");
+ * const hash = hashPassword(random, password);
+ * // $argon2id$v=19$m=19456,t=2,p=1$...
+ *
+ * @param random 随机数读取器，用于生成16字节的盐值
+ * @param password 密码
+ * @param parameters Argon2参数
+ * @param secret 可选的密钥（pepper），不会保存在结果中
+ * @returns PHC格式的哈希字符串
+ * @throws 如果参数无效
+ */
+export function hashPassword(
+	random: RandomReader,
+	password: Uint8Array,
+	parameters: Argon2Parameters = DEFAULT_PARAMETERS,
+	secret: Uint8Array = new Uint8Array()
+): string {
+	const salt = new Uint8Array(16);
+	random.read(salt);
+	const hash = argon2id(password, salt, parameters, secret);
+	return `$argon2id$v=${ARGON2_VERSION}$m=${parameters.memoryCost},t=${parameters.timeCost},p=${parameters.parallelism}$${encodeBase64(salt)}$${encodeBase64(hash)}`;
+}
+
+/**
+ * 验证密码是否与PHC格式的Argon2哈希匹配
+ *
+ * 支持argon2d、argon2i和argon2id，版本必须为19（0x13）。
+ * 哈希值的比较使用常数时间算法。
+ *
+ * 哈希字符串中的参数决定了验证所需的内存和时间，因此超过maxMemoryCost或maxTimeCost的哈希会被拒绝，
+ * 避免被篡改的哈希字符串耗尽内存或长时间占用CPU。
+ *
+ * @param hash PHC格式的哈希字符串
+ * @param password 密码
+ * @param secret 计算哈希时使用的密钥（pepper）
+ * @param maxMemoryCost 允许的最大内存成本（KiB），默认为65536（64 MiB）
+ * @param maxTimeCost 允许的最大迭代次数，默认为10
+ * @returns 如果密码匹配则返回true，否则返回false
+ * @throws 如果哈希字符串格式无效或参数超过上限
+ */
+export function verifyPassword(
+	hash: string,
+	password: Uint8Array,
+	secret: Uint8Array = new Uint8Array(),
+	maxMemoryCost: number = 65536,
+	maxTimeCost: number = 10
+): boolean {
+	const parts = hash.split("$");
+	if (parts.length !== 6 || parts[0] !== "") {
+		throw new Error("Invalid hash");
+	}
+	const algorithm = getAlgorithm(parts[1]);
+	if (parts[2] !== `v=${ARGON2_VERSION}`) {
+		throw new Error("Unsupported version");
+	}
+	const match = parts[3].match(/^m=(\d+),t=(\d+),p=(\d+)$/);
+	if (match === null) {
+		throw new Error("Invalid hash");
+	}
+	const [memoryCost, timeCost, parallelism] = match.slice(1).map(parseDecimal);
+	if (memoryCost > maxMemoryCost || timeCost > maxTimeCost) {
+		throw new Error("Invalid hash");
+	}
+	const salt = decodeBase64(parts[4]);
+	const expected = decodeBase64(parts[5]);
+	const parameters: Argon2Parameters = {
+		memoryCost,
+		timeCost,
+		parallelism,
+		hashLength: expected.byteLength
+	};
+	return constantTimeEqual(algorithm(password, salt, parameters, secret), expected);
+}
+
+const DEFAULT_PARAMETERS: Argon2Parameters = {
+	memoryCost: 19456,
+	timeCost: 2,
+	parallelism: 1,
+	hashLength: 32
+};
+
+/**
+ * 根据PHC字符串中的算法名称选择Argon2变体
+ *
+ * 算法名称来自不可信的输入，不能用普通对象查找（否则"constructor"等原型上的属性也会匹配）。
+ */
+function getAlgorithm(name: string): typeof argon2id {
+	switch (name) {
+		case "argon2d":
+			return argon2d;
+		case "argon2i":
+			return argon2i;
+		case "argon2id":
+			return argon2id;
+		default:
+			throw new Error("Unsupported algorithm");
+	}
+}
+
+/**
+ * 解析十进制参数，不允许前导零（PHC字符串格式的要求）
+ */
+function parseDecimal(s: string): number {
+	if (s.length > 1 && s[0] === "0") {
+		throw new Error("Invalid hash");
+	}
+	const value = Number(s);
+	if (value > 0xffffffff) {
+		throw new Error("Invalid hash");
+	}
+	return value;
+}
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * 使用不带填充的标准Base64编码
+ */
+function encodeBase64(bytes: Uint8Array): string {
+	let result = "";
+	for (let i = 0; i < bytes.byteLength; i += 3) {
+		let buffer = 0;
+		let bits = 0;
+		for (let j = 0; j < 3 && i + j < bytes.byteLength; j++) {
+			buffer = (buffer << 8) | bytes[i + j];
+			bits += 8;
+		}
+		// 补齐到6的倍数
+		const padding = (6 - (bits % 6)) % 6;
+		buffer <<= padding;
+		bits += padding;
+		for (let shift = bits - 6; shift >= 0; shift -= 6) {
+			result += BASE64_ALPHABET[(buffer >> shift) & 0x3f];
+		}
+	}
+	return result;
+}
+
+/**
+ * 解码不带填充的标准Base64，拒绝填充字符和非规范的编码
+ */
+function decodeBase64(s: string): Uint8Array {
+	if (s.length % 4 === 1) {
+		throw new Error("Invalid hash");
+	}
+	const result = new Uint8Array(Math.floor((s.length * 6) / 8));
+	let buffer = 0;
+	let bits = 0;
+	let offset = 0;
+	for (let i = 0; i < s.length; i++) {
+		const value = BASE64_ALPHABET.indexOf(s[i]);
+		if (value === -1) {
+			throw new Error("Invalid hash");
+		}
+		buffer = ((buffer << 6) | value) & 0xfff;
+		bits += 6;
+		if (bits >= 8) {
+			bits -= 8;
+			result[offset++] = buffer >> bits;
+		}
+	}
+	// 剩余的位必须为零
+	if ((buffer & ((1 << bits) - 1)) !== 0) {
+		throw new Error("Invalid hash");
+	}
+	return result;
+}
@@ -0,0 +1,62 @@
+import { expect, test } from "vitest";
+import { blake2b, BLAKE2b } from "./blake2b.js";
+import * as nodeCrypto from "node:crypto";
+import { testClone } from "../hash/test-utils.js";
+
+test("BLAKE2b", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = new Uint8Array(
+			nodeCrypto
+				.createHash("blake2b512")
+				.update(randomValues.slice(0, i * 5))
+				.digest()
+		);
+		const hash = new BLAKE2b();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("BLAKE2b with key", async () => {
+	const key = crypto.getRandomValues(new Uint8Array(64));
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = blake2b((i % 64) + 1, randomValues.slice(0, i * 5), { key });
+		const hash = new BLAKE2b((i % 64) + 1, { key });
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("BLAKE2b with salt and personalization", () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const personalization = crypto.getRandomValues(new Uint8Array(16));
+	// An all-zero salt and personalization is the same as not setting them
+	expect(
+		blake2b(64, data, { salt: new Uint8Array(16), personalization: new Uint8Array(16) })
+	).toStrictEqual(blake2b(64, data));
+	expect(blake2b(64, data, { salt })).not.toStrictEqual(blake2b(64, data));
+	expect(blake2b(64, data, { personalization })).not.toStrictEqual(blake2b(64, data));
+});
+
+test("BLAKE2b with invalid parameters", () => {
+	expect(() => new BLAKE2b(0)).toThrowError();
+	expect(() => new BLAKE2b(65)).toThrowError();
+	expect(() => new BLAKE2b(64, { key: new Uint8Array(65) })).toThrowError();
+	expect(() => new BLAKE2b(64, { salt: new Uint8Array(15) })).toThrowError();
+	expect(() => new BLAKE2b(64, { personalization: new Uint8Array(17) })).toThrowError();
+});
+
+test("BLAKE2b.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(64));
+	testClone(
+		() => new BLAKE2b(64, { key }),
+		(data) => blake2b(64, data, { key })
+	);
+});
@@ -0,0 +1,259 @@
+/**
+ * BLAKE2b 哈希算法实现模块（RFC 7693）
+ *
+ * BLAKE2b是基于BLAKE（SHA-3竞赛的决赛算法）改进的哈希函数，针对64位平台优化，
+ * 在软件实现中通常比SHA-2和SHA-3更快，同时提供相当的安全性。
+ *
+ * BLAKE2b的特点：
+ * 1. 使用64位字，块大小为128字节，输出长度可以是1到64字节
+ * 2. 内置密钥模式，可以直接作为消息认证码（MAC）使用，无需HMAC结构
+ * 3. 支持盐值（salt）和个性化字符串（personalization），用于区分不同的应用场景
+ *
+ * 与SHA-2不同，BLAKE2b的计数器记录的是字节数，最后一个块在压缩时设置结束标志，
+ * 因此不需要额外的填充块。
+ */
+import { littleEndian, rotr64 } from "@oslojs/binary";
+
+import type { Hash } from "../hash/index.js";
+
+/**
+ * BLAKE2的可选参数
+ */
+export interface BLAKE2Options {
+	/**
+	 * 密钥（BLAKE2b最多64字节，BLAKE2s最多32字节），设置后作为MAC使用
+	 */
+	key?: Uint8Array;
+
+	/**
+	 * 盐值（BLAKE2b为16字节，BLAKE2s为8字节）
+	 */
+	salt?: Uint8Array;
+
+	/**
+	 * 个性化字符串（BLAKE2b为16字节，BLAKE2s为8字节）
+	 */
+	personalization?: Uint8Array;
+}
+
+/**
+ * BLAKE2b哈希函数 - 便捷版本
+ *
+ * @example
+ * const data = new TextEncoder().encode("Hello, world!");
+ * const hash = blake2b(32, data);
+ *
+ * // 使用密钥作为MAC
+ * const mac = blake2b(32, data, { key });
+ *
+ * @param size 输出长度（1到64字节）
+ * @param data 要计算哈希值的数据
+ * @param options 密钥、盐值和个性化字符串
+ * @returns 长度为size的BLAKE2b哈希值
+ */
+export function blake2b(size: number, data: Uint8Array, options?: BLAKE2Options): Uint8Array {
+	const hash = new BLAKE2b(size, options);
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * BLAKE2b类 - 实现BLAKE2b哈希算法
+ *
+ * 使用默认参数（64字节输出，无密钥）时可以作为HashAlgorithm传给HMAC等函数。
+ */
+export class BLAKE2b implements Hash {
+	/**
+	 * BLAKE2b的块大小为128字节
+	 */
+	public blockSize = 128;
+
+	/**
+	 * 输出大小（1到64字节）
+	 */
+	public size: number;
+
+	/**
+	 * 当前处理块的缓冲区
+	 */
+	private blocks = new Uint8Array(128);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private currentBlockSize = 0;
+
+	/**
+	 * 已压缩的数据总长度（字节）
+	 */
+	private t = 0n;
+
+	/**
+	 * 8个64位状态值
+	 */
+	private h = new BigUint64Array(IV);
+
+	/**
+	 * 消息块的16个64位字
+	 */
+	private m = new BigUint64Array(16);
+
+	/**
+	 * 压缩函数的16个64位工作变量
+	 */
+	private v = new BigUint64Array(16);
+
+	/**
+	 * @param size 输出大小（1到64字节），默认为64
+	 * @param options 密钥、盐值和个性化字符串
+	 * @throws TypeError 如果输出大小或参数无效
+	 */
+	constructor(size = 64, options: BLAKE2Options = {}) {
+		if (!Number.isInteger(size) || size < 1 || size > 64) {
+			throw new TypeError("Invalid digest size");
+		}
+		const key = options.key ?? new Uint8Array();
+		if (key.byteLength > 64) {
+			throw new TypeError("Invalid key length");
+		}
+		this.size = size;
+
+		// 参数块：h[0] ^= 0x0101kknn（fanout = 1，depth = 1，kk为密钥长度，nn为输出长度）
+		this.h[0] ^= 0x01010000n ^ BigInt(key.byteLength << 8) ^ BigInt(size);
+		// 盐值位于参数块的第32到47字节，个性化字符串位于第48到63字节
+		if (options.salt !== undefined) {
+			if (options.salt.byteLength !== 16) {
+				throw new TypeError("Invalid salt length");
+			}
+			this.h[4] ^= littleEndian.uint64(options.salt, 0);
+			this.h[5] ^= littleEndian.uint64(options.salt, 8);
+		}
+		if (options.personalization !== undefined) {
+			if (options.personalization.byteLength !== 16) {
+				throw new TypeError("Invalid personalization length");
+			}
+			this.h[6] ^= littleEndian.uint64(options.personalization, 0);
+			this.h[7] ^= littleEndian.uint64(options.personalization, 8);
+		}
+
+		// 密钥填充为一个完整的块，作为第一个消息块处理
+		if (key.byteLength > 0) {
+			this.blocks.set(key);
+			this.currentBlockSize = 128;
+		}
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			// 只有在确定还有更多数据时才压缩缓冲区，最后一个块需要在digest()中设置结束标志
+			if (this.currentBlockSize === 128) {
+				this.t += 128n;
+				this.compress(false);
+				this.currentBlockSize = 0;
+			}
+			const length = Math.min(128 - this.currentBlockSize, data.byteLength - offset);
+			this.blocks.set(data.subarray(offset, offset + length), this.currentBlockSize);
+			this.currentBlockSize += length;
+			offset += length;
+		}
+	}
+
+	public digest(): Uint8Array {
+		this.t += BigInt(this.currentBlockSize);
+		this.blocks.fill(0, this.currentBlockSize);
+		this.compress(true);
+		const result = new Uint8Array(64);
+		for (let i = 0; i < 8; i++) {
+			littleEndian.putUint64(result, this.h[i], i * 8);
+		}
+		return result.slice(0, this.size);
+	}
+
+	public clone(): BLAKE2b {
+		const hash = new BLAKE2b(this.size);
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.t = this.t;
+		hash.h.set(this.h);
+		return hash;
+	}
+
+	/**
+	 * 压缩函数F（RFC 7693 3.2节）
+	 *
+	 * @param last 是否为最后一个块
+	 */
+	private compress(last: boolean): void {
+		for (let i = 0; i < 16; i++) {
+			this.m[i] = littleEndian.uint64(this.blocks, i * 8);
+		}
+		const v = this.v;
+		v.set(this.h);
+		v.set(IV, 8);
+		v[12] ^= this.t & 0xffffffffffffffffn;
+		v[13] ^= this.t >> 64n;
+		if (last) {
+			v[14] = ~v[14];
+		}
+		for (let i = 0; i < 12; i++) {
+			const s = SIGMA[i % 10];
+			this.mix(0, 4, 8, 12, this.m[s[0]], this.m[s[1]]);
+			this.mix(1, 5, 9, 13, this.m[s[2]], this.m[s[3]]);
+			this.mix(2, 6, 10, 14, this.m[s[4]], this.m[s[5]]);
+			this.mix(3, 7, 11, 15, this.m[s[6]], this.m[s[7]]);
+			this.mix(0, 5, 10, 15, this.m[s[8]], this.m[s[9]]);
+			this.mix(1, 6, 11, 12, this.m[s[10]], this.m[s[11]]);
+			this.mix(2, 7, 8, 13, this.m[s[12]], this.m[s[13]]);
+			this.mix(3, 4, 9, 14, this.m[s[14]], this.m[s[15]]);
+		}
+		for (let i = 0; i < 8; i++) {
+			this.h[i] ^= v[i] ^ v[i + 8];
+		}
+	}
+
+	/**
+	 * 混合函数G（RFC 7693 3.1节）
+	 */
+	private mix(a: number, b: number, c: number, d: number, x: bigint, y: bigint): void {
+		const v = this.v;
+		v[a] = v[a] + v[b] + x;
+		v[d] = rotr64(v[d] ^ v[a], 32);
+		v[c] = v[c] + v[d];
+		v[b] = rotr64(v[b] ^ v[c], 24);
+		v[a] = v[a] + v[b] + y;
+		v[d] = rotr64(v[d] ^ v[a], 16);
+		v[c] = v[c] + v[d];
+		v[b] = rotr64(v[b] ^ v[c], 63);
+	}
+}
+
+/**
+ * 初始化向量（与SHA-512的初始哈希值相同）
+ */
+const IV = new BigUint64Array([
+	0x6a09e667f3bcc908n,
+	0xbb67ae8584caa73bn,
+	0x3c6ef372fe94f82bn,
+	0xa54ff53a5f1d36f1n,
+	0x510e527fade682d1n,
+	0x9b05688c2b3e6c1fn,
+	0x1f83d9abfb41bd6bn,
+	0x5be0cd19137e2179n
+]);
+
+/**
+ * 消息字的置换表（BLAKE2b和BLAKE2s共用）
+ */
+export const SIGMA = [
+	[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+	[14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+	[11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+	[7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+	[9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+	[2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+	[12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+	[13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+	[6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+	[10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
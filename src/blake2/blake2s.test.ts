@@ -0,0 +1,62 @@
+import { expect, test } from "vitest";
+import { blake2s, BLAKE2s } from "./blake2s.js";
+import * as nodeCrypto from "node:crypto";
+import { testClone } from "../hash/test-utils.js";
+
+test("BLAKE2s", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = new Uint8Array(
+			nodeCrypto
+				.createHash("blake2s256")
+				.update(randomValues.slice(0, i * 5))
+				.digest()
+		);
+		const hash = new BLAKE2s();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("BLAKE2s with key", async () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = blake2s((i % 32) + 1, randomValues.slice(0, i * 5), { key });
+		const hash = new BLAKE2s((i % 32) + 1, { key });
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("BLAKE2s with salt and personalization", () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const salt = crypto.getRandomValues(new Uint8Array(8));
+	const personalization = crypto.getRandomValues(new Uint8Array(8));
+	// An all-zero salt and personalization is the same as not setting them
+	expect(
+		blake2s(32, data, { salt: new Uint8Array(8), personalization: new Uint8Array(8) })
+	).toStrictEqual(blake2s(32, data));
+	expect(blake2s(32, data, { salt })).not.toStrictEqual(blake2s(32, data));
+	expect(blake2s(32, data, { personalization })).not.toStrictEqual(blake2s(32, data));
+});
+
+test("BLAKE2s with invalid parameters", () => {
+	expect(() => new BLAKE2s(0)).toThrowError();
+	expect(() => new BLAKE2s(33)).toThrowError();
+	expect(() => new BLAKE2s(32, { key: new Uint8Array(33) })).toThrowError();
+	expect(() => new BLAKE2s(32, { salt: new Uint8Array(7) })).toThrowError();
+	expect(() => new BLAKE2s(32, { personalization: new Uint8Array(9) })).toThrowError();
+});
+
+test("BLAKE2s.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	testClone(
+		() => new BLAKE2s(32, { key }),
+		(data) => blake2s(32, data, { key })
+	);
+});
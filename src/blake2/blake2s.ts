@@ -0,0 +1,208 @@
+/**
+ * BLAKE2s 哈希算法实现模块（RFC 7693）
+ *
+ * BLAKE2s是BLAKE2针对8到32位平台优化的变体，使用32位字，块大小为64字节，
+ * 输出长度可以是1到32字节。除了字长、轮数（10轮）和循环移位量不同以外，结构与BLAKE2b相同。
+ */
+import { littleEndian, rotr32 } from "@oslojs/binary";
+import { SIGMA } from "./blake2b.js";
+
+import type { Hash } from "../hash/index.js";
+import type { BLAKE2Options } from "./blake2b.js";
+
+/**
+ * BLAKE2s哈希函数 - 便捷版本
+ *
+ * @example
+ * const data = new TextEncoder().encode("Hello, world!");
+ * const hash = blake2s(32, data);
+ *
+ * @param size 输出长度（1到32字节）
+ * @param data 要计算哈希值的数据
+ * @param options 密钥、盐值和个性化字符串
+ * @returns 长度为size的BLAKE2s哈希值
+ */
+export function blake2s(size: number, data: Uint8Array, options?: BLAKE2Options): Uint8Array {
+	const hash = new BLAKE2s(size, options);
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * BLAKE2s类 - 实现BLAKE2s哈希算法
+ *
+ * 使用默认参数（32字节输出，无密钥）时可以作为HashAlgorithm传给HMAC等函数。
+ */
+export class BLAKE2s implements Hash {
+	/**
+	 * BLAKE2s的块大小为64字节
+	 */
+	public blockSize = 64;
+
+	/**
+	 * 输出大小（1到32字节）
+	 */
+	public size: number;
+
+	/**
+	 * 当前处理块的缓冲区
+	 */
+	private blocks = new Uint8Array(64);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private currentBlockSize = 0;
+
+	/**
+	 * 已压缩的数据总长度（字节）
+	 */
+	private t = 0;
+
+	/**
+	 * 8个32位状态值
+	 */
+	private h = new Uint32Array(IV);
+
+	/**
+	 * 消息块的16个32位字
+	 */
+	private m = new Uint32Array(16);
+
+	/**
+	 * 压缩函数的16个32位工作变量
+	 */
+	private v = new Uint32Array(16);
+
+	/**
+	 * @param size 输出大小（1到32字节），默认为32
+	 * @param options 密钥、盐值和个性化字符串
+	 * @throws TypeError 如果输出大小或参数无效
+	 */
+	constructor(size = 32, options: BLAKE2Options = {}) {
+		if (!Number.isInteger(size) || size < 1 || size > 32) {
+			throw new TypeError("Invalid digest size");
+		}
+		const key = options.key ?? new Uint8Array();
+		if (key.byteLength > 32) {
+			throw new TypeError("Invalid key length");
+		}
+		this.size = size;
+
+		// 参数块：h[0] ^= 0x0101kknn（fanout = 1，depth = 1，kk为密钥长度，nn为输出长度）
+		this.h[0] ^= 0x01010000 ^ (key.byteLength << 8) ^ size;
+		// 盐值位于参数块的第16到23字节，个性化字符串位于第24到31字节
+		if (options.salt !== undefined) {
+			if (options.salt.byteLength !== 8) {
+				throw new TypeError("Invalid salt length");
+			}
+			this.h[4] ^= littleEndian.uint32(options.salt, 0);
+			this.h[5] ^= littleEndian.uint32(options.salt, 4);
+		}
+		if (options.personalization !== undefined) {
+			if (options.personalization.byteLength !== 8) {
+				throw new TypeError("Invalid personalization length");
+			}
+			this.h[6] ^= littleEndian.uint32(options.personalization, 0);
+			this.h[7] ^= littleEndian.uint32(options.personalization, 4);
+		}
+
+		// 密钥填充为一个完整的块，作为第一个消息块处理
+		if (key.byteLength > 0) {
+			this.blocks.set(key);
+			this.currentBlockSize = 64;
+		}
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			// 只有在确定还有更多数据时才压缩缓冲区，最后一个块需要在digest()中设置结束标志
+			if (this.currentBlockSize === 64) {
+				this.t += 64;
+				this.compress(false);
+				this.currentBlockSize = 0;
+			}
+			const length = Math.min(64 - this.currentBlockSize, data.byteLength - offset);
+			this.blocks.set(data.subarray(offset, offset + length), this.currentBlockSize);
+			this.currentBlockSize += length;
+			offset += length;
+		}
+	}
+
+	public digest(): Uint8Array {
+		this.t += this.currentBlockSize;
+		this.blocks.fill(0, this.currentBlockSize);
+		this.compress(true);
+		const result = new Uint8Array(32);
+		for (let i = 0; i < 8; i++) {
+			littleEndian.putUint32(result, this.h[i], i * 4);
+		}
+		return result.slice(0, this.size);
+	}
+
+	public clone(): BLAKE2s {
+		const hash = new BLAKE2s(this.size);
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.t = this.t;
+		hash.h.set(this.h);
+		return hash;
+	}
+
+	/**
+	 * 压缩函数F（RFC 7693 3.2节）
+	 *
+	 * @param last 是否为最后一个块
+	 */
+	private compress(last: boolean): void {
+		for (let i = 0; i < 16; i++) {
+			this.m[i] = littleEndian.uint32(this.blocks, i * 4);
+		}
+		const v = this.v;
+		v.set(this.h);
+		v.set(IV, 8);
+		// 64位计数器分为低32位和高32位
+		v[12] ^= this.t;
+		v[13] ^= Math.floor(this.t / 0x100000000);
+		if (last) {
+			v[14] = ~v[14];
+		}
+		for (let i = 0; i < 10; i++) {
+			const s = SIGMA[i];
+			this.mix(0, 4, 8, 12, this.m[s[0]], this.m[s[1]]);
+			this.mix(1, 5, 9, 13, this.m[s[2]], this.m[s[3]]);
+			this.mix(2, 6, 10, 14, this.m[s[4]], this.m[s[5]]);
+			this.mix(3, 7, 11, 15, this.m[s[6]], this.m[s[7]]);
+			this.mix(0, 5, 10, 15, this.m[s[8]], this.m[s[9]]);
+			this.mix(1, 6, 11, 12, this.m[s[10]], this.m[s[11]]);
+			this.mix(2, 7, 8, 13, this.m[s[12]], this.m[s[13]]);
+			this.mix(3, 4, 9, 14, this.m[s[14]], this.m[s[15]]);
+		}
+		for (let i = 0; i < 8; i++) {
+			this.h[i] ^= v[i] ^ v[i + 8];
+		}
+	}
+
+	/**
+	 * 混合函数G（RFC 7693 3.1节）
+	 */
+	private mix(a: number, b: number, c: number, d: number, x: number, y: number): void {
+		const v = this.v;
+		v[a] = v[a] + v[b] + x;
+		v[d] = rotr32(v[d] ^ v[a], 16);
+		v[c] = v[c] + v[d];
+		v[b] = rotr32(v[b] ^ v[c], 12);
+		v[a] = v[a] + v[b] + y;
+		v[d] = rotr32(v[d] ^ v[a], 8);
+		v[c] = v[c] + v[d];
+		v[b] = rotr32(v[b] ^ v[c], 7);
+	}
+}
+
+/**
+ * 初始化向量（与SHA-256的初始哈希值相同）
+ */
+const IV = new Uint32Array([
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]);
@@ -0,0 +1,22 @@
+/**
+ * BLAKE2 哈希算法系列模块
+ *
+ * BLAKE2定义于RFC 7693，是一系列高速的密码学哈希函数，被Argon2、libsodium、WireGuard等广泛使用。
+ *
+ * BLAKE2算法家族包括：
+ * - BLAKE2b：针对64位平台优化，输出1到64字节
+ * - BLAKE2s：针对8到32位平台优化，输出1到32字节
+ *
+ * 两者都支持密钥（作为MAC使用）、盐值和个性化字符串。
+ *
+ * 本模块导出了BLAKE2b和BLAKE2s的类和便捷函数。
+ */
+
+// 导出BLAKE2b算法（默认生成512位/64字节哈希值）
+export { BLAKE2b, blake2b } from "./blake2b.js";
+
+// 导出BLAKE2s算法（默认生成256位/32字节哈希值）
+export { BLAKE2s, blake2s } from "./blake2s.js";
+
+// 导出BLAKE2的可选参数类型
+export type { BLAKE2Options } from "./blake2b.js";
@@ -0,0 +1,58 @@
+import { expect, test } from "vitest";
+import { blake3, BLAKE3 } from "./blake3.js";
+import { testClone } from "../hash/test-utils.js";
+
+test("BLAKE3", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(50 * 100));
+	for (let i = 0; i < randomValues.byteLength / 50; i++) {
+		const expected = blake3(32, randomValues.slice(0, i * 50));
+		const hash = new BLAKE3();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 50, (j + 1) * 50));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("BLAKE3.digest() does not modify state", () => {
+	const data = crypto.getRandomValues(new Uint8Array(3000));
+	const hash = new BLAKE3();
+	hash.update(data.subarray(0, 1500));
+	expect(hash.digest()).toStrictEqual(blake3(32, data.subarray(0, 1500)));
+	hash.update(data.subarray(1500));
+	expect(hash.digest()).toStrictEqual(blake3(32, data));
+});
+
+test("BLAKE3.finalizeXOF()", () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const expected = blake3(1000, data);
+	const hash = new BLAKE3();
+	hash.update(data);
+	const reader = hash.finalizeXOF();
+	const output = new Uint8Array(1000);
+	for (let i = 0; i < 1000; i += 30) {
+		reader.read(output.subarray(i, i + 30));
+	}
+	expect(output).toStrictEqual(expected);
+	expect(reader.position).toBe(1000);
+
+	reader.position = 500;
+	const seeked = new Uint8Array(100);
+	reader.read(seeked);
+	expect(seeked).toStrictEqual(expected.slice(500, 600));
+});
+
+test("BLAKE3 with invalid parameters", () => {
+	expect(() => new BLAKE3(0)).toThrowError();
+	expect(() => new BLAKE3(32, { key: new Uint8Array(31) })).toThrowError();
+	expect(
+		() => new BLAKE3(32, { key: new Uint8Array(32), context: "example.com 2024-01-01 test" })
+	).toThrowError();
+});
+
+test("BLAKE3.clone()", () => {
+	testClone(
+		() => new BLAKE3(),
+		(data) => blake3(32, data)
+	);
+});
@@ -0,0 +1,491 @@
+/**
+ * BLAKE3 哈希算法实现模块
+ *
+ * BLAKE3基于BLAKE2s的压缩函数（轮数减少为7轮），并将输入组织为一棵二叉树（Merkle树）：
+ * 1. 输入被分为1024字节的块（chunk），每个块内的64字节分组依次压缩，得到块的链接值（chaining value）
+ * 2. 相邻的两个链接值作为父节点的输入继续压缩，直到得到根节点
+ * 3. 根节点使用计数器可以输出任意长度的结果（可扩展输出，XOF）
+ *
+ * BLAKE3有三种模式，分别使用不同的标志位：
+ * - 哈希：使用固定的IV作为密钥
+ * - 带密钥的哈希（keyed_hash）：使用32字节的密钥，可以作为MAC使用
+ * - 密钥派生（derive_key）：先对上下文字符串进行哈希得到上下文密钥，再用它处理密钥材料
+ *
+ * 本实现只保存一个由链接值组成的栈，栈的深度不超过树的高度，
+ * 因此处理n字节的输入只需要O(log n)的内存。
+ */
+import { littleEndian, rotr32 } from "@oslojs/binary";
+
+import type { Hash } from "../hash/index.js";
+
+/**
+ * BLAKE3哈希函数 - 便捷版本
+ *
+ * @example
+ * const data = new TextEncoder().encode("Hello, world!");
+ * const hash = blake3(32, data);
+ *
+ * // 使用密钥作为MAC
+ * const mac = blake3(32, data, { key });
+ *
+ * // 派生密钥
+ * const derivedKey = blake3(32, keyMaterial, { context: "example.com 2024-01-01 session keys" });
+ *
+ * @param size 输出长度（字节）
+ * @param data 要计算哈希值的数据
+ * @param options 密钥或密钥派生的上下文字符串
+ * @returns 长度为size的BLAKE3哈希值
+ */
+export function blake3(size: number, data: Uint8Array, options?: BLAKE3Options): Uint8Array {
+	const hash = new BLAKE3(size, options);
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * BLAKE3的可选参数
+ *
+ * key和context不能同时设置。
+ */
+export interface BLAKE3Options {
+	/**
+	 * 32字节的密钥，设置后使用带密钥的哈希模式（keyed_hash）
+	 */
+	key?: Uint8Array;
+
+	/**
+	 * 上下文字符串，设置后使用密钥派生模式（derive_key），输入数据作为密钥材料。
+	 * 上下文字符串应该是硬编码的、全局唯一的、与具体应用相关的字符串。
+	 */
+	context?: string;
+}
+
+/**
+ * BLAKE3类 - 实现BLAKE3哈希算法
+ *
+ * 使用默认参数（32字节输出，无密钥）时可以作为HashAlgorithm传给HMAC等函数。
+ * digest()和finalizeXOF()不会改变内部状态，调用后仍然可以继续添加数据。
+ */
+export class BLAKE3 implements Hash {
+	/**
+	 * BLAKE3的分组大小为64字节
+	 */
+	public blockSize = 64;
+
+	/**
+	 * 输出大小（字节）
+	 */
+	public size: number;
+
+	/**
+	 * 密钥（8个32位字），哈希模式下为IV
+	 */
+	private key: Uint32Array;
+
+	/**
+	 * 模式标志位
+	 */
+	private flags: number;
+
+	/**
+	 * 当前块的状态
+	 */
+	private chunk: ChunkState;
+
+	/**
+	 * 已完成的子树的链接值栈
+	 */
+	private stack: Uint32Array[] = [];
+
+	/**
+	 * @param size 输出大小（字节），默认为32
+	 * @param options 密钥或密钥派生的上下文字符串
+	 * @throws TypeError 如果输出大小或参数无效
+	 */
+	constructor(size = 32, options: BLAKE3Options = {}) {
+		if (!Number.isInteger(size) || size < 1) {
+			throw new TypeError("Invalid digest size");
+		}
+		this.size = size;
+		if (options.key !== undefined && options.context !== undefined) {
+			throw new TypeError("Invalid options");
+		}
+		if (options.key !== undefined) {
+			if (options.key.byteLength !== 32) {
+				throw new TypeError("Invalid key length");
+			}
+			this.key = decodeWords(options.key, 0, 8);
+			this.flags = KEYED_HASH;
+		} else if (options.context !== undefined) {
+			// 上下文密钥 = 使用DERIVE_KEY_CONTEXT标志对上下文字符串进行哈希
+			const contextHash = new BLAKE3();
+			contextHash.flags = DERIVE_KEY_CONTEXT;
+			contextHash.chunk = new ChunkState(IV, 0, DERIVE_KEY_CONTEXT);
+			contextHash.update(new TextEncoder().encode(options.context));
+			this.key = decodeWords(contextHash.digest(), 0, 8);
+			this.flags = DERIVE_KEY_MATERIAL;
+		} else {
+			this.key = IV;
+			this.flags = 0;
+		}
+		this.chunk = new ChunkState(this.key, 0, this.flags);
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			// 只有在确定还有更多数据时才完成当前块，最后一个块可能是根节点
+			if (this.chunk.length === CHUNK_LENGTH) {
+				const chainingValue = this.chunk.output().chainingValue();
+				const totalChunks = this.chunk.counter + 1;
+				this.pushChainingValue(chainingValue, totalChunks);
+				this.chunk = new ChunkState(this.key, totalChunks, this.flags);
+			}
+			const length = Math.min(CHUNK_LENGTH - this.chunk.length, data.byteLength - offset);
+			this.chunk.update(data.subarray(offset, offset + length));
+			offset += length;
+		}
+	}
+
+	public digest(): Uint8Array {
+		const result = new Uint8Array(this.size);
+		this.finalizeXOF().read(result);
+		return result;
+	}
+
+	public clone(): BLAKE3 {
+		const hash = new BLAKE3(this.size);
+		hash.key = this.key;
+		hash.flags = this.flags;
+		hash.chunk = this.chunk.clone();
+		// 栈中的链接值不会被修改，只需要复制数组
+		hash.stack = this.stack.slice();
+		return hash;
+	}
+
+	/**
+	 * 返回可以读取任意长度输出的读取器
+	 *
+	 * 读取器输出的前size个字节与digest()的结果相同。
+	 *
+	 * @returns BLAKE3输出读取器
+	 */
+	public finalizeXOF(): BLAKE3OutputReader {
+		// 从栈顶开始，依次与右侧的子树合并为父节点，最后得到根节点
+		let output = this.chunk.output();
+		for (let i = this.stack.length - 1; i >= 0; i--) {
+			output = parentOutput(this.stack[i], output.chainingValue(), this.key, this.flags);
+		}
+		return new BLAKE3OutputReader((blockCounter) => output.rootBlock(blockCounter));
+	}
+
+	/**
+	 * 将完成的块的链接值压入栈中，并合并已完成的子树
+	 *
+	 * totalChunks中末尾的0的个数等于需要合并的子树数量。
+	 */
+	private pushChainingValue(chainingValue: Uint32Array, totalChunks: number): void {
+		while (totalChunks % 2 === 0) {
+			const left = this.stack.pop();
+			if (left === undefined) {
+				throw new Error("Unexpected empty stack");
+			}
+			chainingValue = parentOutput(left, chainingValue, this.key, this.flags).chainingValue();
+			totalChunks /= 2;
+		}
+		this.stack.push(chainingValue);
+	}
+}
+
+/**
+ * BLAKE3输出读取器
+ *
+ * 根节点的输出按64字节分组生成，每个分组使用不同的计数器，因此可以读取任意长度的输出，
+ * 也可以跳转到任意位置读取。
+ */
+export class BLAKE3OutputReader {
+	/**
+	 * 计算根节点的第blockCounter个64字节输出分组
+	 */
+	private rootBlock: (blockCounter: number) => Uint32Array;
+
+	/**
+	 * 当前读取位置（字节），可以修改以跳转到任意位置
+	 */
+	public position = 0;
+
+	constructor(rootBlock: (blockCounter: number) => Uint32Array) {
+		this.rootBlock = rootBlock;
+	}
+
+	/**
+	 * 从当前位置读取输出，填充整个数组，并将位置向后移动
+	 *
+	 * @param bytes 要填充的数组
+	 */
+	public read(bytes: Uint8Array): void {
+		let offset = 0;
+		while (offset < bytes.byteLength) {
+			const blockCounter = Math.floor(this.position / 64);
+			const blockOffset = this.position % 64;
+			const block = encodeWords(this.rootBlock(blockCounter));
+			const length = Math.min(64 - blockOffset, bytes.byteLength - offset);
+			bytes.set(block.subarray(blockOffset, blockOffset + length), offset);
+			offset += length;
+			this.position += length;
+		}
+	}
+}
+
+/**
+ * 压缩函数的输入，可以计算链接值或根节点的输出
+ */
+class Output {
+	private inputChainingValue: Uint32Array;
+	private blockWords: Uint32Array;
+	private counter: number;
+	private blockLength: number;
+	private flags: number;
+
+	constructor(
+		inputChainingValue: Uint32Array,
+		blockWords: Uint32Array,
+		counter: number,
+		blockLength: number,
+		flags: number
+	) {
+		this.inputChainingValue = inputChainingValue;
+		this.blockWords = blockWords;
+		this.counter = counter;
+		this.blockLength = blockLength;
+		this.flags = flags;
+	}
+
+	/**
+	 * 非根节点的链接值（压缩结果的前8个字）
+	 */
+	public chainingValue(): Uint32Array {
+		return compress(
+			this.inputChainingValue,
+			this.blockWords,
+			this.counter,
+			this.blockLength,
+			this.flags
+		).subarray(0, 8);
+	}
+
+	/**
+	 * 根节点输出的第blockCounter个64字节分组（16个字）
+	 */
+	public rootBlock(blockCounter: number): Uint32Array {
+		return compress(
+			this.inputChainingValue,
+			this.blockWords,
+			blockCounter,
+			this.blockLength,
+			this.flags | ROOT
+		);
+	}
+}
+
+/**
+ * 一个1024字节的块的状态
+ */
+class ChunkState {
+	/**
+	 * 块在输入中的索引
+	 */
+	public counter: number;
+
+	private chainingValue: Uint32Array;
+	private flags: number;
+	private block = new Uint8Array(64);
+	private blockLength = 0;
+	private blocksCompressed = 0;
+
+	constructor(key: Uint32Array, counter: number, flags: number) {
+		this.chainingValue = key.slice();
+		this.counter = counter;
+		this.flags = flags;
+	}
+
+	/**
+	 * 块中已处理的数据长度（字节）
+	 */
+	public get length(): number {
+		return this.blocksCompressed * 64 + this.blockLength;
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			// 块中的最后一个分组需要设置CHUNK_END标志，因此只有在还有更多数据时才压缩
+			if (this.blockLength === 64) {
+				const words = decodeWords(this.block, 0, 16);
+				this.chainingValue = compress(
+					this.chainingValue,
+					words,
+					this.counter,
+					64,
+					this.flags | this.startFlag()
+				).subarray(0, 8);
+				this.blocksCompressed++;
+				this.block.fill(0);
+				this.blockLength = 0;
+			}
+			const length = Math.min(64 - this.blockLength, data.byteLength - offset);
+			this.block.set(data.subarray(offset, offset + length), this.blockLength);
+			this.blockLength += length;
+			offset += length;
+		}
+	}
+
+	public output(): Output {
+		return new Output(
+			this.chainingValue,
+			decodeWords(this.block, 0, 16),
+			this.counter,
+			this.blockLength,
+			this.flags | this.startFlag() | CHUNK_END
+		);
+	}
+
+	public clone(): ChunkState {
+		const chunk = new ChunkState(this.chainingValue, this.counter, this.flags);
+		chunk.block.set(this.block);
+		chunk.blockLength = this.blockLength;
+		chunk.blocksCompressed = this.blocksCompressed;
+		return chunk;
+	}
+
+	private startFlag(): number {
+		return this.blocksCompressed === 0 ? CHUNK_START : 0;
+	}
+}
+
+/**
+ * 父节点：将左右子树的链接值拼接为一个64字节的分组，计数器为0
+ */
+function parentOutput(
+	left: Uint32Array,
+	right: Uint32Array,
+	key: Uint32Array,
+	flags: number
+): Output {
+	const blockWords = new Uint32Array(16);
+	blockWords.set(left);
+	blockWords.set(right, 8);
+	return new Output(key, blockWords, 0, 64, flags | PARENT);
+}
+
+/**
+ * 压缩函数
+ *
+ * 状态由链接值、IV的前4个字、64位计数器、分组长度和标志位组成，
+ * 执行7轮与BLAKE2s相同的G函数，每轮之间对消息字进行置换。
+ *
+ * @returns 16个字的输出，前8个字为新的链接值
+ */
+function compress(
+	chainingValue: Uint32Array,
+	blockWords: Uint32Array,
+	counter: number,
+	blockLength: number,
+	flags: number
+): Uint32Array {
+	const v = new Uint32Array(16);
+	v.set(chainingValue);
+	v.set(IV.subarray(0, 4), 8);
+	v[12] = counter;
+	v[13] = Math.floor(counter / 0x100000000);
+	v[14] = blockLength;
+	v[15] = flags;
+	let m = blockWords.slice();
+	for (let i = 0; i < 7; i++) {
+		mix(v, 0, 4, 8, 12, m[0], m[1]);
+		mix(v, 1, 5, 9, 13, m[2], m[3]);
+		mix(v, 2, 6, 10, 14, m[4], m[5]);
+		mix(v, 3, 7, 11, 15, m[6], m[7]);
+		mix(v, 0, 5, 10, 15, m[8], m[9]);
+		mix(v, 1, 6, 11, 12, m[10], m[11]);
+		mix(v, 2, 7, 8, 13, m[12], m[13]);
+		mix(v, 3, 4, 9, 14, m[14], m[15]);
+		const permuted = new Uint32Array(16);
+		for (let j = 0; j < 16; j++) {
+			permuted[j] = m[MESSAGE_PERMUTATION[j]];
+		}
+		m = permuted;
+	}
+	for (let i = 0; i < 8; i++) {
+		v[i] ^= v[i + 8];
+		v[i + 8] ^= chainingValue[i];
+	}
+	return v;
+}
+
+/**
+ * 混合函数G（与BLAKE2s相同）
+ */
+function mix(
+	v: Uint32Array,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	x: number,
+	y: number
+): void {
+	v[a] = v[a] + v[b] + x;
+	v[d] = rotr32(v[d] ^ v[a], 16);
+	v[c] = v[c] + v[d];
+	v[b] = rotr32(v[b] ^ v[c], 12);
+	v[a] = v[a] + v[b] + y;
+	v[d] = rotr32(v[d] ^ v[a], 8);
+	v[c] = v[c] + v[d];
+	v[b] = rotr32(v[b] ^ v[c], 7);
+}
+
+/**
+ * 将字节数组按小端序读取为32位字
+ */
+function decodeWords(bytes: Uint8Array, offset: number, count: number): Uint32Array {
+	const words = new Uint32Array(count);
+	for (let i = 0; i < count; i++) {
+		words[i] = littleEndian.uint32(bytes, offset + i * 4);
+	}
+	return words;
+}
+
+/**
+ * 将32位字按小端序编码为字节数组
+ */
+function encodeWords(words: Uint32Array): Uint8Array {
+	const bytes = new Uint8Array(words.length * 4);
+	for (let i = 0; i < words.length; i++) {
+		littleEndian.putUint32(bytes, words[i], i * 4);
+	}
+	return bytes;
+}
+
+const CHUNK_LENGTH = 1024;
+
+// 标志位
+const CHUNK_START = 1 << 0;
+const CHUNK_END = 1 << 1;
+const PARENT = 1 << 2;
+const ROOT = 1 << 3;
+const KEYED_HASH = 1 << 4;
+const DERIVE_KEY_CONTEXT = 1 << 5;
+const DERIVE_KEY_MATERIAL = 1 << 6;
+
+/**
+ * 初始化向量（与SHA-256和BLAKE2s相同）
+ */
+const IV = new Uint32Array([
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+]);
+
+/**
+ * 每轮之间对消息字的置换
+ */
+const MESSAGE_PERMUTATION = [2, 6, 3, 10, 7, 0, 4, 13, 1, 11, 12, 5, 9, 14, 15, 8];
@@ -0,0 +1,22 @@
+/**
+ * BLAKE3 哈希算法模块
+ *
+ * BLAKE3是基于BLAKE2和Bao树模式设计的哈希函数，内部结构是一棵二叉树，
+ * 因此可以并行计算，并且支持任意长度的输出。
+ *
+ * BLAKE3的主要特点：
+ * 1. 一个算法同时支持哈希、带密钥的哈希（MAC）和密钥派生（KDF）
+ * 2. 可扩展输出（XOF），可以读取任意长度的输出
+ * 3. 没有变体，128位安全强度，默认输出32字节
+ *
+ * 本模块导出了BLAKE3的类、便捷函数和输出读取器。
+ */
+
+// 导出BLAKE3算法（默认生成256位/32字节哈希值）
+export { BLAKE3, blake3 } from "./blake3.js";
+
+// 导出BLAKE3输出读取器（用于读取任意长度的输出）
+export type { BLAKE3OutputReader } from "./blake3.js";
+
+// 导出BLAKE3的可选参数类型
+export type { BLAKE3Options } from "./blake3.js";
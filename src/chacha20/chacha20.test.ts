@@ -0,0 +1,43 @@
+import { expect, test } from "vitest";
+import { chacha20, hchacha20 } from "./chacha20.js";
+import * as nodeCrypto from "node:crypto";
+
+test("chacha20()", () => {
+	for (const counter of [0, 1, 42, 0xffffffff - 10]) {
+		for (const size of [0, 1, 63, 64, 65, 200]) {
+			const key = crypto.getRandomValues(new Uint8Array(32));
+			const nonce = crypto.getRandomValues(new Uint8Array(12));
+			const data = crypto.getRandomValues(new Uint8Array(size));
+			// Node.js uses a 16-byte IV: 32-bit little-endian counter || 96-bit nonce
+			const iv = new Uint8Array(16);
+			new DataView(iv.buffer).setUint32(0, counter, true);
+			iv.set(nonce, 4);
+			const cipher = nodeCrypto.createCipheriv("chacha20", key, iv);
+			const expected = new Uint8Array(Buffer.concat([cipher.update(data), cipher.final()]));
+			expect(chacha20(key, nonce, counter, data)).toStrictEqual(expected);
+		}
+	}
+});
+
+test("chacha20() with counter overflow", () => {
+	const key = new Uint8Array(32);
+	const nonce = new Uint8Array(12);
+	expect(() => chacha20(key, nonce, 0xffffffff, new Uint8Array(64))).not.toThrow();
+	expect(() => chacha20(key, nonce, 0xffffffff, new Uint8Array(65))).toThrowError(Error);
+	expect(() => chacha20(key, nonce, 0x100000000, new Uint8Array())).toThrowError(TypeError);
+	expect(() => chacha20(key, nonce, -1, new Uint8Array())).toThrowError(TypeError);
+});
+
+test("chacha20() with invalid parameters", () => {
+	expect(() => chacha20(new Uint8Array(16), new Uint8Array(12), 0, new Uint8Array())).toThrowError(
+		TypeError
+	);
+	expect(() => chacha20(new Uint8Array(32), new Uint8Array(8), 0, new Uint8Array())).toThrowError(
+		TypeError
+	);
+});
+
+test("hchacha20() with invalid parameters", () => {
+	expect(() => hchacha20(new Uint8Array(16), new Uint8Array(16))).toThrowError(TypeError);
+	expect(() => hchacha20(new Uint8Array(32), new Uint8Array(12))).toThrowError(TypeError);
+});
@@ -0,0 +1,147 @@
+/**
+ * ChaCha20 流密码实现模块（RFC 8439 2.1-2.4节）
+ *
+ * ChaCha20的状态是16个32位字组成的4x4矩阵：
+ * 1. 第0-3个字为常量"expand 32-byte k"
+ * 2. 第4-11个字为256位密钥
+ * 3. 第12个字为块计数器
+ * 4. 第13-15个字为96位nonce
+ *
+ * 块函数对状态进行20轮（10次列轮和对角线轮交替）四分之一轮变换，再与原始状态相加，
+ * 得到64字节的密钥流。加密时将密钥流与明文异或。
+ *
+ * ChaCha20只使用加法、异或和循环移位（ARX），不需要查找表，在没有AES硬件加速的平台上
+ * 也能以常数时间高效运行。
+ */
+
+import { littleEndian, rotl32 } from "@oslojs/binary";
+
+/**
+ * 使用ChaCha20加密或解密数据（两者是相同的操作）
+ *
+ * @example
+ * const ciphertext = chacha20(key, nonce, 1, plaintext);
+ *
+ * @param key 32字节的密钥
+ * @param nonce 12字节的nonce
+ * @param counter 初始块计数器（32位无符号整数）
+ * @param data 明文或密文
+ * @returns 与密钥流异或后的数据
+ * @throws TypeError 如果密钥、nonce或计数器无效
+ * @throws Error 如果数据过长导致计数器溢出
+ */
+export function chacha20(
+	key: Uint8Array,
+	nonce: Uint8Array,
+	counter: number,
+	data: Uint8Array
+): Uint8Array {
+	if (key.byteLength !== 32) {
+		throw new TypeError("Invalid key length");
+	}
+	if (nonce.byteLength !== 12) {
+		throw new TypeError("Invalid nonce length");
+	}
+	if (!Number.isInteger(counter) || counter < 0 || counter > 0xffffffff) {
+		throw new TypeError("Invalid counter");
+	}
+	// 计数器回绕会导致密钥流重复
+	if (counter + Math.ceil(data.byteLength / 64) > 0x100000000) {
+		throw new Error("Data too large");
+	}
+	const state = new Uint32Array(16);
+	state.set(CONSTANTS);
+	for (let i = 0; i < 8; i++) {
+		state[4 + i] = littleEndian.uint32(key, i * 4);
+	}
+	for (let i = 0; i < 3; i++) {
+		state[13 + i] = littleEndian.uint32(nonce, i * 4);
+	}
+	const result = new Uint8Array(data.byteLength);
+	const working = new Uint32Array(16);
+	const keyStream = new Uint8Array(64);
+	for (let offset = 0; offset < data.byteLength; offset += 64) {
+		state[12] = counter;
+		working.set(state);
+		rounds(working);
+		for (let i = 0; i < 16; i++) {
+			littleEndian.putUint32(keyStream, (working[i] + state[i]) >>> 0, i * 4);
+		}
+		const length = Math.min(64, data.byteLength - offset);
+		for (let i = 0; i < length; i++) {
+			result[offset + i] = data[offset + i] ^ keyStream[i];
+		}
+		counter++;
+	}
+	return result;
+}
+
+/**
+ * HChaCha20（draft-irtf-cfrg-xchacha 2.2节）
+ *
+ * 使用密钥和16字节的nonce派生一个新的32字节子密钥，用于XChaCha20。
+ * 与块函数不同，最后不与原始状态相加，而是直接输出第0-3和第12-15个字。
+ *
+ * @param key 32字节的密钥
+ * @param nonce 16字节的nonce
+ * @returns 32字节的子密钥
+ * @throws TypeError 如果密钥或nonce长度无效
+ */
+export function hchacha20(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+	if (key.byteLength !== 32) {
+		throw new TypeError("Invalid key length");
+	}
+	if (nonce.byteLength !== 16) {
+		throw new TypeError("Invalid nonce length");
+	}
+	const state = new Uint32Array(16);
+	state.set(CONSTANTS);
+	for (let i = 0; i < 8; i++) {
+		state[4 + i] = littleEndian.uint32(key, i * 4);
+	}
+	for (let i = 0; i < 4; i++) {
+		state[12 + i] = littleEndian.uint32(nonce, i * 4);
+	}
+	rounds(state);
+	const result = new Uint8Array(32);
+	for (let i = 0; i < 4; i++) {
+		littleEndian.putUint32(result, state[i], i * 4);
+		littleEndian.putUint32(result, state[12 + i], 16 + i * 4);
+	}
+	return result;
+}
+
+/**
+ * 20轮变换：交替进行列轮和对角线轮
+ */
+function rounds(state: Uint32Array): void {
+	for (let i = 0; i < 10; i++) {
+		quarterRound(state, 0, 4, 8, 12);
+		quarterRound(state, 1, 5, 9, 13);
+		quarterRound(state, 2, 6, 10, 14);
+		quarterRound(state, 3, 7, 11, 15);
+		quarterRound(state, 0, 5, 10, 15);
+		quarterRound(state, 1, 6, 11, 12);
+		quarterRound(state, 2, 7, 8, 13);
+		quarterRound(state, 3, 4, 9, 14);
+	}
+}
+
+/**
+ * 四分之一轮（RFC 8439 2.1节）
+ */
+function quarterRound(state: Uint32Array, a: number, b: number, c: number, d: number): void {
+	state[a] += state[b];
+	state[d] = rotl32(state[d] ^ state[a], 16);
+	state[c] += state[d];
+	state[b] = rotl32(state[b] ^ state[c], 12);
+	state[a] += state[b];
+	state[d] = rotl32(state[d] ^ state[a], 8);
+	state[c] += state[d];
+	state[b] = rotl32(state[b] ^ state[c], 7);
+}
+
+/**
+ * "expand 32-byte k"
+ */
+const CONSTANTS = new Uint32Array([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
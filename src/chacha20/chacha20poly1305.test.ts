@@ -0,0 +1,94 @@
+import { expect, test } from "vitest";
+import { ChaCha20Poly1305, XChaCha20Poly1305 } from "./chacha20poly1305.js";
+import { hchacha20 } from "./chacha20.js";
+import * as nodeCrypto from "node:crypto";
+
+test("ChaCha20Poly1305.seal()", () => {
+	for (const plaintextSize of [0, 1, 15, 16, 17, 64, 100]) {
+		for (const additionalDataSize of [0, 5, 16, 33]) {
+			const key = crypto.getRandomValues(new Uint8Array(32));
+			const nonce = crypto.getRandomValues(new Uint8Array(12));
+			const plaintext = crypto.getRandomValues(new Uint8Array(plaintextSize));
+			const additionalData = crypto.getRandomValues(new Uint8Array(additionalDataSize));
+			const cipher = nodeCrypto.createCipheriv("chacha20-poly1305", key, nonce, {
+				authTagLength: 16
+			});
+			cipher.setAAD(additionalData, { plaintextLength: plaintextSize });
+			const expected = new Uint8Array(
+				Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+			);
+			const chacha = new ChaCha20Poly1305(key);
+			const sealed = chacha.seal(nonce, plaintext, additionalData);
+			expect(sealed).toStrictEqual(expected);
+			expect(chacha.open(nonce, sealed, additionalData)).toStrictEqual(plaintext);
+		}
+	}
+});
+
+test("XChaCha20Poly1305.seal()", () => {
+	for (const plaintextSize of [0, 1, 16, 100]) {
+		const key = crypto.getRandomValues(new Uint8Array(32));
+		const nonce = crypto.getRandomValues(new Uint8Array(24));
+		const plaintext = crypto.getRandomValues(new Uint8Array(plaintextSize));
+		const additionalData = crypto.getRandomValues(new Uint8Array(10));
+		const subkeyNonce = new Uint8Array(12);
+		subkeyNonce.set(nonce.subarray(16), 4);
+		const expected = new ChaCha20Poly1305(hchacha20(key, nonce.subarray(0, 16))).seal(
+			subkeyNonce,
+			plaintext,
+			additionalData
+		);
+		const xchacha = new XChaCha20Poly1305(key);
+		const sealed = xchacha.seal(nonce, plaintext, additionalData);
+		expect(sealed).toStrictEqual(expected);
+		expect(xchacha.open(nonce, sealed, additionalData)).toStrictEqual(plaintext);
+	}
+});
+
+test("ChaCha20Poly1305.open() with modified data", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const plaintext = crypto.getRandomValues(new Uint8Array(40));
+	const additionalData = crypto.getRandomValues(new Uint8Array(10));
+	const chacha = new ChaCha20Poly1305(key);
+	const sealed = chacha.seal(nonce, plaintext, additionalData);
+	for (let i = 0; i < sealed.byteLength; i++) {
+		const modified = sealed.slice();
+		modified[i] ^= 0x01;
+		expect(() => chacha.open(nonce, modified, additionalData)).toThrowError("Invalid tag");
+	}
+	const modifiedAdditionalData = additionalData.slice();
+	modifiedAdditionalData[0] ^= 0x01;
+	expect(() => chacha.open(nonce, sealed, modifiedAdditionalData)).toThrowError("Invalid tag");
+	expect(() => chacha.open(nonce, sealed)).toThrowError("Invalid tag");
+	expect(() => chacha.open(nonce, new Uint8Array(15))).toThrowError("Invalid data");
+});
+
+test("XChaCha20Poly1305.open() with modified data", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const nonce = crypto.getRandomValues(new Uint8Array(24));
+	const plaintext = crypto.getRandomValues(new Uint8Array(40));
+	const xchacha = new XChaCha20Poly1305(key);
+	const sealed = xchacha.seal(nonce, plaintext);
+	for (let i = 0; i < sealed.byteLength; i++) {
+		const modified = sealed.slice();
+		modified[i] ^= 0x01;
+		expect(() => xchacha.open(nonce, modified)).toThrowError("Invalid tag");
+	}
+	for (let i = 0; i < nonce.byteLength; i++) {
+		const modifiedNonce = nonce.slice();
+		modifiedNonce[i] ^= 0x01;
+		expect(() => xchacha.open(modifiedNonce, sealed)).toThrowError("Invalid tag");
+	}
+});
+
+test("ChaCha20Poly1305 with invalid parameters", () => {
+	expect(() => new ChaCha20Poly1305(new Uint8Array(16))).toThrowError(TypeError);
+	expect(() => new XChaCha20Poly1305(new Uint8Array(16))).toThrowError(TypeError);
+	const chacha = new ChaCha20Poly1305(new Uint8Array(32));
+	expect(() => chacha.seal(new Uint8Array(24), new Uint8Array())).toThrowError(TypeError);
+	expect(() => chacha.open(new Uint8Array(24), new Uint8Array(16))).toThrowError(TypeError);
+	const xchacha = new XChaCha20Poly1305(new Uint8Array(32));
+	expect(() => xchacha.seal(new Uint8Array(12), new Uint8Array())).toThrowError(TypeError);
+	expect(() => xchacha.open(new Uint8Array(12), new Uint8Array(16))).toThrowError(TypeError);
+});
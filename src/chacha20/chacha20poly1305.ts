@@ -0,0 +1,235 @@
+/**
+ * ChaCha20-Poly1305 认证加密实现模块（RFC 8439 2.8节）
+ *
+ * ChaCha20-Poly1305是一种带附加数据的认证加密（AEAD）方案：
+ * 1. 使用计数器0的ChaCha20块的前32字节作为Poly1305的一次性密钥
+ * 2. 从计数器1开始使用ChaCha20加密明文
+ * 3. 对AAD || 填充 || 密文 || 填充 || AAD长度 || 密文长度计算Poly1305标签
+ *
+ * XChaCha20-Poly1305（draft-irtf-cfrg-xchacha）使用24字节的nonce：
+ * 先用HChaCha20和nonce的前16字节派生子密钥，再以4个零字节 || nonce的后8字节作为12字节的nonce。
+ * 24字节的nonce足够长，可以安全地随机生成而不用担心碰撞。
+ *
+ * 注意：同一个密钥下nonce绝对不能重复使用。
+ */
+
+import { littleEndian } from "@oslojs/binary";
+import { chacha20, hchacha20 } from "./chacha20.js";
+import { Poly1305 } from "../poly1305/index.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+/**
+ * ChaCha20-Poly1305认证加密
+ *
+ * @example
+ * const cipher = new ChaCha20Poly1305(key);
+ * const nonce = new Uint8Array(12);
+ * crypto.getRandomValues(nonce);
+ * const sealed = cipher.seal(nonce, plaintext, additionalData);
+ * const opened = cipher.open(nonce, sealed, additionalData);
+ */
+export class ChaCha20Poly1305 {
+	/**
+	 * 认证标签的长度（字节）
+	 */
+	public tagSize = 16;
+
+	/**
+	 * nonce的长度（字节）
+	 */
+	public nonceSize = 12;
+
+	private key: Uint8Array;
+
+	/**
+	 * @param key 32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 32) {
+			throw new TypeError("Invalid key length");
+		}
+		this.key = key.slice();
+	}
+
+	/**
+	 * 加密并认证数据
+	 *
+	 * @param nonce 12字节的nonce
+	 * @param plaintext 明文
+	 * @param additionalData 只认证不加密的附加数据
+	 * @returns 密文与16字节认证标签的连接
+	 * @throws TypeError 如果nonce长度无效
+	 */
+	public seal(nonce: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		if (nonce.byteLength !== 12) {
+			throw new TypeError("Invalid nonce length");
+		}
+		return seal(this.key, nonce, plaintext, additionalData);
+	}
+
+	/**
+	 * 验证并解密数据
+	 *
+	 * 在验证认证标签之前不会输出任何明文。
+	 *
+	 * @param nonce 加密时使用的nonce
+	 * @param sealed 密文与认证标签的连接
+	 * @param additionalData 加密时使用的附加数据
+	 * @returns 明文
+	 * @throws TypeError 如果nonce长度无效
+	 * @throws Error 如果数据过短或认证失败
+	 */
+	public open(nonce: Uint8Array, sealed: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		if (nonce.byteLength !== 12) {
+			throw new TypeError("Invalid nonce length");
+		}
+		return open(this.key, nonce, sealed, additionalData);
+	}
+}
+
+/**
+ * XChaCha20-Poly1305认证加密（24字节nonce）
+ *
+ * @example
+ * const cipher = new XChaCha20Poly1305(key);
+ * const nonce = new Uint8Array(24);
+ * crypto.getRandomValues(nonce);
+ * const sealed = cipher.seal(nonce, plaintext, additionalData);
+ * const opened = cipher.open(nonce, sealed, additionalData);
+ */
+export class XChaCha20Poly1305 {
+	/**
+	 * 认证标签的长度（字节）
+	 */
+	public tagSize = 16;
+
+	/**
+	 * nonce的长度（字节）
+	 */
+	public nonceSize = 24;
+
+	private key: Uint8Array;
+
+	/**
+	 * @param key 32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 32) {
+			throw new TypeError("Invalid key length");
+		}
+		this.key = key.slice();
+	}
+
+	/**
+	 * 加密并认证数据
+	 *
+	 * @param nonce 24字节的nonce
+	 * @param plaintext 明文
+	 * @param additionalData 只认证不加密的附加数据
+	 * @returns 密文与16字节认证标签的连接
+	 * @throws TypeError 如果nonce长度无效
+	 */
+	public seal(nonce: Uint8Array, plaintext: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const [subkey, chachaNonce] = deriveXChaCha20Parameters(this.key, nonce);
+		return seal(subkey, chachaNonce, plaintext, additionalData);
+	}
+
+	/**
+	 * 验证并解密数据
+	 *
+	 * 在验证认证标签之前不会输出任何明文。
+	 *
+	 * @param nonce 加密时使用的nonce
+	 * @param sealed 密文与认证标签的连接
+	 * @param additionalData 加密时使用的附加数据
+	 * @returns 明文
+	 * @throws TypeError 如果nonce长度无效
+	 * @throws Error 如果数据过短或认证失败
+	 */
+	public open(nonce: Uint8Array, sealed: Uint8Array, additionalData?: Uint8Array): Uint8Array {
+		const [subkey, chachaNonce] = deriveXChaCha20Parameters(this.key, nonce);
+		return open(subkey, chachaNonce, sealed, additionalData);
+	}
+}
+
+/**
+ * 从24字节的nonce派生ChaCha20的子密钥和12字节nonce
+ */
+function deriveXChaCha20Parameters(key: Uint8Array, nonce: Uint8Array): [Uint8Array, Uint8Array] {
+	if (nonce.byteLength !== 24) {
+		throw new TypeError("Invalid nonce length");
+	}
+	const subkey = hchacha20(key, nonce.subarray(0, 16));
+	const chachaNonce = new Uint8Array(12);
+	chachaNonce.set(nonce.subarray(16), 4);
+	return [subkey, chachaNonce];
+}
+
+function seal(
+	key: Uint8Array,
+	nonce: Uint8Array,
+	plaintext: Uint8Array,
+	additionalData?: Uint8Array
+): Uint8Array {
+	const ciphertext = chacha20(key, nonce, 1, plaintext);
+	const result = new Uint8Array(ciphertext.byteLength + 16);
+	result.set(ciphertext);
+	result.set(tag(key, nonce, ciphertext, additionalData), ciphertext.byteLength);
+	return result;
+}
+
+function open(
+	key: Uint8Array,
+	nonce: Uint8Array,
+	sealed: Uint8Array,
+	additionalData?: Uint8Array
+): Uint8Array {
+	if (sealed.byteLength < 16) {
+		throw new Error("Invalid data");
+	}
+	const ciphertext = sealed.subarray(0, sealed.byteLength - 16);
+	if (
+		!constantTimeEqual(
+			tag(key, nonce, ciphertext, additionalData),
+			sealed.subarray(ciphertext.byteLength)
+		)
+	) {
+		throw new Error("Invalid tag");
+	}
+	return chacha20(key, nonce, 1, ciphertext);
+}
+
+/**
+ * 计算认证标签（RFC 8439 2.8节）
+ */
+function tag(
+	key: Uint8Array,
+	nonce: Uint8Array,
+	ciphertext: Uint8Array,
+	additionalData?: Uint8Array
+): Uint8Array {
+	// Poly1305密钥生成（RFC 8439 2.6节）：计数器为0的块的前32字节
+	const oneTimeKey = chacha20(key, nonce, 0, new Uint8Array(32));
+	const mac = new Poly1305(oneTimeKey);
+	const additionalDataLength = additionalData?.byteLength ?? 0;
+	if (additionalData !== undefined) {
+		mac.update(additionalData);
+	}
+	mac.update(new Uint8Array(padLength(additionalDataLength)));
+	mac.update(ciphertext);
+	mac.update(new Uint8Array(padLength(ciphertext.byteLength)));
+	const lengths = new Uint8Array(16);
+	littleEndian.putUint64(lengths, BigInt(additionalDataLength), 0);
+	littleEndian.putUint64(lengths, BigInt(ciphertext.byteLength), 8);
+	mac.update(lengths);
+	return mac.digest();
+}
+
+/**
+ * 补齐到16字节整数倍所需的零字节数
+ */
+function padLength(length: number): number {
+	return (16 - (length % 16)) % 16;
+}
@@ -0,0 +1,19 @@
+/**
+ * ChaCha20 对称加密模块
+ *
+ * ChaCha20（RFC 8439）是一种基于ARX运算的流密码，在没有AES硬件加速的平台上
+ * 比AES更快，并且天然不受缓存计时攻击的影响。
+ *
+ * 本模块提供：
+ * 1. ChaCha20流密码和HChaCha20子密钥派生函数
+ * 2. ChaCha20-Poly1305认证加密（12字节nonce）
+ * 3. XChaCha20-Poly1305认证加密（24字节nonce，可以安全地随机生成）
+ *
+ * 一般情况下应该使用认证加密，而不是直接使用流密码。
+ */
+
+// 导出ChaCha20流密码
+export { chacha20, hchacha20 } from "./chacha20.js";
+
+// 导出ChaCha20-Poly1305认证加密
+export { ChaCha20Poly1305, XChaCha20Poly1305 } from "./chacha20poly1305.js";
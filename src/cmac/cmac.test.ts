@@ -0,0 +1,42 @@
+import { expect, test } from "vitest";
+import { cmac, CMAC } from "./cmac.js";
+import { concat, testClone } from "../hash/test-utils.js";
+
+test("CMAC.update()", () => {
+	for (const keySize of [16, 24, 32]) {
+		const key = crypto.getRandomValues(new Uint8Array(keySize));
+		const randomValues = crypto.getRandomValues(new Uint8Array(100));
+		for (let i = 0; i < randomValues.byteLength + 1; i++) {
+			const data = randomValues.slice(0, i);
+			const mac = new CMAC(key);
+			for (let j = 0; j < data.byteLength; j += 7) {
+				mac.update(data.subarray(j, j + 7));
+			}
+			expect(mac.digest()).toStrictEqual(cmac(key, data));
+		}
+	}
+});
+
+test("CMAC.digest() does not modify state", () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const data1 = crypto.getRandomValues(new Uint8Array(32));
+	const data2 = crypto.getRandomValues(new Uint8Array(20));
+	const mac = new CMAC(key);
+	mac.update(data1);
+	expect(mac.digest()).toStrictEqual(cmac(key, data1));
+	expect(mac.digest()).toStrictEqual(cmac(key, data1));
+	mac.update(data2);
+	expect(mac.digest()).toStrictEqual(cmac(key, concat(data1, data2)));
+});
+
+test("CMAC.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	testClone(
+		() => new CMAC(key),
+		(data) => cmac(key, data)
+	);
+});
+
+test("CMAC with invalid key", () => {
+	expect(() => new CMAC(new Uint8Array(20))).toThrowError("Invalid key length");
+});
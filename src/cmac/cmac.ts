@@ -0,0 +1,135 @@
+/**
+ * AES-CMAC 实现模块（NIST SP 800-38B、RFC 4493）
+ *
+ * CMAC（Cipher-based MAC）是基于分组密码的消息认证码，本质上是修正过的CBC-MAC：
+ * 1. 子密钥派生：L = AES(K, 0^128)，K1 = dbl(L)，K2 = dbl(K1)
+ * 2. 将消息按16字节分块，以CBC模式依次加密（初始值为0）
+ * 3. 最后一个块如果完整则与K1异或，否则附加10*填充后与K2异或
+ *
+ * 普通的CBC-MAC只对固定长度的消息安全，CMAC通过对最后一个块的特殊处理消除了长度扩展问题。
+ * 输出为16字节。
+ */
+
+import { AES } from "../aes/aes.js";
+
+import type { Hash } from "../hash/index.js";
+
+/**
+ * 计算AES-CMAC
+ *
+ * @example
+ * const mac = cmac(key, data);
+ *
+ * @param key 16、24或32字节的密钥
+ * @param data 要认证的消息
+ * @returns 16字节的认证码
+ * @throws TypeError 如果密钥长度无效
+ */
+export function cmac(key: Uint8Array, data: Uint8Array): Uint8Array {
+	const mac = new CMAC(key);
+	mac.update(data);
+	return mac.digest();
+}
+
+/**
+ * AES-CMAC类 - 支持流式处理数据
+ */
+export class CMAC implements Hash {
+	public blockSize = 16;
+	public size = 16;
+
+	private aes: AES;
+
+	/**
+	 * 最后一个块完整时使用的子密钥
+	 */
+	private k1: Uint8Array;
+
+	/**
+	 * 最后一个块不完整时使用的子密钥
+	 */
+	private k2: Uint8Array;
+
+	/**
+	 * CBC的链接值
+	 */
+	private x: Uint8Array = new Uint8Array(16);
+
+	/**
+	 * 当前块的缓冲区
+	 */
+	private block = new Uint8Array(16);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private blockLength = 0;
+
+	/**
+	 * @param key 16、24或32字节的密钥
+	 * @throws TypeError 如果密钥长度无效
+	 */
+	constructor(key: Uint8Array) {
+		this.aes = new AES(key);
+		this.k1 = dbl(this.aes.encryptBlock(new Uint8Array(16)));
+		this.k2 = dbl(this.k1);
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			// 最后一个块需要特殊处理，因此只在有更多数据时才处理已满的块
+			if (this.blockLength === 16) {
+				for (let i = 0; i < 16; i++) {
+					this.x[i] ^= this.block[i];
+				}
+				this.x = this.aes.encryptBlock(this.x);
+				this.blockLength = 0;
+			}
+			const length = Math.min(16 - this.blockLength, data.byteLength - offset);
+			this.block.set(data.subarray(offset, offset + length), this.blockLength);
+			this.blockLength += length;
+			offset += length;
+		}
+	}
+
+	public digest(): Uint8Array {
+		const lastBlock = new Uint8Array(16);
+		lastBlock.set(this.block.subarray(0, this.blockLength));
+		let subkey = this.k1;
+		if (this.blockLength < 16) {
+			lastBlock[this.blockLength] = 0x80;
+			subkey = this.k2;
+		}
+		for (let i = 0; i < 16; i++) {
+			lastBlock[i] ^= this.x[i] ^ subkey[i];
+		}
+		return this.aes.encryptBlock(lastBlock);
+	}
+
+	public clone(): CMAC {
+		// 不重新派生子密钥
+		const mac = Object.create(CMAC.prototype) as CMAC;
+		mac.blockSize = this.blockSize;
+		mac.size = this.size;
+		mac.aes = this.aes;
+		mac.k1 = this.k1;
+		mac.k2 = this.k2;
+		mac.x = this.x.slice();
+		mac.block = this.block.slice();
+		mac.blockLength = this.blockLength;
+		return mac;
+	}
+}
+
+/**
+ * GF(2^128)上乘以x：左移1位，如果最高位为1则与0x87异或（SP 800-38B 6.1节）
+ */
+export function dbl(block: Uint8Array): Uint8Array {
+	const result = new Uint8Array(16);
+	for (let i = 0; i < 15; i++) {
+		result[i] = (block[i] << 1) | (block[i + 1] >>> 7);
+	}
+	result[15] = (block[15] << 1) ^ (0x87 & -(block[0] >>> 7));
+	return result;
+}
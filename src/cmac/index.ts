@@ -0,0 +1,9 @@
+/**
+ * CMAC 消息认证码模块
+ *
+ * AES-CMAC（NIST SP 800-38B、RFC 4493）是基于AES分组密码的消息认证码，
+ * 常用于支付HSM、EAX和SIV等构造中。
+ */
+
+// 导出CMAC函数和类
+export { cmac, CMAC } from "./cmac.js";
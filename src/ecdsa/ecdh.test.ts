@@ -0,0 +1,71 @@
+import { expect, test } from "vitest";
+import { ecdh } from "./ecdh.js";
+import { decodeSEC1PublicKey, ECDSAPublicKey, generateECDSAKeyPair } from "./ecdsa.js";
+import { p256, p384, p521 } from "./curve-nist.js";
+import { secp256k1 } from "./curve-sec.js";
+import * as nodeCrypto from "node:crypto";
+
+import type { RandomReader } from "../random/index.js";
+
+const random: RandomReader = {
+	read(bytes) {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+test("ecdh()", async () => {
+	const curves = [
+		[p256, "P-256", 256],
+		[p384, "P-384", 384],
+		[p521, "P-521", 528]
+	] as const;
+	for (const [curve, namedCurve, bits] of curves) {
+		const keyPair = generateECDSAKeyPair(random, curve);
+		const webCryptoKeyPair = (await crypto.subtle.generateKey({ name: "ECDH", namedCurve }, true, [
+			"deriveBits"
+		])) as CryptoKeyPair;
+		const webCryptoPublicKey = decodeSEC1PublicKey(
+			curve,
+			new Uint8Array(await crypto.subtle.exportKey("raw", webCryptoKeyPair.publicKey))
+		);
+		const importedPublicKey = await crypto.subtle.importKey(
+			"raw",
+			new Uint8Array(keyPair.publicKey.encodeSEC1Uncompressed()),
+			{ name: "ECDH", namedCurve },
+			false,
+			[]
+		);
+		const expected = new Uint8Array(
+			await crypto.subtle.deriveBits(
+				{ name: "ECDH", public: importedPublicKey },
+				webCryptoKeyPair.privateKey,
+				bits
+			)
+		);
+		expect(ecdh(keyPair.privateKey, webCryptoPublicKey)).toStrictEqual(expected);
+	}
+});
+
+test("ecdh() with secp256k1", () => {
+	const keyPair = generateECDSAKeyPair(random, secp256k1);
+	const nodeECDH = nodeCrypto.createECDH("secp256k1");
+	const nodePublicKey = decodeSEC1PublicKey(secp256k1, new Uint8Array(nodeECDH.generateKeys()));
+	const expected = new Uint8Array(
+		nodeECDH.computeSecret(keyPair.publicKey.encodeSEC1Uncompressed())
+	);
+	expect(ecdh(keyPair.privateKey, nodePublicKey)).toStrictEqual(expected);
+});
+
+test("ecdh() with invalid public key", () => {
+	const keyPair = generateECDSAKeyPair(random, p256);
+	const peerPublicKey = generateECDSAKeyPair(random, p256).publicKey;
+	expect(() =>
+		ecdh(keyPair.privateKey, new ECDSAPublicKey(p256, peerPublicKey.x, peerPublicKey.y + 1n))
+	).toThrowError();
+	expect(() =>
+		ecdh(keyPair.privateKey, new ECDSAPublicKey(p256, peerPublicKey.x, peerPublicKey.y + p256.p))
+	).toThrowError();
+	expect(() =>
+		ecdh(keyPair.privateKey, generateECDSAKeyPair(random, p384).publicKey)
+	).toThrowError();
+});
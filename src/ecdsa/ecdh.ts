@@ -0,0 +1,61 @@
+/**
+ * ECDH（椭圆曲线Diffie-Hellman）密钥协商实现
+ *
+ * 双方各自持有同一曲线上的密钥对(d, Q)，用自己的私钥和对方的公钥计算点d*Q，
+ * 由于 d_A * Q_B = d_A * d_B * G = d_B * Q_A，双方得到相同的点，
+ * 点的X坐标即为共享密钥（SEC 1 3.3.1节，椭圆曲线Diffie-Hellman原语）。
+ *
+ * 输出与WebCrypto的deriveBits()和OpenSSL的ECDH相同。
+ */
+import { bigIntBytes } from "@oslojs/binary";
+import { ECDSAPoint } from "./curve.js";
+
+import type { ECDSAPrivateKey, ECDSAPublicKey } from "./ecdsa.js";
+
+/**
+ * 使用ECDH计算共享密钥
+ *
+ * 计算步骤：
+ * 1. 检查私钥和公钥使用相同的曲线
+ * 2. 验证对方公钥：坐标在[0, p-1]范围内且点在曲线上，
+ *    对于余因子h>1的曲线还需检查点在素数阶子群中
+ * 3. 计算P = d*Q，P不能是无穷远点
+ * 4. 将P的X坐标编码为curve.size字节的大端序字节数组
+ *
+ * 注意：标量乘法不是常数时间实现。
+ *
+ * @param privateKey 自己的私钥
+ * @param peerPublicKey 对方的公钥
+ * @returns 共享密钥（长度为curve.size）
+ * @throws 如果曲线不匹配或对方公钥无效
+ */
+export function ecdh(privateKey: ECDSAPrivateKey, peerPublicKey: ECDSAPublicKey): Uint8Array {
+	const curve = privateKey.curve;
+	if (!peerPublicKey.isCurve(curve)) {
+		throw new Error("Curve mismatch");
+	}
+
+	// 公钥验证（SEC 1 3.2.2.1节）
+	if (
+		peerPublicKey.x < 0n ||
+		peerPublicKey.x >= curve.p ||
+		peerPublicKey.y < 0n ||
+		peerPublicKey.y >= curve.p
+	) {
+		throw new Error("Invalid public key");
+	}
+	const q = new ECDSAPoint(peerPublicKey.x, peerPublicKey.y);
+	// isOnCurve()同时会对余因子h>1的曲线检查n*Q = O
+	if (!curve.isOnCurve(q)) {
+		throw new Error("Invalid public key");
+	}
+
+	const sharedPoint = curve.multiply(privateKey.d, q);
+	if (sharedPoint === null) {
+		throw new Error("Invalid public key");
+	}
+	const sharedSecret = new Uint8Array(curve.size);
+	const xBytes = bigIntBytes(sharedPoint.x);
+	sharedSecret.set(xBytes, curve.size - xBytes.byteLength);
+	return sharedSecret;
+}
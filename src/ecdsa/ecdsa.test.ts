@@ -4,11 +4,94 @@ import {
 	decodeSEC1PublicKey,
 	decodePKIXECDSASignature,
 	ECDSAPublicKey,
-	decodePKIXECDSAPublicKey
+	decodePKIXECDSAPublicKey,
+	ECDSAPrivateKey,
+	signECDSA,
+	verifyECDSASignature,
+	generateECDSAKeyPair,
+	decodeSEC1PrivateKey,
+	decodePKCS8ECDSAPrivateKey
 } from "./ecdsa.js";
 import { p192, p224, p256, p384, p521 } from "./curve-nist.js";
+import { SHA256, sha256 } from "../sha2/sha256.js";
+import { bigIntFromBytes } from "@oslojs/binary";
+import { base64url } from "@oslojs/encoding";
 import * as nodeCrypto from "node:crypto";
 
+import type { RandomReader } from "../random/index.js";
+
+const random: RandomReader = {
+	read(bytes) {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+test("signECDSA()", () => {
+	const data = new TextEncoder().encode("hello world");
+	const keyPair = nodeCrypto.generateKeyPairSync("ec", {
+		namedCurve: "P-256"
+	});
+	const jwk = keyPair.privateKey.export({ format: "jwk" });
+	const privateKey = new ECDSAPrivateKey(
+		p256,
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.d!))
+	);
+	const publicKey = new ECDSAPublicKey(
+		p256,
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.x!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.y!))
+	);
+
+	const signature = signECDSA(privateKey, sha256(data), SHA256);
+	expect(verifyECDSASignature(publicKey, sha256(data), signature)).toBe(true);
+	expect(
+		nodeCrypto.verify(
+			"SHA256",
+			data,
+			{
+				key: keyPair.publicKey,
+				dsaEncoding: "ieee-p1363"
+			},
+			signature.encodeIEEEP1363(p256)
+		)
+	).toBe(true);
+
+	// RFC 6979 nonces are deterministic
+	expect(signECDSA(privateKey, sha256(data), SHA256)).toStrictEqual(signature);
+});
+
+test("generateECDSAKeyPair()", () => {
+	const data = new TextEncoder().encode("hello world");
+	for (const curve of [p192, p224, p256, p384, p521]) {
+		const keyPair = generateECDSAKeyPair(random, curve);
+		expect(keyPair.privateKey.d).toBeGreaterThanOrEqual(1n);
+		expect(keyPair.privateKey.d).toBeLessThan(curve.n);
+		expect(curve.isOnCurve(keyPair.publicKey)).toBe(true);
+
+		const signature = signECDSA(keyPair.privateKey, sha256(data), SHA256);
+		expect(verifyECDSASignature(keyPair.publicKey, sha256(data), signature)).toBe(true);
+	}
+
+	const keyPair = generateECDSAKeyPair(random, p256);
+	const signature = signECDSA(keyPair.privateKey, sha256(data), SHA256);
+	const nodePublicKey = nodeCrypto.createPublicKey({
+		key: Buffer.from(keyPair.publicKey.encodePKIXUncompressed()),
+		format: "der",
+		type: "spki"
+	});
+	expect(
+		nodeCrypto.verify(
+			"SHA256",
+			data,
+			{
+				key: nodePublicKey,
+				dsaEncoding: "ieee-p1363"
+			},
+			signature.encodeIEEEP1363(p256)
+		)
+	).toBe(true);
+});
+
 test("ECDSASignature.encodeIEEEP1363() and decodeIEEEP1363ECDSASignature()", async () => {
 	const data = new TextEncoder().encode("hello world");
 	const keyPair = nodeCrypto.generateKeyPairSync("ec", {
@@ -187,3 +270,45 @@ describe("ECDSAPublicKey", async () => {
 		).resolves.toBe(true);
 	});
 });
+
+describe("ECDSAPrivateKey", () => {
+	test("ECDSAPrivateKey.encodeSEC1() and decodeSEC1PrivateKey()", () => {
+		for (const namedCurve of ["P-256", "P-384", "P-521"]) {
+			const keyPair = nodeCrypto.generateKeyPairSync("ec", {
+				namedCurve
+			});
+			const der = new Uint8Array(keyPair.privateKey.export({ format: "der", type: "sec1" }));
+			const privateKey = decodeSEC1PrivateKey(der, [p256, p384, p521]);
+			const jwk = keyPair.privateKey.export({ format: "jwk" });
+			expect(privateKey.d).toBe(bigIntFromBytes(base64url.decodeIgnorePadding(jwk.d!)));
+			expect(privateKey.encodeSEC1()).toStrictEqual(der);
+		}
+	});
+
+	test("ECDSAPrivateKey.encodePKCS8() and decodePKCS8ECDSAPrivateKey()", () => {
+		for (const namedCurve of ["P-256", "P-384", "P-521"]) {
+			const keyPair = nodeCrypto.generateKeyPairSync("ec", {
+				namedCurve
+			});
+			const der = new Uint8Array(keyPair.privateKey.export({ format: "der", type: "pkcs8" }));
+			const privateKey = decodePKCS8ECDSAPrivateKey(der, [p256, p384, p521]);
+			const jwk = keyPair.privateKey.export({ format: "jwk" });
+			expect(privateKey.d).toBe(bigIntFromBytes(base64url.decodeIgnorePadding(jwk.d!)));
+			expect(privateKey.encodePKCS8()).toStrictEqual(der);
+		}
+	});
+
+	test("decodeSEC1PrivateKey() rejects mismatched keys", () => {
+		const keyPair1 = generateECDSAKeyPair(random, p256);
+		const keyPair2 = generateECDSAKeyPair(random, p256);
+		const der = keyPair1.privateKey.encodeSEC1();
+		expect(() => decodeSEC1PrivateKey(der, [p384])).toThrowError();
+
+		// Replace the embedded public key
+		const publicKey1 = keyPair1.publicKey.encodeSEC1Uncompressed();
+		const publicKey2 = keyPair2.publicKey.encodeSEC1Uncompressed();
+		const modified = der.slice();
+		modified.set(publicKey2, der.byteLength - publicKey1.byteLength);
+		expect(() => decodeSEC1PrivateKey(modified, [p256])).toThrowError();
+	});
+});
@@ -10,22 +10,128 @@
  * 3. 安全启动和代码签名
  * 4. 智能卡和物联网设备
  * 
- * 本模块实现了ECDSA的验证算法、密钥和签名的编码解码方法，
+ * 本模块实现了ECDSA的签名和验证算法、密钥和签名的编码解码方法，
  * 支持多种标准格式（如SEC1、PKIX、IEEE P1363等）。
+ * 签名使用RFC 6979定义的确定性随机数k，相同的私钥和消息总是产生相同的签名。
  */
 import { ECDSAPoint } from "./curve.js";
 import { euclideanMod, inverseMod, tonelliShanks } from "./math.js";
-import { bigIntBytes, bigIntFromBytes } from "@oslojs/binary";
+import { bigIntBytes, bigIntFromBytes, DynamicBuffer } from "@oslojs/binary";
+import { HMAC } from "../hmac/index.js";
+import { generateRandomInteger } from "../random/index.js";
 import {
 	ASN1BitString,
+	ASN1Class,
 	ASN1EncodableSequence,
+	ASN1Form,
 	ASN1Integer,
 	ASN1ObjectIdentifier,
+	ASN1OctetString,
+	ASN1Value,
 	encodeASN1,
 	encodeObjectIdentifier,
 	parseASN1NoLeftoverBytes
 } from "@oslojs/asn1";
+import type { ASN1Encodable } from "@oslojs/asn1";
 import type { ECDSANamedCurve } from "./curve.js";
+import type { HashAlgorithm } from "../hash/index.js";
+import type { RandomReader } from "../random/index.js";
+
+/**
+ * 生成ECDSA密钥对
+ * 
+ * 密钥生成步骤：
+ * 1. 在范围[1, n-1]内均匀随机地选取私钥d
+ * 2. 计算公钥点Q = d*G
+ * 
+ * 注意：标量乘法不是常数时间实现。
+ * 
+ * @param random 随机数读取器，用于生成私钥
+ * @param curve 椭圆曲线参数
+ * @returns 包含私钥和公钥的密钥对
+ * @throws 如果无法获取随机字节则抛出错误
+ */
+export function generateECDSAKeyPair(random: RandomReader, curve: ECDSANamedCurve): ECDSAKeyPair {
+	// generateRandomInteger()返回[0, n-2]内的整数，加1后得到[1, n-1]
+	const d = generateRandomInteger(random, curve.n - 1n) + 1n;
+	
+	// 因为1 <= d < n，所以Q不会是无穷远点
+	const q = curve.multiply(d, curve.g);
+	if (q === null) {
+		throw new Error("Failed to generate key pair");
+	}
+	return {
+		privateKey: new ECDSAPrivateKey(curve, d),
+		publicKey: new ECDSAPublicKey(curve, q.x, q.y)
+	};
+}
+
+/**
+ * ECDSA密钥对
+ */
+export interface ECDSAKeyPair {
+	/**
+	 * 私钥
+	 */
+	privateKey: ECDSAPrivateKey;
+	
+	/**
+	 * 与私钥对应的公钥
+	 */
+	publicKey: ECDSAPublicKey;
+}
+
+/**
+ * 生成ECDSA签名
+ * 
+ * ECDSA签名算法步骤：
+ * 1. 计算e = HASH(消息)（由调用者完成，传入哈希值）
+ * 2. 按照RFC 6979由私钥和哈希值确定性地生成临时密钥k
+ * 3. 计算点(x,y) = k*G
+ * 4. 计算r = x mod n，如果r = 0则重新生成k
+ * 5. 计算s = k^(-1) * (e + r*d) mod n，如果s = 0则重新生成k
+ * 
+ * 注意：标量乘法不是常数时间实现，签名时可能通过时间侧信道泄露k的信息。
+ * 
+ * @param privateKey ECDSA私钥
+ * @param hash 消息哈希值
+ * @param HashAlgorithm 用于RFC 6979随机数生成的哈希算法（通常与哈希消息的算法相同）
+ * @returns ECDSA签名
+ */
+export function signECDSA(
+	privateKey: ECDSAPrivateKey,
+	hash: Uint8Array,
+	HashAlgorithm: HashAlgorithm
+): ECDSASignature {
+	const curve = privateKey.curve;
+	
+	// 与verifyECDSASignature()相同，使用哈希值的前curve.size字节作为e
+	const e = bigIntFromBytes(hash.slice(0, curve.size));
+	
+	const nonces = new RFC6979NonceGenerator(HashAlgorithm, curve.n, privateKey.d, hash);
+	
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		const k = nonces.next();
+		
+		// 计算R = k*G，r = R.x mod n
+		const point = curve.multiply(k, curve.g);
+		if (point === null) {
+			continue;
+		}
+		const r = euclideanMod(point.x, curve.n);
+		if (r === 0n) {
+			continue;
+		}
+		
+		// 计算s = k^(-1) * (e + r*d) mod n
+		const s = euclideanMod(inverseMod(k, curve.n) * (e + r * privateKey.d), curve.n);
+		if (s === 0n) {
+			continue;
+		}
+		return new ECDSASignature(r, s);
+	}
+}
 
 /**
  * 验证ECDSA签名
@@ -233,6 +339,222 @@ export class ECDSAPublicKey {
 	}
 }
 
+/**
+ * ECDSA私钥类
+ * 
+ * 私钥是范围[1, n-1]内的整数d，对应的公钥点为Q = d*G。
+ */
+export class ECDSAPrivateKey {
+	/**
+	 * 私钥所在的命名曲线
+	 */
+	public curve: ECDSANamedCurve;
+	
+	/**
+	 * 私钥标量d
+	 */
+	public d: bigint;
+
+	/**
+	 * 创建ECDSA私钥
+	 * 
+	 * @param curve 椭圆曲线参数
+	 * @param d 私钥标量，必须在范围[1, n-1]内
+	 * @throws 如果d不在有效范围内则抛出错误
+	 */
+	constructor(curve: ECDSANamedCurve, d: bigint) {
+		if (d < 1n || d >= curve.n) {
+			throw new TypeError("Invalid private key");
+		}
+		this.curve = curve;
+		this.d = d;
+	}
+
+	/**
+	 * 检查私钥是否使用指定的曲线
+	 * 
+	 * @param curve 要检查的曲线
+	 * @returns 如果私钥使用指定曲线则返回true
+	 */
+	public isCurve(curve: ECDSANamedCurve): boolean {
+		return this.curve.objectIdentifier === curve.objectIdentifier;
+	}
+
+	/**
+	 * 编码为SEC1（RFC 5915）格式
+	 * 
+	 * ECPrivateKey ::= SEQUENCE {
+	 *   version        INTEGER { ecPrivkeyVer1(1) },
+	 *   privateKey     OCTET STRING,
+	 *   parameters [0] ECParameters OPTIONAL,  -- 曲线OID
+	 *   publicKey  [1] BIT STRING OPTIONAL     -- SEC1未压缩编码的公钥
+	 * }
+	 * 
+	 * 编码结果包含曲线OID和对应的公钥。
+	 * 
+	 * @returns SEC1编码的私钥字节数组（ASN.1 DER格式）
+	 */
+	public encodeSEC1(): Uint8Array {
+		return encodeASN1(this.encodeECPrivateKey(true));
+	}
+
+	/**
+	 * 编码为PKCS#8格式
+	 * 
+	 * PrivateKeyInfo ::= SEQUENCE {
+	 *   version             INTEGER (0),
+	 *   privateKeyAlgorithm AlgorithmIdentifier,  -- EC公钥算法OID + 曲线OID
+	 *   privateKey          OCTET STRING          -- ECPrivateKey
+	 * }
+	 * 
+	 * 曲线OID已经包含在算法标识符中，因此内部的ECPrivateKey省略parameters字段。
+	 * 
+	 * @returns PKCS#8编码的私钥字节数组（ASN.1 DER格式）
+	 */
+	public encodePKCS8(): Uint8Array {
+		const algorithmIdentifier = new ASN1EncodableSequence([
+			new ASN1ObjectIdentifier(encodeObjectIdentifier("1.2.840.10045.2.1")),
+			new ASN1ObjectIdentifier(encodeObjectIdentifier(this.curve.objectIdentifier))
+		]);
+		const privateKeyInfo = new ASN1EncodableSequence([
+			new ASN1Integer(0n),
+			algorithmIdentifier,
+			new ASN1OctetString(encodeASN1(this.encodeECPrivateKey(false)))
+		]);
+		return encodeASN1(privateKeyInfo);
+	}
+
+	/**
+	 * 创建ECPrivateKey结构
+	 * 
+	 * @param includeParameters 是否包含曲线OID
+	 */
+	private encodeECPrivateKey(includeParameters: boolean): ASN1EncodableSequence {
+		// 私钥长度为ceiling(log2(n)/8)字节
+		const privateKeySize = Math.ceil(this.curve.n.toString(2).length / 8);
+		const privateKeyBytes = new Uint8Array(privateKeySize);
+		const dBytes = bigIntBytes(this.d);
+		privateKeyBytes.set(dBytes, privateKeySize - dBytes.byteLength);
+
+		const q = this.curve.multiply(this.d, this.curve.g);
+		if (q === null) {
+			throw new Error("Invalid private key");
+		}
+		const encodedPublicKey = new ECDSAPublicKey(this.curve, q.x, q.y).encodeSEC1Uncompressed();
+
+		const elements: ASN1Encodable[] = [
+			new ASN1Integer(1n),
+			new ASN1OctetString(privateKeyBytes)
+		];
+		if (includeParameters) {
+			const parameters = new ASN1ObjectIdentifier(encodeObjectIdentifier(this.curve.objectIdentifier));
+			elements.push(
+				new ASN1Value(ASN1Class.ContextSpecific, ASN1Form.Constructed, 0, encodeASN1(parameters))
+			);
+		}
+		const publicKey = new ASN1BitString(encodedPublicKey, encodedPublicKey.byteLength * 8);
+		elements.push(
+			new ASN1Value(ASN1Class.ContextSpecific, ASN1Form.Constructed, 1, encodeASN1(publicKey))
+		);
+		return new ASN1EncodableSequence(elements);
+	}
+}
+
+/**
+ * 解码SEC1（RFC 5915）格式的ECDSA私钥
+ * 
+ * ECPrivateKey ::= SEQUENCE {
+ *   version        INTEGER { ecPrivkeyVer1(1) },
+ *   privateKey     OCTET STRING,
+ *   parameters [0] ECParameters OPTIONAL,
+ *   publicKey  [1] BIT STRING OPTIONAL
+ * }
+ * 
+ * parameters字段必须存在，用于在支持的曲线列表中查找曲线。
+ * 如果包含publicKey字段，则检查其是否与私钥对应。
+ * 
+ * @param bytes SEC1编码的私钥字节数组（ASN.1 DER格式）
+ * @param curves 支持的椭圆曲线列表
+ * @returns 解码后的ECDSA私钥
+ * @throws 如果私钥解码失败、曲线不匹配或公钥与私钥不对应则抛出错误
+ */
+export function decodeSEC1PrivateKey(bytes: Uint8Array, curves: ECDSANamedCurve[]): ECDSAPrivateKey {
+	let ecPrivateKey: ECPrivateKeyStructure;
+	try {
+		ecPrivateKey = parseECPrivateKey(bytes);
+	} catch {
+		throw new Error("Failed to decode elliptic curve private key");
+	}
+	if (ecPrivateKey.parameters === null) {
+		throw new Error("Missing curve parameters");
+	}
+	for (const curve of curves) {
+		if (ecPrivateKey.parameters.is(curve.objectIdentifier)) {
+			return createPrivateKeyFromStructure(curve, ecPrivateKey);
+		}
+	}
+	throw new Error("No matching curves");
+}
+
+/**
+ * 解码PKCS#8格式的ECDSA私钥
+ * 
+ * PrivateKeyInfo ::= SEQUENCE {
+ *   version             INTEGER,
+ *   privateKeyAlgorithm AlgorithmIdentifier,
+ *   privateKey          OCTET STRING,
+ *   attributes      [0] Attributes OPTIONAL,
+ *   publicKey       [1] BIT STRING OPTIONAL  -- 仅限RFC 5958 OneAsymmetricKey (version 1)
+ * }
+ * 
+ * 曲线由算法标识符中的OID确定。如果内部的ECPrivateKey也包含parameters字段，
+ * 则必须与算法标识符中的曲线一致。
+ * 
+ * @param bytes PKCS#8编码的私钥字节数组（ASN.1 DER格式）
+ * @param curves 支持的椭圆曲线列表
+ * @returns 解码后的ECDSA私钥
+ * @throws 如果私钥解码失败、曲线不匹配或公钥与私钥不对应则抛出错误
+ */
+export function decodePKCS8ECDSAPrivateKey(
+	bytes: Uint8Array,
+	curves: ECDSANamedCurve[]
+): ECDSAPrivateKey {
+	let algorithmIdentifierObjectIdentifier: ASN1ObjectIdentifier;
+	let algorithmIdentifierParameter: ASN1ObjectIdentifier;
+	let ecPrivateKey: ECPrivateKeyStructure;
+	try {
+		const privateKeyInfo = parseASN1NoLeftoverBytes(bytes).sequence();
+		const version = privateKeyInfo.at(0).integer().value;
+		if (version !== 0n && version !== 1n) {
+			throw new Error("Invalid version");
+		}
+		const algorithmIdentifier = privateKeyInfo.at(1).sequence();
+		algorithmIdentifierObjectIdentifier = algorithmIdentifier.at(0).objectIdentifier();
+		algorithmIdentifierParameter = algorithmIdentifier.at(1).objectIdentifier();
+		ecPrivateKey = parseECPrivateKey(privateKeyInfo.at(2).octetString().value);
+	} catch {
+		throw new Error("Failed to decode elliptic curve private key");
+	}
+	
+	// 验证是椭圆曲线公钥算法
+	if (!algorithmIdentifierObjectIdentifier.is("1.2.840.10045.2.1")) {
+		throw new Error("Invalid algorithm");
+	}
+	
+	for (const curve of curves) {
+		if (algorithmIdentifierParameter.is(curve.objectIdentifier)) {
+			if (
+				ecPrivateKey.parameters !== null &&
+				!ecPrivateKey.parameters.is(curve.objectIdentifier)
+			) {
+				throw new Error("Invalid curve parameters");
+			}
+			return createPrivateKeyFromStructure(curve, ecPrivateKey);
+		}
+	}
+	throw new Error("No matching curves");
+}
+
 /**
  * 解码SEC1格式的ECDSA公钥
  * 
@@ -500,3 +822,207 @@ export function decodePKIXECDSAPublicKey(
 	
 	throw new Error("No matching curves");
 }
+
+/**
+ * 解析后的ECPrivateKey结构
+ */
+interface ECPrivateKeyStructure {
+	privateKey: Uint8Array;
+	parameters: ASN1ObjectIdentifier | null;
+	publicKey: Uint8Array | null;
+}
+
+/**
+ * 解析ECPrivateKey结构（RFC 5915）
+ * 
+ * @param bytes ECPrivateKey的DER编码
+ * @throws 如果结构无效则抛出错误
+ */
+function parseECPrivateKey(bytes: Uint8Array): ECPrivateKeyStructure {
+	const sequence = parseASN1NoLeftoverBytes(bytes).sequence();
+	if (sequence.at(0).integer().value !== 1n) {
+		throw new Error("Invalid version");
+	}
+	const result: ECPrivateKeyStructure = {
+		privateKey: sequence.at(1).octetString().value,
+		parameters: null,
+		publicKey: null
+	};
+	
+	// 解析可选的[0] parameters和[1] publicKey字段
+	for (let i = 2; i < sequence.elements.length; i++) {
+		const element = sequence.elements[i];
+		if (element.class !== ASN1Class.ContextSpecific || element.form !== ASN1Form.Constructed) {
+			throw new Error("Invalid element");
+		}
+		if (element.tag === 0 && result.parameters === null && result.publicKey === null) {
+			result.parameters = parseASN1NoLeftoverBytes(element.contents()).objectIdentifier();
+		} else if (element.tag === 1 && result.publicKey === null) {
+			result.publicKey = parseASN1NoLeftoverBytes(element.contents()).bitString().bytes;
+		} else {
+			throw new Error("Invalid element");
+		}
+	}
+	return result;
+}
+
+/**
+ * 从解析后的ECPrivateKey结构创建私钥，并检查可选的公钥是否与私钥对应
+ * 
+ * @param curve 椭圆曲线参数
+ * @param ecPrivateKey 解析后的ECPrivateKey结构
+ * @throws 如果私钥无效或公钥与私钥不对应则抛出错误
+ */
+function createPrivateKeyFromStructure(
+	curve: ECDSANamedCurve,
+	ecPrivateKey: ECPrivateKeyStructure
+): ECDSAPrivateKey {
+	let privateKey: ECDSAPrivateKey;
+	try {
+		privateKey = new ECDSAPrivateKey(curve, bigIntFromBytes(ecPrivateKey.privateKey));
+	} catch {
+		throw new Error("Invalid private key");
+	}
+	if (ecPrivateKey.publicKey !== null) {
+		const publicKey = decodeSEC1PublicKey(curve, ecPrivateKey.publicKey);
+		const q = curve.multiply(privateKey.d, curve.g);
+		if (q === null || q.x !== publicKey.x || q.y !== publicKey.y) {
+			throw new Error("Public key does not match private key");
+		}
+	}
+	return privateKey;
+}
+
+/**
+ * RFC 6979确定性随机数生成器
+ * 
+ * 使用HMAC_DRBG从私钥x和消息哈希h1派生临时密钥k：
+ * 1. V = 0x01 0x01 ... 0x01，K = 0x00 0x00 ... 0x00（长度均为hlen）
+ * 2. K = HMAC_K(V || 0x00 || int2octets(x) || bits2octets(h1))，V = HMAC_K(V)
+ * 3. K = HMAC_K(V || 0x01 || int2octets(x) || bits2octets(h1))，V = HMAC_K(V)
+ * 4. 重复V = HMAC_K(V)并连接输出，直到长度不小于qlen，k = bits2int(T)
+ * 5. 如果k不在[1, n-1]内（或签名时r、s为0），则K = HMAC_K(V || 0x00)，V = HMAC_K(V)，回到步骤4
+ */
+class RFC6979NonceGenerator {
+	/**
+	 * 用于HMAC的哈希算法
+	 */
+	private Hash: HashAlgorithm;
+	
+	/**
+	 * 曲线的阶n
+	 */
+	private n: bigint;
+	
+	/**
+	 * n的位长度
+	 */
+	private qlen: number;
+	
+	/**
+	 * HMAC_DRBG的密钥K
+	 */
+	private k: Uint8Array;
+	
+	/**
+	 * HMAC_DRBG的状态V
+	 */
+	private v: Uint8Array;
+	
+	/**
+	 * 是否已经生成过候选值
+	 */
+	private generated = false;
+
+	/**
+	 * 初始化随机数生成器（步骤1至3）
+	 * 
+	 * @param Hash 用于HMAC的哈希算法
+	 * @param n 曲线的阶
+	 * @param x 私钥
+	 * @param h1 消息哈希值
+	 */
+	constructor(Hash: HashAlgorithm, n: bigint, x: bigint, h1: Uint8Array) {
+		this.Hash = Hash;
+		this.n = n;
+		this.qlen = n.toString(2).length;
+		const hlen = new Hash().size;
+		this.v = new Uint8Array(hlen).fill(0x01);
+		this.k = new Uint8Array(hlen);
+
+		const xOctets = this.int2octets(x);
+		const h1Octets = this.bits2octets(h1);
+		this.k = this.hmac(this.k, this.v, [0x00], xOctets, h1Octets);
+		this.v = this.hmac(this.k, this.v);
+		this.k = this.hmac(this.k, this.v, [0x01], xOctets, h1Octets);
+		this.v = this.hmac(this.k, this.v);
+	}
+
+	/**
+	 * 生成下一个候选k值（步骤4和5）
+	 * 
+	 * @returns 范围[1, n-1]内的整数
+	 */
+	public next(): bigint {
+		// eslint-disable-next-line no-constant-condition
+		while (true) {
+			// 除第一次以外，每次生成新的候选值之前都需要更新K和V
+			if (this.generated) {
+				this.k = this.hmac(this.k, this.v, [0x00]);
+				this.v = this.hmac(this.k, this.v);
+			}
+			this.generated = true;
+
+			const t = new DynamicBuffer(0);
+			while (t.length * 8 < this.qlen) {
+				this.v = this.hmac(this.k, this.v);
+				t.write(this.v);
+			}
+			const k = this.bits2int(t.bytes());
+			if (k >= 1n && k < this.n) {
+				return k;
+			}
+		}
+	}
+
+	/**
+	 * 将字节序列的最左侧qlen位转换为整数
+	 */
+	private bits2int(bytes: Uint8Array): bigint {
+		const blen = bytes.byteLength * 8;
+		const v = bigIntFromBytes(bytes);
+		if (blen > this.qlen) {
+			return v >> BigInt(blen - this.qlen);
+		}
+		return v;
+	}
+
+	/**
+	 * 将整数编码为ceil(qlen/8)字节的大端序字节序列
+	 */
+	private int2octets(x: bigint): Uint8Array {
+		const rlen = Math.ceil(this.qlen / 8);
+		const result = new Uint8Array(rlen);
+		const bytes = bigIntBytes(x);
+		result.set(bytes, rlen - bytes.byteLength);
+		return result;
+	}
+
+	/**
+	 * bits2octets(b) = int2octets(bits2int(b) mod n)
+	 */
+	private bits2octets(bytes: Uint8Array): Uint8Array {
+		return this.int2octets(euclideanMod(this.bits2int(bytes), this.n));
+	}
+
+	/**
+	 * 计算HMAC_K(data[0] || data[1] || ...)
+	 */
+	private hmac(key: Uint8Array, ...data: (Uint8Array | number[])[]): Uint8Array {
+		const mac = new HMAC(this.Hash, key);
+		for (const item of data) {
+			mac.update(new Uint8Array(item));
+		}
+		return mac.digest();
+	}
+}
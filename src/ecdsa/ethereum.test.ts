@@ -0,0 +1,40 @@
+import { expect, test } from "vitest";
+import { decodeEthereumAddress, deriveEthereumAddress, encodeEthereumAddress } from "./ethereum.js";
+import { ECDSAPublicKey } from "./ecdsa.js";
+import { secp256k1 } from "./curve-sec.js";
+import { p256 } from "./curve-nist.js";
+
+test("deriveEthereumAddress()", async () => {
+	// The public keys for private keys 1 and 2 are G and 2G
+	const g = secp256k1.g;
+	const g2 = secp256k1.add(g, g);
+	if (g2 === null) {
+		throw new Error("Unexpected point at infinity");
+	}
+	expect(
+		encodeEthereumAddress(deriveEthereumAddress(new ECDSAPublicKey(secp256k1, g.x, g.y)))
+	).toBe("0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf");
+	expect(
+		encodeEthereumAddress(deriveEthereumAddress(new ECDSAPublicKey(secp256k1, g2.x, g2.y)))
+	).toBe("0x2B5AD5c4795c026514f8317c7a215E218DcCD6cF");
+	expect(() => deriveEthereumAddress(new ECDSAPublicKey(p256, p256.g.x, p256.g.y))).toThrowError(
+		TypeError
+	);
+});
+
+test("encodeEthereumAddress()", async () => {
+	expect(() => encodeEthereumAddress(new Uint8Array(19))).toThrowError(TypeError);
+});
+
+test("decodeEthereumAddress()", async () => {
+	const address = decodeEthereumAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed");
+	expect(decodeEthereumAddress("0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed")).toStrictEqual(
+		address
+	);
+	expect(decodeEthereumAddress("0x5AAEB6053F3E94C9B9A09F33669435E7EF1BEAED")).toStrictEqual(
+		address
+	);
+	expect(() => decodeEthereumAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD")).toThrowError();
+	expect(() => decodeEthereumAddress("5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed")).toThrowError();
+	expect(() => decodeEthereumAddress("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeA")).toThrowError();
+});
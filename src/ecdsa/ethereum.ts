@@ -0,0 +1,91 @@
+/**
+ * 以太坊地址派生模块
+ *
+ * 以太坊账户使用secp256k1曲线上的ECDSA密钥。地址是未压缩公钥（去掉0x04前缀后的X || Y，共64字节）
+ * 的Keccak-256哈希值的最后20个字节。
+ *
+ * 地址通常以十六进制字符串表示，EIP-55定义了一种大小写混合的校验和编码：
+ * 对小写十六进制地址（不含0x前缀）计算Keccak-256，如果哈希值的第i个半字节大于等于8，
+ * 就将地址的第i个字符（如果是字母）改为大写。这样不需要额外的字符就可以检测大部分输入错误。
+ *
+ * https://eips.ethereum.org/EIPS/eip-55
+ */
+import { bigIntBytes } from "@oslojs/binary";
+import { keccak256 } from "../sha3/index.js";
+import { secp256k1 } from "./curve-sec.js";
+
+import type { ECDSAPublicKey } from "./ecdsa.js";
+
+/**
+ * 从secp256k1公钥派生以太坊地址
+ *
+ * @example
+ * const address = deriveEthereumAddress(publicKey);
+ * const encoded = encodeEthereumAddress(address); // "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed"
+ *
+ * @param publicKey secp256k1公钥
+ * @returns 20字节的地址
+ * @throws 如果公钥不在secp256k1曲线上
+ */
+export function deriveEthereumAddress(publicKey: ECDSAPublicKey): Uint8Array {
+	if (!publicKey.isCurve(secp256k1)) {
+		throw new TypeError("Invalid curve");
+	}
+	const coordinates = new Uint8Array(64);
+	const xBytes = bigIntBytes(publicKey.x);
+	const yBytes = bigIntBytes(publicKey.y);
+	coordinates.set(xBytes, 32 - xBytes.byteLength);
+	coordinates.set(yBytes, 64 - yBytes.byteLength);
+	return keccak256(coordinates).slice(12);
+}
+
+/**
+ * 将20字节的以太坊地址编码为带EIP-55校验和的十六进制字符串
+ *
+ * @param address 20字节的地址
+ * @returns 以"0x"开头的42个字符的字符串
+ * @throws 如果地址长度不是20字节
+ */
+export function encodeEthereumAddress(address: Uint8Array): string {
+	if (address.byteLength !== 20) {
+		throw new TypeError("Invalid address length");
+	}
+	let hex = "";
+	for (let i = 0; i < address.byteLength; i++) {
+		hex += address[i].toString(16).padStart(2, "0");
+	}
+	const hash = keccak256(new TextEncoder().encode(hex));
+	let result = "0x";
+	for (let i = 0; i < hex.length; i++) {
+		// 第i个字符对应哈希值的第i个半字节（偶数位为高4位）
+		const nibble = i % 2 === 0 ? hash[i >> 1] >> 4 : hash[i >> 1] & 0x0f;
+		result += nibble >= 8 ? hex[i].toUpperCase() : hex[i];
+	}
+	return result;
+}
+
+/**
+ * 解码以太坊地址字符串
+ *
+ * 全小写或全大写的地址不包含校验和，直接接受；大小写混合的地址必须通过EIP-55校验。
+ *
+ * @param encoded 以"0x"开头的42个字符的字符串
+ * @returns 20字节的地址
+ * @throws 如果格式无效或校验和不匹配
+ */
+export function decodeEthereumAddress(encoded: string): Uint8Array {
+	if (!/^0x[0-9a-fA-F]{40}$/.test(encoded)) {
+		throw new Error("Invalid address");
+	}
+	const hex = encoded.slice(2);
+	const address = new Uint8Array(20);
+	for (let i = 0; i < 20; i++) {
+		address[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+	}
+	if (hex !== hex.toLowerCase() && hex !== hex.toUpperCase()) {
+		if (encodeEthereumAddress(address) !== encoded) {
+			throw new Error("Invalid checksum");
+		}
+	}
+	return address;
+}
@@ -10,7 +10,7 @@
  * 3. 支持多种标准化曲线（NIST曲线、SECG曲线等）
  * 4. 广泛应用于TLS、比特币、以太坊等系统
  * 
- * 本模块提供了ECDSA的验证功能，包括各种标准曲线的实现和编解码工具。
+ * 本模块提供了ECDSA的签名和验证功能，包括各种标准曲线的实现和编解码工具。
  */
 
 // 导出ECDSA核心功能和数据结构
@@ -27,16 +27,40 @@ export {
 	// 解码PKIX（X.509）格式的ECDSA签名（ASN.1 DER编码）
 	decodePKIXECDSASignature,
 	
+	// 解码SEC1（RFC 5915）格式的ECDSA私钥
+	decodeSEC1PrivateKey,
+	
+	// 解码PKCS#8格式的ECDSA私钥
+	decodePKCS8ECDSAPrivateKey,
+	
 	// ECDSA公钥类型，包含曲线信息和公钥点坐标
 	ECDSAPublicKey,
 	
+	// ECDSA私钥类型，包含曲线信息和私钥标量
+	ECDSAPrivateKey,
+	
 	// ECDSA签名类型，包含签名的R和S值
 	ECDSASignature,
 	
+	// 生成ECDSA密钥对的函数
+	generateECDSAKeyPair,
+	
+	// 使用RFC 6979确定性随机数生成ECDSA签名的函数
+	signECDSA,
+	
 	// 验证ECDSA签名的函数
 	verifyECDSASignature
 } from "./ecdsa.js";
 
+// 导出ECDH密钥协商函数
+export { ecdh } from "./ecdh.js";
+
+// 导出以太坊地址派生和EIP-55编码函数
+export { decodeEthereumAddress, deriveEthereumAddress, encodeEthereumAddress } from "./ethereum.js";
+
+// 导出ECDSA密钥对类型
+export type { ECDSAKeyPair } from "./ecdsa.js";
+
 // 导出NIST（美国国家标准与技术研究院）标准曲线
 export { 
 	p192, // NIST P-192曲线，安全性约96位
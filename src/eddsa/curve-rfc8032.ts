@@ -0,0 +1,72 @@
+/**
+ * RFC 8032 定义的EdDSA曲线
+ * 
+ * - Ed25519：基于扭曲爱德华兹曲线edwards25519（与Curve25519双有理等价），
+ *   使用SHA-512，约128位安全强度
+ * - Ed448：基于爱德华兹曲线edwards448（与Curve448同源），
+ *   使用SHAKE256，约224位安全强度
+ * 
+ * 这些参数都是标准的、公开的数值，确保了不同实现之间的互操作性。
+ */
+import { DynamicBuffer } from "@oslojs/binary";
+import { EdDSANamedCurve } from "./curve.js";
+import { SHA512 } from "../sha2/index.js";
+import { SHAKE256 } from "../sha3/index.js";
+
+export const ed25519 = new EdDSANamedCurve(
+	0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffedn,
+	// a = -1
+	0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffecn,
+	// d = -121665/121666
+	0x52036cee2b6ffe738cc740797779e89800700a4d4141d8ab75eb4dca135978a3n,
+	0x216936d3cd6e53fec0a4e231fdd6dc5c692cc7609525a7b2c9562d608f25d51an,
+	0x6666666666666666666666666666666666666666666666666666666666666658n,
+	0x1000000000000000000000000000000014def9dea2f79cd65812631a5cf5d3edn,
+	8n,
+	32,
+	254,
+	"1.3.101.112",
+	() => new SHA512(),
+	(context) => {
+		// 纯Ed25519不使用前缀，带上下文时为Ed25519ctx（dom2）
+		if (context.byteLength === 0) {
+			return new Uint8Array();
+		}
+		return dom("SigEd25519 no Ed25519 collisions", context);
+	}
+);
+
+export const ed448 = new EdDSANamedCurve(
+	0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffffffffffffffffffffffffffffffffffffffffffffffffffffn,
+	1n,
+	// d = -39081
+	0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffffffffffffffffffffffffffffffffffffffffffffffff6756n,
+	0x4f1970c66bed0ded221d15a622bf36da9e146570470f1767ea6de324a3d3a46412ae1af72ab66511433b80e18b00938e2626a82bc70cc05en,
+	0x693f46716eb6bc248876203756c9c7624bea73736ca3984087789c1e05a0c2d73ad3ff1ce67c39c4fdbd132c4ed7c8ad9808795bf230fa14n,
+	0x3fffffffffffffffffffffffffffffffffffffffffffffffffffffff7cca23e9c44edb49aed63690216cc2728dc58f552378c292ab5844f3n,
+	4n,
+	57,
+	447,
+	"1.3.101.113",
+	() => new SHAKE256(114),
+	(context) => dom("SigEd448", context)
+);
+
+/**
+ * 生成域分隔前缀dom2/dom4（RFC 8032 5.1、5.2）
+ * 
+ * dom(F, C) = prefix || octet(F) || octet(OLEN(C)) || C，其中F为0（非预哈希模式）
+ * 
+ * @param prefix 前缀字符串
+ * @param context 上下文（最多255字节）
+ * @returns 域分隔前缀
+ */
+function dom(prefix: string, context: Uint8Array): Uint8Array {
+	const encodedPrefix = new TextEncoder().encode(prefix);
+	const buffer = new DynamicBuffer(encodedPrefix.byteLength + 2 + context.byteLength);
+	buffer.write(encodedPrefix);
+	buffer.writeByte(0x00);
+	buffer.writeByte(context.byteLength);
+	buffer.write(context);
+	return buffer.bytes();
+}
@@ -0,0 +1,408 @@
+/**
+ * EdDSA使用的扭曲爱德华兹曲线（Twisted Edwards Curve）实现
+ * 
+ * 扭曲爱德华兹曲线由方程 a*x² + y² = 1 + d*x²*y² 描述。
+ * 当a为平方数且d为非平方数时，曲线的加法公式是完备的（complete），
+ * 即同一个公式可以处理所有情况（包括点倍乘和单位元），无需特殊分支。
+ * 
+ * 本模块实现了：
+ * 1. 扩展坐标（Extended Coordinates）下的点加法
+ * 2. 标量乘法
+ * 3. RFC 8032定义的点编码和解码
+ * 4. 曲线参数和哈希函数管理
+ */
+import { euclideanMod, inverseMod, powmod } from "../ecdsa/math.js";
+
+import type { Hash } from "../hash/index.js";
+
+/**
+ * 扭曲爱德华兹曲线上的点（仿射坐标表示）
+ */
+export class EdDSAPoint {
+	/**
+	 * 点的X坐标
+	 */
+	public x: bigint;
+	
+	/**
+	 * 点的Y坐标
+	 */
+	public y: bigint;
+	
+	/**
+	 * 创建曲线上的点
+	 * 
+	 * @param x 点的X坐标
+	 * @param y 点的Y坐标
+	 */
+	constructor(x: bigint, y: bigint) {
+		this.x = x;
+		this.y = y;
+	}
+}
+
+/**
+ * 扭曲爱德华兹曲线上的点（扩展坐标表示）
+ * 
+ * 扩展坐标使用四个坐标(X,Y,Z,T)表示点，其中x=X/Z，y=Y/Z，x*y=T/Z。
+ * 单位元为(0:1:1:0)。
+ */
+class ExtendedPoint {
+	public x: bigint;
+	public y: bigint;
+	public z: bigint;
+	public t: bigint;
+	
+	constructor(x: bigint, y: bigint, z: bigint, t: bigint) {
+		this.x = x;
+		this.y = y;
+		this.z = z;
+		this.t = t;
+	}
+}
+
+/**
+ * EdDSA命名曲线类
+ * 
+ * 除了曲线参数外，还包含EdDSA签名方案所需的参数：
+ * 编码长度、私钥标量的位长、哈希函数和域分隔前缀（dom2/dom4）。
+ */
+export class EdDSANamedCurve {
+	/**
+	 * 曲线的模数p
+	 */
+	public p: bigint;
+	
+	/**
+	 * 曲线方程参数a
+	 * 曲线方程: a*x² + y² = 1 + d*x²*y²
+	 */
+	public a: bigint;
+	
+	/**
+	 * 曲线方程参数d
+	 * 曲线方程: a*x² + y² = 1 + d*x²*y²
+	 */
+	public d: bigint;
+	
+	/**
+	 * 基点B
+	 */
+	public g: EdDSAPoint;
+	
+	/**
+	 * 基点B的阶L
+	 */
+	public n: bigint;
+	
+	/**
+	 * 余因子（Ed25519为8，Ed448为4）
+	 */
+	public cofactor: bigint;
+	
+	/**
+	 * 编码后的点和私钥的字节长度（Ed25519为32，Ed448为57）
+	 */
+	public size: number;
+	
+	/**
+	 * 私钥标量最高位的位置（RFC 8032中的n，Ed25519为254，Ed448为447）
+	 */
+	public scalarBitLength: number;
+	
+	/**
+	 * 签名算法的对象标识符(OID)，定义于RFC 8410
+	 */
+	public objectIdentifier: string;
+	
+	/**
+	 * 创建哈希函数实例（Ed25519为SHA-512，Ed448为SHAKE256(114字节)）
+	 */
+	private createHash: () => Hash;
+	
+	/**
+	 * 根据上下文生成域分隔前缀（Ed25519为dom2，Ed448为dom4）
+	 */
+	private createDom: (context: Uint8Array) => Uint8Array;
+
+	/**
+	 * 创建EdDSA命名曲线
+	 * 
+	 * @param p 模数p
+	 * @param a 曲线参数a
+	 * @param d 曲线参数d
+	 * @param gx 基点的x坐标
+	 * @param gy 基点的y坐标
+	 * @param n 基点的阶
+	 * @param cofactor 余因子
+	 * @param size 编码长度（字节）
+	 * @param scalarBitLength 私钥标量最高位的位置
+	 * @param objectIdentifier 签名算法的对象标识符
+	 * @param createHash 创建哈希函数实例的函数
+	 * @param dom 生成域分隔前缀的函数
+	 */
+	constructor(
+		p: bigint,
+		a: bigint,
+		d: bigint,
+		gx: bigint,
+		gy: bigint,
+		n: bigint,
+		cofactor: bigint,
+		size: number,
+		scalarBitLength: number,
+		objectIdentifier: string,
+		createHash: () => Hash,
+		dom: (context: Uint8Array) => Uint8Array
+	) {
+		this.p = p;
+		this.a = a;
+		this.d = d;
+		this.g = new EdDSAPoint(gx, gy);
+		this.n = n;
+		this.cofactor = cofactor;
+		this.size = size;
+		this.scalarBitLength = scalarBitLength;
+		this.objectIdentifier = objectIdentifier;
+		this.createHash = createHash;
+		this.createDom = dom;
+	}
+
+	/**
+	 * 计算H(data[0] || data[1] || ...)
+	 * 
+	 * @param data 要哈希的数据
+	 * @returns 哈希值（长度为2 * size）
+	 */
+	public hash(...data: Uint8Array[]): Uint8Array {
+		const hash = this.createHash();
+		for (const bytes of data) {
+			hash.update(bytes);
+		}
+		return hash.digest();
+	}
+
+	/**
+	 * 生成签名时使用的域分隔前缀
+	 * 
+	 * @param context 上下文（Ed25519为空时返回空字节数组）
+	 * @returns 域分隔前缀
+	 */
+	public dom(context: Uint8Array): Uint8Array {
+		return this.createDom(context);
+	}
+
+	/**
+	 * 对私钥哈希值的前半部分进行位修剪（clamping），得到私钥标量s
+	 * 
+	 * 1. 清除最低的log2(cofactor)位，使s为余因子的倍数
+	 * 2. 清除scalarBitLength以上的所有位，并设置第scalarBitLength位
+	 * 
+	 * @param bytes 私钥哈希值的前size字节
+	 * @returns 私钥标量s
+	 */
+	public clampScalar(bytes: Uint8Array): bigint {
+		const s = decodeLittleEndian(bytes);
+		const cofactorBits = BigInt(this.cofactor.toString(2).length - 1);
+		const top = 1n << BigInt(this.scalarBitLength);
+		return ((s & (top - 1n)) >> cofactorBits << cofactorBits) | top;
+	}
+
+	/**
+	 * 在曲线上加两个点
+	 * 
+	 * @param point1 点P
+	 * @param point2 点Q
+	 * @returns 点P+Q
+	 */
+	public add(point1: EdDSAPoint, point2: EdDSAPoint): EdDSAPoint {
+		return this.toAffine(this.addExtended(this.fromAffine(point1), this.fromAffine(point2)));
+	}
+
+	/**
+	 * 使用双重加法链(Double-and-Add)算法实现标量乘法
+	 * 
+	 * 注意：不是常数时间实现
+	 * 
+	 * @param k 标量值
+	 * @param point 要乘的点P
+	 * @returns k*P
+	 */
+	public multiply(k: bigint, point: EdDSAPoint): EdDSAPoint {
+		let res = new ExtendedPoint(0n, 1n, 1n, 0n);
+		const temp = this.fromAffine(point);
+		
+		// 从最高有效位到最低有效位
+		for (let i = k.toString(2).length - 1; i >= 0; i--) {
+			res = this.addExtended(res, res);
+			if ((k >> BigInt(i)) & 1n) {
+				res = this.addExtended(res, temp);
+			}
+		}
+		return this.toAffine(res);
+	}
+
+	/**
+	 * 检查点是否在曲线上
+	 * 
+	 * 验证点是否满足曲线方程 a*x² + y² = 1 + d*x²*y²
+	 * 
+	 * @param point 要检查的点
+	 * @returns 如果点在曲线上则返回true
+	 */
+	public isOnCurve(point: EdDSAPoint): boolean {
+		const xx = point.x * point.x;
+		const yy = point.y * point.y;
+		return euclideanMod(this.a * xx + yy, this.p) === euclideanMod(1n + this.d * xx * yy, this.p);
+	}
+
+	/**
+	 * 按照RFC 8032编码点
+	 * 
+	 * 将y坐标编码为size字节的小端序整数，并将x的最低位存入最后一个字节的最高位。
+	 * 
+	 * @param point 要编码的点
+	 * @returns 编码后的点
+	 */
+	public encodePoint(point: EdDSAPoint): Uint8Array {
+		const bytes = encodeLittleEndian(point.y, this.size);
+		bytes[this.size - 1] |= Number(point.x & 1n) << 7;
+		return bytes;
+	}
+
+	/**
+	 * 按照RFC 8032解码点
+	 * 
+	 * 1. 从编码中恢复y坐标和x的最低位x_0，要求y < p
+	 * 2. 由曲线方程计算x² = (y² - 1) / (d*y² - a)，并求平方根
+	 * 3. 根据x_0选择x的符号，要求当x = 0时x_0 = 0
+	 * 
+	 * @param bytes 编码后的点
+	 * @returns 解码后的点，如果编码无效则返回null
+	 */
+	public decodePoint(bytes: Uint8Array): EdDSAPoint | null {
+		if (bytes.byteLength !== this.size) {
+			return null;
+		}
+		const yBytes = bytes.slice();
+		const x0 = yBytes[this.size - 1] >> 7;
+		yBytes[this.size - 1] &= 0x7f;
+		const y = decodeLittleEndian(yBytes);
+		if (y >= this.p) {
+			return null;
+		}
+		
+		const yy = (y * y) % this.p;
+		const u = euclideanMod(yy - 1n, this.p);
+		const v = euclideanMod(this.d * yy - this.a, this.p);
+		if (v === 0n) {
+			return null;
+		}
+		let x = this.sqrt(euclideanMod(u * inverseMod(v, this.p), this.p));
+		if (x === null) {
+			return null;
+		}
+		if (x === 0n && x0 === 1) {
+			return null;
+		}
+		if (Number(x & 1n) !== x0) {
+			x = this.p - x;
+		}
+		return new EdDSAPoint(x, y);
+	}
+
+	/**
+	 * 计算模p的平方根（p ≡ 3 mod 4 或 p ≡ 5 mod 8）
+	 * 
+	 * @param w 被开方数
+	 * @returns w的平方根，如果不存在则返回null
+	 */
+	private sqrt(w: bigint): bigint | null {
+		if (this.p % 4n === 3n) {
+			const x = powmod(w, (this.p + 1n) / 4n, this.p);
+			return (x * x) % this.p === w ? x : null;
+		}
+		let x = powmod(w, (this.p + 3n) / 8n, this.p);
+		if ((x * x) % this.p === w) {
+			return x;
+		}
+		if ((x * x) % this.p === euclideanMod(-w, this.p)) {
+			// 乘以sqrt(-1) = 2^((p-1)/4)
+			x = (x * powmod(2n, (this.p - 1n) / 4n, this.p)) % this.p;
+			return x;
+		}
+		return null;
+	}
+
+	/**
+	 * 扩展坐标下的点加法（add-2008-hwcd）
+	 * 
+	 * 该公式是完备的，也可用于点倍乘和单位元。
+	 * 
+	 * @param point1 第一个点
+	 * @param point2 第二个点
+	 * @returns 两点之和
+	 */
+	private addExtended(point1: ExtendedPoint, point2: ExtendedPoint): ExtendedPoint {
+		const p = this.p;
+		const a = (point1.x * point2.x) % p;
+		const b = (point1.y * point2.y) % p;
+		const c = euclideanMod(this.d * point1.t * point2.t, p);
+		const d = (point1.z * point2.z) % p;
+		const e = euclideanMod((point1.x + point1.y) * (point2.x + point2.y) - a - b, p);
+		const f = euclideanMod(d - c, p);
+		const g = (d + c) % p;
+		const h = euclideanMod(b - this.a * a, p);
+		return new ExtendedPoint((e * f) % p, (g * h) % p, (f * g) % p, (e * h) % p);
+	}
+
+	/**
+	 * 将仿射坐标转换为扩展坐标
+	 * 
+	 * @param point 仿射坐标点
+	 * @returns 扩展坐标点
+	 */
+	private fromAffine(point: EdDSAPoint): ExtendedPoint {
+		return new ExtendedPoint(point.x, point.y, 1n, (point.x * point.y) % this.p);
+	}
+
+	/**
+	 * 将扩展坐标转换为仿射坐标
+	 * 
+	 * @param point 扩展坐标点
+	 * @returns 仿射坐标点
+	 */
+	private toAffine(point: ExtendedPoint): EdDSAPoint {
+		const zInv = inverseMod(point.z, this.p);
+		return new EdDSAPoint((point.x * zInv) % this.p, (point.y * zInv) % this.p);
+	}
+}
+
+/**
+ * 将小端序字节数组转换为整数
+ * 
+ * @param bytes 小端序字节数组
+ * @returns 整数
+ */
+export function decodeLittleEndian(bytes: Uint8Array): bigint {
+	let result = 0n;
+	for (let i = bytes.byteLength - 1; i >= 0; i--) {
+		result = (result << 8n) | BigInt(bytes[i]);
+	}
+	return result;
+}
+
+/**
+ * 将整数转换为指定长度的小端序字节数组
+ * 
+ * @param x 非负整数
+ * @param size 输出长度（字节）
+ * @returns 小端序字节数组
+ */
+export function encodeLittleEndian(x: bigint, size: number): Uint8Array {
+	const bytes = new Uint8Array(size);
+	for (let i = 0; i < size; i++) {
+		bytes[i] = Number((x >> BigInt(i * 8)) & 0xffn);
+	}
+	return bytes;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "vitest";
+import * as nodeCrypto from "node:crypto";
+import {
+	decodePKCS8EdDSAPrivateKey,
+	decodePKIXEdDSAPublicKey,
+	EdDSAPublicKey,
+	generateEdDSAKeyPair,
+	signEdDSA,
+	verifyEdDSASignature
+} from "./eddsa.js";
+import { ed25519, ed448 } from "./curve-rfc8032.js";
+import { encodeLittleEndian } from "./curve.js";
+
+import type { RandomReader } from "../random/index.js";
+
+const random: RandomReader = {
+	read(bytes: Uint8Array): void {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+const curves = [
+	[ed25519, "ed25519"],
+	[ed448, "ed448"]
+] as const;
+
+test("signEdDSA()", () => {
+	for (const [curve] of curves) {
+		const keyPair = generateEdDSAKeyPair(random, curve);
+		const nodePrivateKey = nodeCrypto.createPrivateKey({
+			key: Buffer.from(keyPair.privateKey.encodePKCS8()),
+			format: "der",
+			type: "pkcs8"
+		});
+		for (let i = 0; i < 10; i++) {
+			const message = crypto.getRandomValues(new Uint8Array(i * 20));
+			const signature = signEdDSA(keyPair.privateKey, message);
+			expect(signature).toStrictEqual(
+				new Uint8Array(nodeCrypto.sign(null, message, nodePrivateKey))
+			);
+		}
+	}
+});
+
+test("verifyEdDSASignature()", () => {
+	for (const [curve, type] of curves) {
+		const nodeKeyPair = nodeCrypto.generateKeyPairSync(type as "ed25519");
+		const publicKey = decodePKIXEdDSAPublicKey(
+			new Uint8Array(nodeKeyPair.publicKey.export({ format: "der", type: "spki" })),
+			[curve]
+		);
+		const message = new TextEncoder().encode("hello world");
+		const signature = new Uint8Array(nodeCrypto.sign(null, message, nodeKeyPair.privateKey));
+		expect(verifyEdDSASignature(publicKey, message, signature)).toBe(true);
+		expect(verifyEdDSASignature(publicKey, message.slice(1), signature)).toBe(false);
+		expect(verifyEdDSASignature(publicKey, message, signature, new Uint8Array(1))).toBe(false);
+
+		const modified = signature.slice();
+		modified[0] ^= 0x01;
+		expect(verifyEdDSASignature(publicKey, message, modified)).toBe(false);
+
+		// Rejects S + L
+		const s = signature.slice(curve.size);
+		let sValue = 0n;
+		for (let i = s.byteLength - 1; i >= 0; i--) {
+			sValue = (sValue << 8n) | BigInt(s[i]);
+		}
+		const malleable = signature.slice();
+		malleable.set(encodeLittleEndian(sValue + curve.n, curve.size), curve.size);
+		expect(verifyEdDSASignature(publicKey, message, malleable)).toBe(false);
+	}
+});
+
+test("verifyEdDSASignature() with non-canonical public key", () => {
+	// y = p is non-canonical
+	const bytes = encodeLittleEndian(ed25519.p, ed25519.size);
+	const publicKey = new EdDSAPublicKey(ed25519, bytes);
+	const keyPair = generateEdDSAKeyPair(random, ed25519);
+	const message = new TextEncoder().encode("hello world");
+	const signature = signEdDSA(keyPair.privateKey, message);
+	expect(verifyEdDSASignature(publicKey, message, signature)).toBe(false);
+});
+
+test("decodePKCS8EdDSAPrivateKey()", () => {
+	for (const [curve, type] of curves) {
+		const nodeKeyPair = nodeCrypto.generateKeyPairSync(type as "ed25519");
+		const der = new Uint8Array(nodeKeyPair.privateKey.export({ format: "der", type: "pkcs8" }));
+		const privateKey = decodePKCS8EdDSAPrivateKey(der, [ed25519, ed448]);
+		expect(privateKey.isCurve(curve)).toBe(true);
+		expect(privateKey.encodePKCS8()).toStrictEqual(der);
+		expect(() => decodePKCS8EdDSAPrivateKey(der, [])).toThrowError();
+	}
+});
+
+describe("EdDSAPublicKey", () => {
+	test("EdDSAPublicKey.encodePKIX()", () => {
+		for (const [curve] of curves) {
+			const keyPair = generateEdDSAKeyPair(random, curve);
+			const nodePrivateKey = nodeCrypto.createPrivateKey({
+				key: Buffer.from(keyPair.privateKey.encodePKCS8()),
+				format: "der",
+				type: "pkcs8"
+			});
+			const expected = nodeCrypto
+				.createPublicKey(nodePrivateKey)
+				.export({ format: "der", type: "spki" });
+			expect(keyPair.publicKey.encodePKIX()).toStrictEqual(new Uint8Array(expected));
+		}
+	});
+});
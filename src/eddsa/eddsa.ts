@@ -0,0 +1,418 @@
+/**
+ * EdDSA（Edwards-curve Digital Signature Algorithm）签名算法实现
+ * 
+ * 按照RFC 8032实现Ed25519和Ed448：
+ * - 私钥为size字节的随机种子，签名时通过哈希函数展开为标量s和前缀prefix
+ * - 签名是确定性的，随机数r由前缀和消息哈希得到
+ * - 签名为编码后的点R和小端序整数S的连接（Ed25519为64字节，Ed448为114字节）
+ * 
+ * 同时提供RFC 8410定义的PKIX公钥和PKCS#8私钥编码。
+ */
+import {
+	ASN1BitString,
+	ASN1Class,
+	ASN1EncodableSequence,
+	ASN1Form,
+	ASN1Integer,
+	ASN1ObjectIdentifier,
+	ASN1OctetString,
+	encodeASN1,
+	encodeObjectIdentifier,
+	parseASN1NoLeftoverBytes
+} from "@oslojs/asn1";
+import { decodeLittleEndian, encodeLittleEndian } from "./curve.js";
+import { constantTimeEqual } from "../subtle/index.js";
+
+import type { EdDSANamedCurve } from "./curve.js";
+import type { RandomReader } from "../random/index.js";
+
+/**
+ * 生成EdDSA密钥对
+ * 
+ * 私钥是size字节的随机字节串，公钥由私钥哈希后得到的标量计算。
+ * 
+ * @param random 随机数读取器，用于生成私钥
+ * @param curve EdDSA曲线
+ * @returns 包含私钥和公钥的密钥对
+ */
+export function generateEdDSAKeyPair(random: RandomReader, curve: EdDSANamedCurve): EdDSAKeyPair {
+	const bytes = new Uint8Array(curve.size);
+	random.read(bytes);
+	const privateKey = new EdDSAPrivateKey(curve, bytes);
+	return {
+		privateKey,
+		publicKey: new EdDSAPublicKey(curve, expandPrivateKey(privateKey).publicKey)
+	};
+}
+
+/**
+ * EdDSA密钥对
+ */
+export interface EdDSAKeyPair {
+	/**
+	 * 私钥
+	 */
+	privateKey: EdDSAPrivateKey;
+	
+	/**
+	 * 与私钥对应的公钥
+	 */
+	publicKey: EdDSAPublicKey;
+}
+
+/**
+ * 生成EdDSA签名（RFC 8032 5.1.6、5.2.6）
+ * 
+ * 签名过程：
+ * 1. 计算h = H(私钥)，由前半部分得到标量s，后半部分为prefix
+ * 2. 计算r = H(dom || prefix || M) mod L，R = r*B
+ * 3. 计算k = H(dom || R || A || M) mod L
+ * 4. 计算S = (r + k*s) mod L
+ * 5. 签名为R || S
+ * 
+ * 注意：标量乘法不是常数时间实现。
+ * 
+ * @param privateKey EdDSA私钥
+ * @param message 待签名的消息（不需要预先哈希）
+ * @param context 上下文（最多255字节）。Ed25519使用非空上下文时为Ed25519ctx
+ * @returns 签名（长度为2 * size）
+ */
+export function signEdDSA(
+	privateKey: EdDSAPrivateKey,
+	message: Uint8Array,
+	context: Uint8Array = new Uint8Array()
+): Uint8Array {
+	if (context.byteLength > 255) {
+		throw new TypeError("Invalid context");
+	}
+	const curve = privateKey.curve;
+	const expanded = expandPrivateKey(privateKey);
+	
+	const dom = curve.dom(context);
+	const r = decodeLittleEndian(curve.hash(dom, expanded.prefix, message)) % curve.n;
+	const encodedR = curve.encodePoint(curve.multiply(r, curve.g));
+	
+	const k =
+		decodeLittleEndian(curve.hash(dom, encodedR, expanded.publicKey, message)) % curve.n;
+	const s = (r + k * expanded.s) % curve.n;
+	
+	const signature = new Uint8Array(curve.size * 2);
+	signature.set(encodedR);
+	signature.set(encodeLittleEndian(s, curve.size), curve.size);
+	return signature;
+}
+
+/**
+ * 验证EdDSA签名（RFC 8032 5.1.7、5.2.7）
+ * 
+ * 验证过程：
+ * 1. 解码公钥A和点R，检查S < L
+ * 2. 计算k = H(dom || R || A || M) mod L
+ * 3. 检查 [c][S]B = [c]R + [c][k]A，其中c为余因子
+ * 
+ * @param publicKey EdDSA公钥
+ * @param message 消息
+ * @param signature 待验证的签名
+ * @param context 上下文，必须与签名时使用的上下文相同
+ * @returns 签名是否有效
+ */
+export function verifyEdDSASignature(
+	publicKey: EdDSAPublicKey,
+	message: Uint8Array,
+	signature: Uint8Array,
+	context: Uint8Array = new Uint8Array()
+): boolean {
+	const curve = publicKey.curve;
+	if (context.byteLength > 255 || signature.byteLength !== curve.size * 2) {
+		return false;
+	}
+	const a = curve.decodePoint(publicKey.bytes);
+	if (a === null) {
+		return false;
+	}
+	const encodedR = signature.slice(0, curve.size);
+	const r = curve.decodePoint(encodedR);
+	if (r === null) {
+		return false;
+	}
+	const s = decodeLittleEndian(signature.slice(curve.size));
+	if (s >= curve.n) {
+		return false;
+	}
+	
+	const k =
+		decodeLittleEndian(curve.hash(curve.dom(context), encodedR, publicKey.bytes, message)) %
+		curve.n;
+	
+	// [c][S]B
+	const left = curve.multiply(curve.cofactor * s, curve.g);
+	// [c]R + [c][k]A
+	const right = curve.add(curve.multiply(curve.cofactor, r), curve.multiply(curve.cofactor * k, a));
+	return left.x === right.x && left.y === right.y;
+}
+
+/**
+ * EdDSA公钥类
+ * 
+ * 公钥以RFC 8032编码的点（size字节）保存。
+ */
+export class EdDSAPublicKey {
+	/**
+	 * 公钥所属的曲线
+	 */
+	public curve: EdDSANamedCurve;
+	
+	/**
+	 * 编码后的公钥点
+	 */
+	public bytes: Uint8Array;
+
+	/**
+	 * 创建EdDSA公钥
+	 * 
+	 * @param curve EdDSA曲线
+	 * @param bytes 编码后的公钥（长度必须为curve.size）
+	 * @throws 如果长度无效
+	 */
+	constructor(curve: EdDSANamedCurve, bytes: Uint8Array) {
+		if (bytes.byteLength !== curve.size) {
+			throw new TypeError("Invalid public key");
+		}
+		this.curve = curve;
+		this.bytes = bytes;
+	}
+
+	/**
+	 * 检查公钥是否属于指定曲线
+	 * 
+	 * @param curve 要比较的曲线
+	 * @returns 如果对象标识符相同则返回true
+	 */
+	public isCurve(curve: EdDSANamedCurve): boolean {
+		return this.curve.objectIdentifier === curve.objectIdentifier;
+	}
+
+	/**
+	 * 将公钥编码为PKIX格式（RFC 8410）
+	 * 
+	 * SubjectPublicKeyInfo ::= SEQUENCE {
+	 *   algorithm         AlgorithmIdentifier,  -- 不包含参数
+	 *   subjectPublicKey  BIT STRING
+	 * }
+	 * 
+	 * @returns PKIX格式的DER编码公钥
+	 */
+	public encodePKIX(): Uint8Array {
+		const algorithmIdentifier = new ASN1EncodableSequence([
+			new ASN1ObjectIdentifier(encodeObjectIdentifier(this.curve.objectIdentifier))
+		]);
+		const subjectPublicKey = new ASN1BitString(this.bytes, this.bytes.byteLength * 8);
+		return encodeASN1(new ASN1EncodableSequence([algorithmIdentifier, subjectPublicKey]));
+	}
+}
+
+/**
+ * EdDSA私钥类
+ * 
+ * 私钥以RFC 8032中的size字节随机字节串保存。
+ */
+export class EdDSAPrivateKey {
+	/**
+	 * 私钥所属的曲线
+	 */
+	public curve: EdDSANamedCurve;
+	
+	/**
+	 * 私钥字节串
+	 */
+	public bytes: Uint8Array;
+
+	/**
+	 * 创建EdDSA私钥
+	 * 
+	 * @param curve EdDSA曲线
+	 * @param bytes 私钥（长度必须为curve.size）
+	 * @throws 如果长度无效
+	 */
+	constructor(curve: EdDSANamedCurve, bytes: Uint8Array) {
+		if (bytes.byteLength !== curve.size) {
+			throw new TypeError("Invalid private key");
+		}
+		this.curve = curve;
+		this.bytes = bytes;
+	}
+
+	/**
+	 * 检查私钥是否属于指定曲线
+	 * 
+	 * @param curve 要比较的曲线
+	 * @returns 如果对象标识符相同则返回true
+	 */
+	public isCurve(curve: EdDSANamedCurve): boolean {
+		return this.curve.objectIdentifier === curve.objectIdentifier;
+	}
+
+	/**
+	 * 将私钥编码为PKCS#8格式（RFC 8410）
+	 * 
+	 * PrivateKeyInfo ::= SEQUENCE {
+	 *   version              INTEGER,  -- 0
+	 *   privateKeyAlgorithm  AlgorithmIdentifier,  -- 不包含参数
+	 *   privateKey           OCTET STRING  -- 包含CurvePrivateKey（OCTET STRING）
+	 * }
+	 * 
+	 * @returns PKCS#8格式的DER编码私钥
+	 */
+	public encodePKCS8(): Uint8Array {
+		const algorithmIdentifier = new ASN1EncodableSequence([
+			new ASN1ObjectIdentifier(encodeObjectIdentifier(this.curve.objectIdentifier))
+		]);
+		const curvePrivateKey = encodeASN1(new ASN1OctetString(this.bytes));
+		return encodeASN1(
+			new ASN1EncodableSequence([
+				new ASN1Integer(0n),
+				algorithmIdentifier,
+				new ASN1OctetString(curvePrivateKey)
+			])
+		);
+	}
+}
+
+/**
+ * 从PKIX格式解码EdDSA公钥（RFC 8410）
+ * 
+ * @param der PKIX格式的DER编码公钥
+ * @param curves 允许的曲线列表
+ * @returns EdDSA公钥
+ * @throws 如果解码失败或曲线不在允许列表中
+ */
+export function decodePKIXEdDSAPublicKey(der: Uint8Array, curves: EdDSANamedCurve[]): EdDSAPublicKey {
+	let algorithm: ASN1ObjectIdentifier;
+	let publicKey: Uint8Array;
+	try {
+		const subjectPublicKeyInfo = parseASN1NoLeftoverBytes(der).sequence();
+		const algorithmIdentifier = subjectPublicKeyInfo.at(0).sequence();
+		if (algorithmIdentifier.elements.length !== 1) {
+			throw new Error("Invalid algorithm identifier");
+		}
+		algorithm = algorithmIdentifier.at(0).objectIdentifier();
+		const subjectPublicKey = subjectPublicKeyInfo.at(1).bitString();
+		if (subjectPublicKey.length !== subjectPublicKey.bytes.byteLength * 8) {
+			throw new Error("Invalid public key");
+		}
+		publicKey = subjectPublicKey.bytes;
+	} catch {
+		throw new Error("Failed to decode EdDSA public key");
+	}
+	for (const curve of curves) {
+		if (algorithm.is(curve.objectIdentifier)) {
+			if (publicKey.byteLength !== curve.size || curve.decodePoint(publicKey) === null) {
+				throw new Error("Invalid public key");
+			}
+			return new EdDSAPublicKey(curve, publicKey);
+		}
+	}
+	throw new Error("No matching curves");
+}
+
+/**
+ * 从PKCS#8格式解码EdDSA私钥（RFC 8410）
+ * 
+ * 同时接受RFC 5958中version为1的OneAsymmetricKey结构。
+ * 如果包含可选的公钥字段，会检查其是否与私钥匹配。
+ * 
+ * @param der PKCS#8格式的DER编码私钥
+ * @param curves 允许的曲线列表
+ * @returns EdDSA私钥
+ * @throws 如果解码失败、曲线不在允许列表中或公钥与私钥不匹配
+ */
+export function decodePKCS8EdDSAPrivateKey(
+	der: Uint8Array,
+	curves: EdDSANamedCurve[]
+): EdDSAPrivateKey {
+	let algorithm: ASN1ObjectIdentifier;
+	let privateKeyBytes: Uint8Array;
+	let publicKeyBytes: Uint8Array | null = null;
+	try {
+		const privateKeyInfo = parseASN1NoLeftoverBytes(der).sequence();
+		const version = privateKeyInfo.at(0).integer().value;
+		if (version !== 0n && version !== 1n) {
+			throw new Error("Invalid version");
+		}
+		const algorithmIdentifier = privateKeyInfo.at(1).sequence();
+		if (algorithmIdentifier.elements.length !== 1) {
+			throw new Error("Invalid algorithm identifier");
+		}
+		algorithm = algorithmIdentifier.at(0).objectIdentifier();
+		const curvePrivateKey = privateKeyInfo.at(2).octetString().value;
+		privateKeyBytes = parseASN1NoLeftoverBytes(curvePrivateKey).octetString().value;
+		
+		// 解析可选的[0] attributes和[1] publicKey字段
+		for (let i = 3; i < privateKeyInfo.elements.length; i++) {
+			const element = privateKeyInfo.elements[i];
+			if (element.class !== ASN1Class.ContextSpecific) {
+				throw new Error("Invalid element");
+			}
+			if (element.tag === 1 && element.form === ASN1Form.Primitive) {
+				// [1] IMPLICIT BIT STRING，第一个字节为未使用的位数
+				const contents = element.contents();
+				if (contents.byteLength < 1 || contents[0] !== 0) {
+					throw new Error("Invalid public key");
+				}
+				publicKeyBytes = contents.slice(1);
+			} else if (element.tag !== 0) {
+				throw new Error("Invalid element");
+			}
+		}
+	} catch {
+		throw new Error("Failed to decode EdDSA private key");
+	}
+	for (const curve of curves) {
+		if (algorithm.is(curve.objectIdentifier)) {
+			if (privateKeyBytes.byteLength !== curve.size) {
+				throw new Error("Invalid private key");
+			}
+			const privateKey = new EdDSAPrivateKey(curve, privateKeyBytes);
+			if (
+				publicKeyBytes !== null &&
+				!constantTimeEqual(publicKeyBytes, expandPrivateKey(privateKey).publicKey)
+			) {
+				throw new Error("Public key does not match private key");
+			}
+			return privateKey;
+		}
+	}
+	throw new Error("No matching curves");
+}
+
+/**
+ * 展开后的EdDSA私钥
+ */
+interface ExpandedPrivateKey {
+	s: bigint;
+	prefix: Uint8Array;
+	publicKey: Uint8Array;
+}
+
+/**
+ * 展开私钥（RFC 8032 5.1.5、5.2.5）
+ * 
+ * 1. 计算h = H(私钥)
+ * 2. 对h的前半部分进行位修剪得到标量s
+ * 3. h的后半部分作为签名时使用的prefix
+ * 4. 公钥为A = s*B的编码
+ * 
+ * @param privateKey EdDSA私钥
+ * @returns 标量s、prefix和编码后的公钥
+ */
+function expandPrivateKey(privateKey: EdDSAPrivateKey): ExpandedPrivateKey {
+	const curve = privateKey.curve;
+	// 私钥哈希不使用dom前缀
+	const h = curve.hash(privateKey.bytes);
+	const s = curve.clampScalar(h.slice(0, curve.size));
+	return {
+		s,
+		prefix: h.slice(curve.size),
+		publicKey: curve.encodePoint(curve.multiply(s, curve.g))
+	};
+}
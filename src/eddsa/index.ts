@@ -0,0 +1,48 @@
+/**
+ * EdDSA 爱德华兹曲线数字签名算法模块
+ * 
+ * EdDSA（Edwards-curve Digital Signature Algorithm）是基于扭曲爱德华兹曲线的数字签名算法，
+ * 定义于RFC 8032。与ECDSA相比，EdDSA具有以下特点：
+ * 1. 签名是确定性的，不依赖签名时的随机数
+ * 2. 直接对消息签名，哈希函数是算法的一部分
+ * 3. 曲线的加法公式是完备的，实现更简单
+ * 4. 广泛应用于SSH、TLS 1.3、JWT等协议
+ * 
+ * 本模块提供了Ed25519和Ed448的密钥生成、签名、验证以及PKIX/PKCS#8编解码功能。
+ */
+
+// 导出EdDSA核心功能和数据结构
+export {
+	// 解码PKIX（X.509）格式的EdDSA公钥
+	decodePKIXEdDSAPublicKey,
+	
+	// 解码PKCS#8格式的EdDSA私钥
+	decodePKCS8EdDSAPrivateKey,
+	
+	// EdDSA公钥类型，包含曲线信息和编码后的公钥点
+	EdDSAPublicKey,
+	
+	// EdDSA私钥类型，包含曲线信息和私钥字节串
+	EdDSAPrivateKey,
+	
+	// 生成EdDSA密钥对的函数
+	generateEdDSAKeyPair,
+	
+	// 生成EdDSA签名的函数
+	signEdDSA,
+	
+	// 验证EdDSA签名的函数
+	verifyEdDSASignature
+} from "./eddsa.js";
+
+// 导出EdDSA密钥对类型
+export type { EdDSAKeyPair } from "./eddsa.js";
+
+// 导出RFC 8032定义的曲线
+export {
+	ed25519, // Ed25519，使用SHA-512，安全性约128位
+	ed448 // Ed448，使用SHAKE256，安全性约224位
+} from "./curve-rfc8032.js";
+
+// 导出EdDSA曲线通用类型
+export { EdDSANamedCurve, EdDSAPoint } from "./curve.js";
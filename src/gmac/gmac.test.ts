@@ -0,0 +1,65 @@
+import { expect, test } from "vitest";
+import { gmac, GMAC } from "./gmac.js";
+import { concat, testClone } from "../hash/test-utils.js";
+import * as nodeCrypto from "node:crypto";
+
+test("gmac()", () => {
+	for (const keySize of [16, 24, 32]) {
+		for (const nonceSize of [1, 8, 12, 16, 60]) {
+			for (const dataSize of [0, 1, 15, 16, 17, 100]) {
+				const key = crypto.getRandomValues(new Uint8Array(keySize));
+				const nonce = crypto.getRandomValues(new Uint8Array(nonceSize));
+				const data = crypto.getRandomValues(new Uint8Array(dataSize));
+				const cipher = nodeCrypto.createCipheriv(
+					`aes-${keySize * 8}-gcm` as nodeCrypto.CipherGCMTypes,
+					key,
+					nonce
+				);
+				cipher.setAAD(data);
+				cipher.final();
+				const expected = new Uint8Array(cipher.getAuthTag());
+				expect(gmac(key, nonce, data)).toStrictEqual(expected);
+			}
+		}
+	}
+});
+
+test("GMAC.update()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const randomValues = crypto.getRandomValues(new Uint8Array(100));
+	for (let i = 0; i < randomValues.byteLength + 1; i++) {
+		const data = randomValues.slice(0, i);
+		const mac = new GMAC(key, nonce);
+		for (let j = 0; j < data.byteLength; j += 7) {
+			mac.update(data.subarray(j, j + 7));
+		}
+		expect(mac.digest()).toStrictEqual(gmac(key, nonce, data));
+	}
+});
+
+test("GMAC.digest() does not modify state", () => {
+	const key = crypto.getRandomValues(new Uint8Array(16));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	const data1 = crypto.getRandomValues(new Uint8Array(20));
+	const data2 = crypto.getRandomValues(new Uint8Array(25));
+	const mac = new GMAC(key, nonce);
+	mac.update(data1);
+	expect(mac.digest()).toStrictEqual(gmac(key, nonce, data1));
+	mac.update(data2);
+	expect(mac.digest()).toStrictEqual(gmac(key, nonce, concat(data1, data2)));
+});
+
+test("GMAC.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const nonce = crypto.getRandomValues(new Uint8Array(12));
+	testClone(
+		() => new GMAC(key, nonce),
+		(data) => gmac(key, nonce, data)
+	);
+});
+
+test("GMAC with invalid parameters", () => {
+	expect(() => new GMAC(new Uint8Array(20), new Uint8Array(12))).toThrowError("Invalid key length");
+	expect(() => new GMAC(new Uint8Array(16), new Uint8Array(0))).toThrowError("Invalid nonce");
+});
@@ -0,0 +1,98 @@
+/**
+ * AES-GMAC 实现模块（NIST SP 800-38D）
+ *
+ * GMAC是只认证不加密的GCM：将所有数据作为附加数据，明文为空。
+ * 1. 哈希子密钥H = AES(K, 0^128)，由nonce派生初始计数器块J0
+ * 2. S = GHASH(A || 填充 || [len(A)]_64 || [0]_64)
+ * 3. 认证码 = AES(K, J0) ⊕ S
+ *
+ * 与GCM相同，同一个密钥下nonce绝对不能重复使用，否则攻击者可以恢复H并伪造认证码。
+ * 输出为16字节。
+ */
+
+import { bigEndian } from "@oslojs/binary";
+import { AES } from "../aes/aes.js";
+import { GHASH, initialCounterBlock } from "../aes/ghash.js";
+
+import type { Hash } from "../hash/index.js";
+
+/**
+ * 计算AES-GMAC
+ *
+ * @example
+ * const nonce = new Uint8Array(12);
+ * crypto.getRandomValues(nonce);
+ * const mac = gmac(key, nonce, data);
+ *
+ * @param key 16、24或32字节的密钥
+ * @param nonce 非空的nonce（推荐12字节），同一个密钥下不能重复
+ * @param data 要认证的消息
+ * @returns 16字节的认证码
+ * @throws TypeError 如果密钥或nonce长度无效
+ */
+export function gmac(key: Uint8Array, nonce: Uint8Array, data: Uint8Array): Uint8Array {
+	const mac = new GMAC(key, nonce);
+	mac.update(data);
+	return mac.digest();
+}
+
+/**
+ * AES-GMAC类 - 支持流式处理数据
+ */
+export class GMAC implements Hash {
+	public blockSize = 16;
+	public size = 16;
+
+	private ghash: GHASH;
+
+	/**
+	 * 加密后的初始计数器块AES(K, J0)
+	 */
+	private mask: Uint8Array;
+
+	/**
+	 * 已添加数据的大小（字节）
+	 */
+	private dataLength = 0;
+
+	/**
+	 * @param key 16、24或32字节的密钥
+	 * @param nonce 非空的nonce（推荐12字节），同一个密钥下不能重复
+	 * @throws TypeError 如果密钥或nonce长度无效
+	 */
+	constructor(key: Uint8Array, nonce: Uint8Array) {
+		const aes = new AES(key);
+		const h = aes.encryptBlock(new Uint8Array(16));
+		this.mask = aes.encryptBlock(initialCounterBlock(h, nonce));
+		this.ghash = new GHASH(h);
+	}
+
+	public update(data: Uint8Array): void {
+		this.ghash.update(data);
+		this.dataLength += data.byteLength;
+	}
+
+	public digest(): Uint8Array {
+		const ghash = this.ghash.clone();
+		ghash.pad();
+		const lengthBlock = new Uint8Array(16);
+		bigEndian.putUint64(lengthBlock, BigInt(this.dataLength) * 8n, 0);
+		ghash.update(lengthBlock);
+		const result = ghash.digest();
+		for (let i = 0; i < 16; i++) {
+			result[i] ^= this.mask[i];
+		}
+		return result;
+	}
+
+	public clone(): GMAC {
+		// 不重新派生哈希子密钥
+		const mac = Object.create(GMAC.prototype) as GMAC;
+		mac.blockSize = this.blockSize;
+		mac.size = this.size;
+		mac.ghash = this.ghash.clone();
+		mac.mask = this.mask;
+		mac.dataLength = this.dataLength;
+		return mac;
+	}
+}
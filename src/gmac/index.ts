@@ -0,0 +1,9 @@
+/**
+ * GMAC 消息认证码模块
+ *
+ * AES-GMAC（NIST SP 800-38D）是只认证不加密的AES-GCM，
+ * 速度快，但每次计算都需要一个不重复的nonce。
+ */
+
+// 导出GMAC函数和类
+export { gmac, GMAC } from "./gmac.js";
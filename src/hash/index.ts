@@ -65,6 +65,26 @@ export interface Hash {
 	 * @returns 计算得到的哈希值（二进制格式）
 	 */
 	digest: () => Uint8Array;
+	
+	/**
+	 * 复制当前的哈希计算状态
+	 * 
+	 * 返回的实例与原实例互相独立，可以分别继续添加数据。
+	 * 适用于对公共前缀只计算一次，然后分叉计算多个哈希值的场景，
+	 * 例如协议中的握手记录（transcript）哈希，或预先计算HMAC的填充密钥。
+	 * 
+	 * 本库中的所有哈希实现都提供此方法。为了兼容第三方的Hash实现，它是可选的，
+	 * PBKDF2等算法在哈希实例没有此方法时会退回到不复制状态的计算方式。
+	 * 
+	 * 举例：
+	 * hash.update(prefix);
+	 * const branch = hash.clone();
+	 * hash.update(a); // H(prefix || a)
+	 * branch.update(b); // H(prefix || b)
+	 * 
+	 * @returns 状态相同的新哈希实例
+	 */
+	clone?: () => Hash;
 }
 
 /**
@@ -0,0 +1,35 @@
+// Helpers shared by the hash and MAC tests. Excluded from the build.
+
+import { expect } from "vitest";
+
+import type { Hash } from "./index.js";
+
+/**
+ * Checks that a copy made with clone() after a common prefix can be updated
+ * independently of the original.
+ */
+export function testClone(
+	createHash: () => Hash & { clone: () => Hash },
+	hash: (data: Uint8Array) => Uint8Array
+): void {
+	const randomValues = crypto.getRandomValues(new Uint8Array(600));
+	for (let i = 0; i < 20; i++) {
+		const prefix = randomValues.slice(0, i * 13);
+		const a = randomValues.slice(300, 300 + i * 7);
+		const b = randomValues.slice(450, 450 + i * 5);
+		const original = createHash();
+		original.update(prefix);
+		const branch = original.clone();
+		original.update(a);
+		branch.update(b);
+		expect(original.digest()).toStrictEqual(hash(concat(prefix, a)));
+		expect(branch.digest()).toStrictEqual(hash(concat(prefix, b)));
+	}
+}
+
+export function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+	const result = new Uint8Array(a.byteLength + b.byteLength);
+	result.set(a);
+	result.set(b, a.byteLength);
+	return result;
+}
@@ -0,0 +1,59 @@
+import { expect, test } from "vitest";
+import { hkdf, hkdfExpand, hkdfExtract } from "./index.js";
+import { SHA1 } from "../sha1/index.js";
+import { SHA256, SHA384, SHA512 } from "../sha2/index.js";
+import { SHA3_256 } from "../sha3/index.js";
+import { hmac } from "../hmac/index.js";
+import * as nodeCrypto from "node:crypto";
+
+import type { HashAlgorithm } from "../hash/index.js";
+
+const algorithms: [HashAlgorithm, string][] = [
+	[SHA1, "sha1"],
+	[SHA256, "sha256"],
+	[SHA384, "sha384"],
+	[SHA512, "sha512"],
+	[SHA3_256, "sha3-256"]
+];
+
+test("hkdf()", () => {
+	for (const [Hash, name] of algorithms) {
+		const size = new Hash().size;
+		for (const length of [0, 1, size - 1, size, size + 1, size * 3, size * 255]) {
+			const salt = crypto.getRandomValues(new Uint8Array(16));
+			const ikm = crypto.getRandomValues(new Uint8Array(32));
+			const info = crypto.getRandomValues(new Uint8Array(10));
+			const expected = new Uint8Array(nodeCrypto.hkdfSync(name, ikm, salt, info, length));
+			expect(hkdf(Hash, salt, ikm, info, length)).toStrictEqual(expected);
+		}
+	}
+});
+
+test("hkdf() with empty salt", () => {
+	const ikm = crypto.getRandomValues(new Uint8Array(32));
+	const expected = new Uint8Array(
+		nodeCrypto.hkdfSync("sha256", ikm, new Uint8Array(), new Uint8Array(), 42)
+	);
+	expect(hkdf(SHA256, new Uint8Array(), ikm, new Uint8Array(), 42)).toStrictEqual(expected);
+});
+
+test("hkdfExtract()", () => {
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const ikm = crypto.getRandomValues(new Uint8Array(32));
+	expect(hkdfExtract(SHA256, salt, ikm)).toStrictEqual(hmac(SHA256, salt, ikm));
+	expect(hkdfExtract(SHA256, new Uint8Array(), ikm)).toStrictEqual(
+		hmac(SHA256, new Uint8Array(32), ikm)
+	);
+});
+
+test("hkdfExpand()", () => {
+	const prk = crypto.getRandomValues(new Uint8Array(32));
+	const info = new TextEncoder().encode("info");
+	const okm = hkdfExpand(SHA256, prk, info, 64);
+	expect(okm.slice(0, 32)).toStrictEqual(hmac(SHA256, prk, new Uint8Array([...info, 0x01])));
+	expect(okm.slice(32)).toStrictEqual(
+		hmac(SHA256, prk, new Uint8Array([...okm.slice(0, 32), ...info, 0x02]))
+	);
+	expect(() => hkdfExpand(SHA256, prk, info, 255 * 32 + 1)).toThrowError();
+	expect(() => hkdfExpand(SHA256, prk, info, -1)).toThrowError();
+});
@@ -0,0 +1,99 @@
+/**
+ * HKDF（基于HMAC的密钥派生函数）实现模块
+ *
+ * HKDF定义于RFC 5869，用于从输入密钥材料（如Diffie-Hellman共享密钥）派生出一个或多个
+ * 密码学强度的密钥。它分为两个步骤：
+ * 1. 提取（Extract）：PRK = HMAC-Hash(salt, IKM)，将输入密钥材料浓缩为固定长度的伪随机密钥
+ * 2. 扩展（Expand）：T(i) = HMAC-Hash(PRK, T(i-1) || info || i)，将伪随机密钥扩展为所需长度的输出
+ *
+ * info参数用于将派生出的密钥绑定到特定的应用或用途上，
+ * 使用不同的info可以从同一个PRK派生出相互独立的多个密钥。
+ */
+import { HMAC } from "../hmac/index.js";
+
+import type { HashAlgorithm } from "../hash/index.js";
+
+/**
+ * HKDF - 一次完成提取和扩展
+ *
+ * @example
+ * // 从共享密钥派生32字节的加密密钥
+ * import { SHA256 } from "note-crypto";
+ * const info = new TextEncoder().encode("encryption key");
+ * const key = hkdf(SHA256, salt, sharedSecret, info, 32);
+ *
+ * @param Hash 哈希算法构造函数
+ * @param salt 盐值（可以为空，此时使用HashLen个零字节）
+ * @param ikm 输入密钥材料
+ * @param info 应用相关的上下文信息（可以为空）
+ * @param length 输出长度（字节），不能超过255 * HashLen
+ * @returns 长度为length的输出密钥材料
+ * @throws 如果输出长度无效
+ */
+export function hkdf(
+	Hash: HashAlgorithm,
+	salt: Uint8Array,
+	ikm: Uint8Array,
+	info: Uint8Array,
+	length: number
+): Uint8Array {
+	const prk = hkdfExtract(Hash, salt, ikm);
+	return hkdfExpand(Hash, prk, info, length);
+}
+
+/**
+ * HKDF提取步骤（RFC 5869 2.2节）
+ *
+ * PRK = HMAC-Hash(salt, IKM)
+ *
+ * @param Hash 哈希算法构造函数
+ * @param salt 盐值（可以为空，此时使用HashLen个零字节）
+ * @param ikm 输入密钥材料
+ * @returns 伪随机密钥PRK（长度为HashLen）
+ */
+export function hkdfExtract(Hash: HashAlgorithm, salt: Uint8Array, ikm: Uint8Array): Uint8Array {
+	if (salt.byteLength === 0) {
+		salt = new Uint8Array(new Hash().size);
+	}
+	const mac = new HMAC(Hash, salt);
+	mac.update(ikm);
+	return mac.digest();
+}
+
+/**
+ * HKDF扩展步骤（RFC 5869 2.3节）
+ *
+ * T(0) = 空字符串
+ * T(i) = HMAC-Hash(PRK, T(i-1) || info || i)，其中i为单字节计数器（1到255）
+ * OKM = T(1) || T(2) || ... 的前length个字节
+ *
+ * @param Hash 哈希算法构造函数
+ * @param prk 伪随机密钥，通常是hkdfExtract()的输出
+ * @param info 应用相关的上下文信息（可以为空）
+ * @param length 输出长度（字节），不能超过255 * HashLen
+ * @returns 长度为length的输出密钥材料
+ * @throws 如果输出长度无效
+ */
+export function hkdfExpand(
+	Hash: HashAlgorithm,
+	prk: Uint8Array,
+	info: Uint8Array,
+	length: number
+): Uint8Array {
+	const hashSize = new Hash().size;
+	if (!Number.isInteger(length) || length < 0 || length > 255 * hashSize) {
+		throw new TypeError("Invalid output length");
+	}
+	const okm = new Uint8Array(length);
+	let t: Uint8Array = new Uint8Array(0);
+	for (let i = 1, offset = 0; offset < length; i++) {
+		const mac = new HMAC(Hash, prk);
+		mac.update(t);
+		mac.update(info);
+		mac.update(new Uint8Array([i]));
+		t = mac.digest();
+		okm.set(t.subarray(0, Math.min(hashSize, length - offset)), offset);
+		offset += hashSize;
+	}
+	return okm;
+}
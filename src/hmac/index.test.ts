@@ -1,8 +1,11 @@
 import { expect, test, describe } from "vitest";
-import { HMAC } from "./index.js";
+import { hmac, HMAC } from "./index.js";
 import { SHA1 } from "../sha1/index.js";
 import { SHA256 } from "../sha2/sha256.js";
 import { SHA512 } from "../sha2/sha512.js";
+import { testClone } from "../hash/test-utils.js";
+
+import type { Hash } from "../hash/index.js";
 
 describe("HMAC", () => {
 	test("SHA-1", async () => {
@@ -122,3 +125,36 @@ async function createWebCryptoKey(key: Uint8Array, hash: string): Promise<Crypto
 	);
 	return cryptoKey;
 }
+
+test("HMAC.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	testClone(
+		() => new HMAC(SHA256, key),
+		(data) => hmac(SHA256, key, data)
+	);
+});
+
+test("HMAC with hash without clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	expect(hmac(ThirdPartySHA256, key, data)).toStrictEqual(hmac(SHA256, key, data));
+	expect(() => new HMAC(ThirdPartySHA256, key).clone()).toThrowError(TypeError);
+});
+
+/**
+ * A third-party hash implementation that does not implement clone()
+ */
+class ThirdPartySHA256 implements Hash {
+	public blockSize = 64;
+	public size = 32;
+
+	private hash = new SHA256();
+
+	public update(data: Uint8Array): void {
+		this.hash.update(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.hash.digest();
+	}
+}
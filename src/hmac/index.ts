@@ -57,8 +57,8 @@ export function hmac(Hash: HashAlgorithm, key: Uint8Array, data: Uint8Array): Ui
  */
 export class HMAC implements Hash {
 	/**
-	 * 内部哈希函数实例
-	 * 用于计算最终的HMAC值
+	 * 外部哈希函数实例
+	 * 构造时已经吸收了外部填充密钥，用于计算最终的HMAC值
 	 */
 	private hash: Hash;
 	
@@ -73,12 +73,6 @@ export class HMAC implements Hash {
 	 * 在update方法中使用
 	 */
 	private innerHash: Hash;
-	
-	/**
-	 * 外部填充处理过的密钥
-	 * 将在最终digest时与innerHash的结果组合
-	 */
-	private outerKey: Uint8Array;
 
 	/**
 	 * 构造HMAC对象
@@ -88,7 +82,7 @@ export class HMAC implements Hash {
 	 * 2. 如果密钥长度小于哈希块大小，则用0填充到块大小
 	 * 3. 准备内部和外部密钥：K ⊕ ipad 和 K ⊕ opad
 	 * 4. 使用内部密钥初始化innerHash
-	 * 5. 保存外部密钥以供后续使用
+	 * 5. 使用外部密钥初始化hash，这样复制HMAC时不需要重新处理两个填充密钥
 	 * 
 	 * @param Hash 哈希算法构造函数（如SHA-256）
 	 * @param key HMAC密钥
@@ -118,11 +112,11 @@ export class HMAC implements Hash {
 		
 		// 创建内部密钥和外部密钥缓冲区（块大小长度）
 		const innerKey = new Uint8Array(blockSize);
-		this.outerKey = new Uint8Array(blockSize);
+		const outerKey = new Uint8Array(blockSize);
 		
 		// 如果密钥短于块大小，其余部分已经是0（Uint8Array默认用0填充）
 		innerKey.set(processedKey);
-		this.outerKey.set(processedKey);
+		outerKey.set(processedKey);
 		
 		// 应用内部填充（K' ⊕ ipad，其中ipad是0x36重复）
 		for (let i = 0; i < blockSize; i++) {
@@ -131,11 +125,14 @@ export class HMAC implements Hash {
 		
 		// 应用外部填充（K' ⊕ opad，其中opad是0x5c重复）
 		for (let i = 0; i < blockSize; i++) {
-			this.outerKey[i] ^= 0x5c;
+			outerKey[i] ^= 0x5c;
 		}
 		
 		// 开始内部哈希计算，处理内部密钥
 		this.innerHash.update(innerKey);
+		
+		// 开始外部哈希计算，处理外部密钥
+		this.hash.update(outerKey);
 	}
 
 	/**
@@ -172,8 +169,7 @@ export class HMAC implements Hash {
 	 * 
 	 * 计算过程：
 	 * 1. 完成内部哈希计算：H((K' ⊕ ipad) || m)
-	 * 2. 初始化最终哈希计算，处理外部密钥：(K' ⊕ opad)
-	 * 3. 将内部哈希结果添加到最终哈希：H((K' ⊕ opad) || H((K' ⊕ ipad) || m))
+	 * 2. 将内部哈希结果添加到已经处理了外部密钥的最终哈希：H((K' ⊕ opad) || H((K' ⊕ ipad) || m))
 	 * 
 	 * @returns HMAC值（长度与哈希函数输出长度相同）
 	 */
@@ -186,13 +182,31 @@ export class HMAC implements Hash {
 		// 获取内部哈希结果
 		const innerHash = this.innerHash.digest();
 		
-		// 重新初始化哈希对象，先处理外部密钥
-		this.hash.update(this.outerKey);
-		
-		// 然后添加内部哈希结果
+		// 添加内部哈希结果（外部密钥已在构造时处理）
 		this.hash.update(innerHash);
 		
 		// 返回最终HMAC结果
 		return this.hash.digest();
 	}
+
+	/**
+	 * 复制当前的HMAC计算状态
+	 * 
+	 * 复制的是已经吸收了内部和外部填充密钥的哈希状态，因此不需要重新处理密钥。
+	 * 对同一个密钥计算多条消息的HMAC时（例如PBKDF2），可以复制一个预先构造的实例。
+	 * 
+	 * @returns 状态相同的新HMAC实例
+	 * @throws TypeError 如果哈希函数不支持clone()
+	 */
+	public clone(): HMAC {
+		if (this.hash.clone === undefined || this.innerHash.clone === undefined) {
+			throw new TypeError("Hash does not support clone()");
+		}
+		// 不调用构造函数，避免重新处理密钥
+		const hmac = Object.create(HMAC.prototype) as HMAC;
+		hmac.hash = this.hash.clone();
+		hmac.initialized = this.initialized;
+		hmac.innerHash = this.innerHash.clone();
+		return hmac;
+	}
 }
@@ -0,0 +1,71 @@
+import { expect, test } from "vitest";
+import { pbkdf2 } from "./index.js";
+import { SHA1 } from "../sha1/index.js";
+import { SHA256, SHA512 } from "../sha2/index.js";
+import { SHA3_256 } from "../sha3/index.js";
+import * as nodeCrypto from "node:crypto";
+
+import type { Hash, HashAlgorithm } from "../hash/index.js";
+
+const algorithms: [HashAlgorithm, string][] = [
+	[SHA1, "sha1"],
+	[SHA256, "sha256"],
+	[SHA512, "sha512"],
+	[SHA3_256, "sha3-256"]
+];
+
+test("pbkdf2()", () => {
+	for (const [Hash, name] of algorithms) {
+		const size = new Hash().size;
+		for (const passwordLength of [0, 8, 200]) {
+			const password = crypto.getRandomValues(new Uint8Array(passwordLength));
+			const salt = crypto.getRandomValues(new Uint8Array(16));
+			for (const [iterations, keyLength] of [
+				[1, size],
+				[10, 0],
+				[10, 1],
+				[10, size + 1],
+				[100, size * 3]
+			]) {
+				const expected = new Uint8Array(
+					nodeCrypto.pbkdf2Sync(password, salt, iterations, keyLength, name)
+				);
+				expect(pbkdf2(Hash, password, salt, iterations, keyLength)).toStrictEqual(expected);
+			}
+		}
+	}
+});
+
+test("pbkdf2() with invalid parameters", () => {
+	const password = new TextEncoder().encode("password");
+	const salt = new TextEncoder().encode("salt");
+	expect(() => pbkdf2(SHA256, password, salt, 0, 32)).toThrowError();
+	expect(() => pbkdf2(SHA256, password, salt, 1.5, 32)).toThrowError();
+	expect(() => pbkdf2(SHA256, password, salt, 1, -1)).toThrowError();
+});
+
+test("pbkdf2() with hash without clone()", () => {
+	const password = crypto.getRandomValues(new Uint8Array(16));
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	expect(pbkdf2(ThirdPartySHA256, password, salt, 10, 40)).toStrictEqual(
+		pbkdf2(SHA256, password, salt, 10, 40)
+	);
+});
+
+/**
+ * A third-party hash implementation that does not implement clone()
+ */
+class ThirdPartySHA256 implements Hash {
+	public blockSize = 64;
+	public size = 32;
+
+	private hash = new SHA256();
+
+	public update(data: Uint8Array): void {
+		this.hash.update(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.hash.digest();
+	}
+}
@@ -0,0 +1,93 @@
+/**
+ * PBKDF2（基于密码的密钥派生函数2）实现模块
+ *
+ * PBKDF2定义于RFC 8018（PKCS #5 v2.1），通过反复迭代伪随机函数（这里是HMAC）
+ * 从密码和盐值派生密钥，迭代次数越多，暴力破解的成本越高：
+ *
+ * DK = T_1 || T_2 || ... || T_l（取前dkLen个字节）
+ * T_i = U_1 ⊕ U_2 ⊕ ... ⊕ U_c
+ * U_1 = PRF(P, S || INT(i))
+ * U_j = PRF(P, U_{j-1})
+ *
+ * 其中INT(i)是块索引i的4字节大端序编码。
+ *
+ * 注意：新的密码存储应优先考虑scrypt或Argon2等内存困难（memory-hard）的算法。
+ */
+import { bigEndian } from "@oslojs/binary";
+
+import { HMAC } from "../hmac/index.js";
+
+import type { HashAlgorithm } from "../hash/index.js";
+
+/**
+ * 使用PBKDF2和HMAC派生密钥
+ *
+ * 每次迭代都需要计算一次HMAC。为了避免在每次迭代中重新处理密码，
+ * 只构造一次以密码为密钥的HMAC（已吸收K' ⊕ ipad和K' ⊕ opad），
+ * 每次迭代时复制它，因此只需计算两次哈希。
+ * 如果哈希实例没有clone()（第三方的Hash实现），则每次迭代都重新构造HMAC。
+ *
+ * @example
+ * import { SHA256 } from "note-crypto";
+ * const password = new TextEncoder().encode("password");
+ * const key = pbkdf2(SHA256, password, salt, 600000, 32);
+ *
+ * @param Hash 用于HMAC的哈希算法构造函数
+ * @param password 密码
+ * @param salt 盐值
+ * @param iterations 迭代次数（至少为1）
+ * @param keyLength 派生密钥的长度（字节）
+ * @returns 派生密钥
+ * @throws 如果迭代次数或密钥长度无效
+ */
+export function pbkdf2(
+	Hash: HashAlgorithm,
+	password: Uint8Array,
+	salt: Uint8Array,
+	iterations: number,
+	keyLength: number
+): Uint8Array {
+	if (!Number.isInteger(iterations) || iterations < 1) {
+		throw new TypeError("Invalid iteration count");
+	}
+	const hash = new Hash();
+	const hashSize = hash.size;
+	const prf = hash.clone !== undefined ? new HMAC(Hash, password) : null;
+	if (!Number.isInteger(keyLength) || keyLength < 0 || keyLength > 0xffffffff * hashSize) {
+		throw new TypeError("Invalid key length");
+	}
+
+	const key = new Uint8Array(keyLength);
+	const block = new Uint8Array(salt.byteLength + 4);
+	block.set(salt);
+	for (let i = 1, offset = 0; offset < keyLength; i++) {
+		// U_1 = PRF(P, S || INT(i))
+		bigEndian.putUint32(block, i, salt.byteLength);
+		let u = computeHMAC(Hash, password, prf, block);
+		const t = u.slice();
+		// U_j = PRF(P, U_{j-1})，T_i = U_1 ⊕ ... ⊕ U_c
+		for (let j = 1; j < iterations; j++) {
+			u = computeHMAC(Hash, password, prf, u);
+			for (let k = 0; k < hashSize; k++) {
+				t[k] ^= u[k];
+			}
+		}
+		key.set(t.subarray(0, Math.min(hashSize, keyLength - offset)), offset);
+		offset += hashSize;
+	}
+	return key;
+}
+
+/**
+ * 复制预先构造的HMAC并计算data的HMAC，没有预先构造的HMAC时使用密码重新构造
+ */
+function computeHMAC(
+	Hash: HashAlgorithm,
+	password: Uint8Array,
+	prf: HMAC | null,
+	data: Uint8Array
+): Uint8Array {
+	const mac = prf !== null ? prf.clone() : new HMAC(Hash, password);
+	mac.update(data);
+	return mac.digest();
+}
@@ -0,0 +1,9 @@
+/**
+ * Poly1305 一次性消息认证码模块
+ *
+ * Poly1305（RFC 8439）是一种基于GF(2^130 - 5)上多项式求值的消息认证码。
+ * 每个密钥只能用于一条消息，通常与ChaCha20配合使用（ChaCha20-Poly1305）。
+ */
+
+// 导出Poly1305函数和类
+export { poly1305, Poly1305 } from "./poly1305.js";
@@ -0,0 +1,21 @@
+import { expect, test } from "vitest";
+import { poly1305, Poly1305 } from "./poly1305.js";
+
+test("Poly1305", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = poly1305(key, randomValues.slice(0, i * 5));
+		const mac = new Poly1305(key);
+		for (let j = 0; j < i; j++) {
+			mac.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(mac.digest()).toStrictEqual(expected);
+	}
+});
+
+test("Poly1305 with invalid key length", () => {
+	for (const keySize of [0, 16, 31, 33, 64]) {
+		expect(() => new Poly1305(new Uint8Array(keySize))).toThrowError(TypeError);
+	}
+});
@@ -0,0 +1,197 @@
+/**
+ * Poly1305 实现模块（RFC 8439 2.5节）
+ *
+ * Poly1305是一种一次性消息认证码（one-time MAC），使用32字节的密钥：
+ * 1. 前16字节为r，清除部分位（clamp）后作为多项式的求值点
+ * 2. 后16字节为s，最后加到结果上
+ *
+ * 将消息按16字节分块，每块末尾附加一个0x01字节后视为小端序整数n，
+ * 计算累加值h = (h + n) · r mod (2^130 - 5)，最后输出(h + s) mod 2^128。
+ *
+ * 注意：同一个密钥只能用于认证一条消息。ChaCha20-Poly1305等方案会为每条消息派生新的密钥。
+ * 验证标签时应使用constantTimeEqual()进行比较。
+ *
+ * 130位的整数使用10个13位的limb表示，所有中间结果都能精确地表示为double，
+ * 运算不包含依赖秘密数据的分支。
+ */
+
+/**
+ * 计算Poly1305认证标签
+ *
+ * @example
+ * const tag = poly1305(oneTimeKey, message);
+ *
+ * @param key 32字节的一次性密钥
+ * @param data 要认证的消息
+ * @returns 16字节的认证标签
+ * @throws TypeError 如果密钥长度不是32字节
+ */
+export function poly1305(key: Uint8Array, data: Uint8Array): Uint8Array {
+	const mac = new Poly1305(key);
+	mac.update(data);
+	return mac.digest();
+}
+
+/**
+ * Poly1305类 - 支持流式处理数据
+ */
+export class Poly1305 {
+	/**
+	 * 认证标签的长度（字节）
+	 */
+	public size = 16;
+
+	/**
+	 * 清除部分位后的r
+	 */
+	private r = new Uint32Array(10);
+
+	/**
+	 * 密钥的后16字节s
+	 */
+	private s: Uint8Array;
+
+	/**
+	 * 累加值h
+	 */
+	private h = new Uint32Array(10);
+
+	/**
+	 * 当前块的缓冲区，第17个字节用于附加的0x01
+	 */
+	private block = new Uint8Array(17);
+
+	/**
+	 * 当前已缓冲数据的大小（字节）
+	 */
+	private blockLength = 0;
+
+	/**
+	 * @param key 32字节的一次性密钥
+	 * @throws TypeError 如果密钥长度不是32字节
+	 */
+	constructor(key: Uint8Array) {
+		if (key.byteLength !== 32) {
+			throw new TypeError("Invalid key length");
+		}
+		const r = new Uint8Array(17);
+		r.set(key.subarray(0, 16));
+		// r &= 0x0ffffffc0ffffffc0ffffffc0fffffff
+		r[3] &= 0x0f;
+		r[7] &= 0x0f;
+		r[11] &= 0x0f;
+		r[15] &= 0x0f;
+		r[4] &= 0xfc;
+		r[8] &= 0xfc;
+		r[12] &= 0xfc;
+		toLimbs(r, this.r);
+		this.s = key.slice(16, 32);
+	}
+
+	public update(data: Uint8Array): void {
+		let offset = 0;
+		while (offset < data.byteLength) {
+			const length = Math.min(16 - this.blockLength, data.byteLength - offset);
+			this.block.set(data.subarray(offset, offset + length), this.blockLength);
+			this.blockLength += length;
+			offset += length;
+			if (this.blockLength === 16) {
+				this.processBlock();
+			}
+		}
+	}
+
+	public digest(): Uint8Array {
+		if (this.blockLength > 0) {
+			this.processBlock();
+		}
+		const h = this.h;
+		// 完全进位两次，使每个limb都小于2^13，即h < 2^130
+		for (let i = 0; i < 2; i++) {
+			let c = 0;
+			for (let j = 1; j < 10; j++) {
+				h[j] += c;
+				c = h[j] >>> 13;
+				h[j] &= 0x1fff;
+			}
+			h[0] += c * 5;
+			c = h[0] >>> 13;
+			h[0] &= 0x1fff;
+			h[1] += c;
+		}
+		// 计算g = h + 5 - 2^130，如果没有借位（即h >= p）则使用g
+		const g = new Uint32Array(10);
+		let c = 5;
+		for (let i = 0; i < 10; i++) {
+			const value = h[i] + c;
+			c = value >>> 13;
+			g[i] = value & 0x1fff;
+		}
+		const mask = -c;
+		for (let i = 0; i < 10; i++) {
+			h[i] = (h[i] & ~mask) | (g[i] & mask);
+		}
+		// (h + s) mod 2^128
+		const result = new Uint8Array(16);
+		let carry = 0;
+		for (let i = 0; i < 16; i++) {
+			const bit = i * 8;
+			const limb = Math.floor(bit / 13);
+			const shift = bit % 13;
+			let value = h[limb] >>> shift;
+			if (limb < 9) {
+				value |= h[limb + 1] << (13 - shift);
+			}
+			carry += (value & 0xff) + this.s[i];
+			result[i] = carry & 0xff;
+			carry >>>= 8;
+		}
+		return result;
+	}
+
+	/**
+	 * 处理缓冲区中的块：h = (h + n) · r mod (2^130 - 5)
+	 */
+	private processBlock(): void {
+		this.block[this.blockLength] = 1;
+		this.block.fill(0, this.blockLength + 1);
+		const n = new Uint32Array(10);
+		toLimbs(this.block, n);
+		this.blockLength = 0;
+
+		const h = this.h;
+		const r = this.r;
+		for (let i = 0; i < 10; i++) {
+			h[i] += n[i];
+		}
+		// 2^130 ≡ 5 (mod p)，超出130位的部分乘以5后加到低位
+		const d = new Array<number>(10);
+		let c = 0;
+		for (let i = 0; i < 10; i++) {
+			let sum = c;
+			for (let j = 0; j < 10; j++) {
+				sum += j <= i ? h[j] * r[i - j] : h[j] * 5 * r[i - j + 10];
+			}
+			c = Math.floor(sum / 0x2000);
+			d[i] = sum - c * 0x2000;
+		}
+		c = c * 5 + d[0];
+		h[0] = c & 0x1fff;
+		h[1] = d[1] + (c >>> 13);
+		for (let i = 2; i < 10; i++) {
+			h[i] = d[i];
+		}
+	}
+}
+
+/**
+ * 将17字节的小端序整数拆分为10个13位的limb
+ */
+function toLimbs(bytes: Uint8Array, limbs: Uint32Array): void {
+	for (let i = 0; i < 10; i++) {
+		const bit = i * 13;
+		const offset = bit >>> 3;
+		const value = bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+		limbs[i] = (value >>> (bit & 7)) & 0x1fff;
+	}
+}
@@ -1,13 +1,119 @@
 import { describe, test, expect } from "vitest";
 import {
+	decodePKCS1RSAPrivateKey,
+	decodePKCS8RSAPrivateKey,
 	decodePKIXRSAPublicKey,
+	decryptRSAESOAEP,
+	encryptRSAESOAEP,
+	generateRSAKeyPair,
+	RSAPrivateKey,
+	RSAPublicKey,
 	sha256ObjectIdentifier,
-	verifyRSASSAPKCS1v15Signature
+	signRSASSAPKCS1v15,
+	signRSASSAPSS,
+	verifyRSASSAPKCS1v15Signature,
+	verifyRSASSAPSSSignature
 } from "./index.js";
-import { sha256 } from "../sha2/sha256.js";
+import { sha256, SHA256 } from "../sha2/sha256.js";
+import { SHA1 } from "../sha1/index.js";
+import { bigIntFromBytes } from "@oslojs/binary";
+import { base64url } from "@oslojs/encoding";
+import * as nodeCrypto from "node:crypto";
+
+import type { RandomReader } from "../random/index.js";
 
 const data = new TextEncoder().encode("hello world");
 
+const random: RandomReader = {
+	read(bytes: Uint8Array): void {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+test("generateRSAKeyPair()", () => {
+	const keyPair = generateRSAKeyPair(random, 2048);
+	expect(keyPair.privateKey.n.toString(2).length).toBe(2048);
+	expect(keyPair.publicKey.n).toBe(keyPair.privateKey.n);
+	expect(keyPair.publicKey.e).toBe(65537n);
+	// Checks parameter consistency
+	expect(decodePKCS1RSAPrivateKey(keyPair.privateKey.encodePKCS1())).toStrictEqual(
+		keyPair.privateKey
+	);
+
+	const signature = signRSASSAPKCS1v15(keyPair.privateKey, sha256ObjectIdentifier, sha256(data));
+	const nodePublicKey = nodeCrypto.createPublicKey({
+		key: Buffer.from(keyPair.publicKey.encodePKIX()),
+		format: "der",
+		type: "spki"
+	});
+	expect(nodeCrypto.verify("sha256", data, nodePublicKey, signature)).toBe(true);
+});
+
+test("generateRSAKeyPair() with invalid parameters", () => {
+	expect(() => generateRSAKeyPair(random, 512)).toThrowError();
+	expect(() => generateRSAKeyPair(random, 2048, 3n)).toThrowError();
+	expect(() => generateRSAKeyPair(random, 2048, 65538n)).toThrowError();
+});
+
+test("signRSASSAPKCS1v15()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+	const signature = signRSASSAPKCS1v15(privateKey, sha256ObjectIdentifier, sha256(data));
+	expect(signature).toStrictEqual(
+		new Uint8Array(nodeCrypto.sign("sha256", data, keyPair.privateKey))
+	);
+	const publicKey = new RSAPublicKey(privateKey.n, privateKey.e);
+	expect(
+		verifyRSASSAPKCS1v15Signature(publicKey, sha256ObjectIdentifier, sha256(data), signature)
+	).toBe(true);
+});
+
+test("signRSASSAPSS()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+	const signature = signRSASSAPSS(privateKey, SHA256, SHA256, 32, random, sha256(data));
+	expect(
+		nodeCrypto.verify(
+			"sha256",
+			data,
+			{
+				key: keyPair.publicKey,
+				padding: nodeCrypto.constants.RSA_PKCS1_PSS_PADDING,
+				saltLength: 32
+			},
+			signature
+		)
+	).toBe(true);
+	const publicKey = new RSAPublicKey(privateKey.n, privateKey.e);
+	expect(verifyRSASSAPSSSignature(publicKey, SHA256, SHA256, 32, sha256(data), signature)).toBe(
+		true
+	);
+});
+
+test("signRSASSAPSS() with odd modulus length", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2049
+	});
+	const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+	const signature = signRSASSAPSS(privateKey, SHA256, SHA256, 0, random, sha256(data));
+	expect(
+		nodeCrypto.verify(
+			"sha256",
+			data,
+			{
+				key: keyPair.publicKey,
+				padding: nodeCrypto.constants.RSA_PKCS1_PSS_PADDING,
+				saltLength: 0
+			},
+			signature
+		)
+	).toBe(true);
+});
+
 test("decodePKIXRSAPublicKey()", async () => {
 	const webcryptoKeys = await crypto.subtle.generateKey(
 		{
@@ -35,6 +141,135 @@ test("decodePKIXRSAPublicKey()", async () => {
 	).toBe(true);
 });
 
+test("decodePKCS1RSAPrivateKey()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const der = new Uint8Array(keyPair.privateKey.export({ format: "der", type: "pkcs1" }));
+	const privateKey = decodePKCS1RSAPrivateKey(der);
+	expect(privateKey).toStrictEqual(
+		createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }))
+	);
+});
+
+test("decodePKCS1RSAPrivateKey() rejects inconsistent keys", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+	privateKey.d += 2n;
+	expect(() => decodePKCS1RSAPrivateKey(privateKey.encodePKCS1())).toThrowError();
+	privateKey.d -= 2n;
+	privateKey.qInv += 1n;
+	expect(() => decodePKCS1RSAPrivateKey(privateKey.encodePKCS1())).toThrowError();
+});
+
+test("decodePKCS8RSAPrivateKey()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const der = new Uint8Array(keyPair.privateKey.export({ format: "der", type: "pkcs8" }));
+	const privateKey = decodePKCS8RSAPrivateKey(der);
+	expect(privateKey).toStrictEqual(
+		createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }))
+	);
+});
+
+test("encryptRSAESOAEP()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const publicKey = decodePKIXRSAPublicKey(
+		new Uint8Array(keyPair.publicKey.export({ format: "der", type: "spki" }))
+	);
+	const label = new TextEncoder().encode("label");
+	const ciphertext = encryptRSAESOAEP(publicKey, SHA256, SHA256, label, random, data);
+	const decrypted = nodeCrypto.privateDecrypt(
+		{
+			key: keyPair.privateKey,
+			padding: nodeCrypto.constants.RSA_PKCS1_OAEP_PADDING,
+			oaepHash: "sha256",
+			oaepLabel: label
+		},
+		ciphertext
+	);
+	expect(new Uint8Array(decrypted)).toStrictEqual(data);
+
+	const maxMessage = new Uint8Array(256 - 2 * 32 - 2);
+	expect(() =>
+		encryptRSAESOAEP(publicKey, SHA256, SHA256, label, random, maxMessage)
+	).not.toThrowError();
+	const longMessage = new Uint8Array(256 - 2 * 32 - 1);
+	expect(() =>
+		encryptRSAESOAEP(publicKey, SHA256, SHA256, label, random, longMessage)
+	).toThrowError();
+});
+
+test("decryptRSAESOAEP()", () => {
+	const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+		modulusLength: 2048
+	});
+	const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+	for (const [HashAlgorithm, oaepHash] of [
+		[SHA1, "sha1"],
+		[SHA256, "sha256"]
+	] as const) {
+		const ciphertext = nodeCrypto.publicEncrypt(
+			{
+				key: keyPair.publicKey,
+				padding: nodeCrypto.constants.RSA_PKCS1_OAEP_PADDING,
+				oaepHash
+			},
+			data
+		);
+		const decrypted = decryptRSAESOAEP(
+			privateKey,
+			HashAlgorithm,
+			HashAlgorithm,
+			new Uint8Array(),
+			new Uint8Array(ciphertext)
+		);
+		expect(decrypted).toStrictEqual(data);
+	}
+
+	const publicKey = new RSAPublicKey(privateKey.n, privateKey.e);
+	const ciphertext = encryptRSAESOAEP(publicKey, SHA256, SHA256, new Uint8Array(), random, data);
+	const wrongLabel = new TextEncoder().encode("label");
+	expect(() => decryptRSAESOAEP(privateKey, SHA256, SHA256, wrongLabel, ciphertext)).toThrowError(
+		"Decryption error"
+	);
+	const modified = ciphertext.slice();
+	modified[10] ^= 0x01;
+	expect(() =>
+		decryptRSAESOAEP(privateKey, SHA256, SHA256, new Uint8Array(), modified)
+	).toThrowError("Decryption error");
+	expect(() =>
+		decryptRSAESOAEP(privateKey, SHA256, SHA256, new Uint8Array(), ciphertext.slice(1))
+	).toThrowError("Decryption error");
+});
+
+describe("RSAPrivateKey", () => {
+	test("RSAPrivateKey.encodePKCS1()", () => {
+		const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+			modulusLength: 2048
+		});
+		const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+		expect(privateKey.encodePKCS1()).toStrictEqual(
+			new Uint8Array(keyPair.privateKey.export({ format: "der", type: "pkcs1" }))
+		);
+	});
+
+	test("RSAPrivateKey.encodePKCS8()", () => {
+		const keyPair = nodeCrypto.generateKeyPairSync("rsa", {
+			modulusLength: 2048
+		});
+		const privateKey = createPrivateKeyFromJWK(keyPair.privateKey.export({ format: "jwk" }));
+		expect(privateKey.encodePKCS8()).toStrictEqual(
+			new Uint8Array(keyPair.privateKey.export({ format: "der", type: "pkcs8" }))
+		);
+	});
+});
+
 describe("RSAPublicKey", () => {
 	test("RSAPublicKey.encodePKIX()", async () => {
 		const webcryptoKeys = await crypto.subtle.generateKey(
@@ -73,3 +308,16 @@ describe("RSAPublicKey", () => {
 		).resolves.toBe(true);
 	});
 });
+
+function createPrivateKeyFromJWK(jwk: nodeCrypto.JsonWebKey): RSAPrivateKey {
+	return new RSAPrivateKey(
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.n!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.e!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.d!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.p!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.q!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.dp!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.dq!)),
+		bigIntFromBytes(base64url.decodeIgnorePadding(jwk.qi!))
+	);
+}
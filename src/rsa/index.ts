@@ -4,7 +4,7 @@
  * RSA（Rivest-Shamir-Adleman）是最早的也是最广泛使用的公钥密码系统之一，
  * 其安全性基于大整数质因数分解的计算困难性。RSA可用于加密、数字签名和密钥交换。
  * 
- * 本模块主要实现RSA的数字签名验证功能，支持两种签名方案：
+ * 本模块主要实现RSA的密钥生成以及数字签名生成和验证功能，支持两种签名方案：
  * 1. RSASSA-PKCS1-v1.5：传统的RSA签名方案
  * 2. RSASSA-PSS：更现代、更安全的带概率填充的RSA签名方案
  * 
@@ -26,7 +26,224 @@ import {
 	parseASN1NoLeftoverBytes,
 	type ASN1Value
 } from "@oslojs/asn1";
+import { generateRandomInteger } from "../random/index.js";
 import type { HashAlgorithm } from "../hash/index.js";
+import type { RandomReader } from "../random/index.js";
+
+/**
+ * 生成RSA密钥对
+ * 
+ * 按照FIPS 186-5 附录A.1.3生成两个随机概率素数p和q：
+ * 1. 随机选取指定位长的奇数，并将最高两位设为1，确保n = p * q恰好为指定位长
+ * 2. 要求gcd(p-1, e) = 1
+ * 3. 先用小素数试除，再进行Miller-Rabin素性测试
+ * 4. 要求|p - q| > 2^(bits/2 - 100)，且私钥指数d > 2^(bits/2)
+ * 
+ * 注意：运算不是常数时间实现。
+ * 
+ * @param random 随机数读取器，用于生成素数
+ * @param bits 模数n的位长，至少为1024（推荐2048或以上）
+ * @param e 公钥指数，必须为奇数且满足2^16 < e < 2^256，默认为65537
+ * @returns 包含私钥和公钥的密钥对
+ * @throws 如果参数无效或无法获取随机字节则抛出错误
+ */
+export function generateRSAKeyPair(
+	random: RandomReader,
+	bits: number,
+	e: bigint = 65537n
+): RSAKeyPair {
+	if (!Number.isInteger(bits) || bits < 1024) {
+		throw new TypeError("Invalid modulus length");
+	}
+	if (e % 2n === 0n || e <= 65536n || e >= 1n << 256n) {
+		throw new TypeError("Invalid public exponent");
+	}
+	
+	const pBits = Math.ceil(bits / 2);
+	const qBits = bits - pBits;
+	const minimalDistance = 1n << BigInt(Math.floor(bits / 2) - 100);
+	
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		let p = generateProbablePrime(random, pBits, e);
+		let q = generateProbablePrime(random, qBits, e);
+		
+		// p和q不能太接近，否则n可以通过费马分解法被分解
+		const distance = p > q ? p - q : q - p;
+		if (distance <= minimalDistance) {
+			continue;
+		}
+		
+		// 按照惯例令p > q
+		if (p < q) {
+			[p, q] = [q, p];
+		}
+		
+		// d = e^(-1) mod λ(n)，λ(n) = lcm(p-1, q-1)
+		const lambda = ((p - 1n) * (q - 1n)) / gcd(p - 1n, q - 1n);
+		const d = inverseMod(e, lambda);
+		if (d <= 1n << BigInt(Math.floor(bits / 2))) {
+			continue;
+		}
+		
+		const n = p * q;
+		const privateKey = new RSAPrivateKey(
+			n,
+			e,
+			d,
+			p,
+			q,
+			d % (p - 1n),
+			d % (q - 1n),
+			inverseMod(q, p)
+		);
+		return {
+			privateKey,
+			publicKey: new RSAPublicKey(n, e)
+		};
+	}
+}
+
+/**
+ * RSA密钥对
+ */
+export interface RSAKeyPair {
+	/**
+	 * 私钥
+	 */
+	privateKey: RSAPrivateKey;
+	
+	/**
+	 * 与私钥对应的公钥
+	 */
+	publicKey: RSAPublicKey;
+}
+
+/**
+ * 生成RSASSA-PKCS1-v1.5签名
+ * 
+ * 签名过程：
+ * 1. 使用哈希算法的OID和哈希值构造DigestInfo（ASN.1 DER编码）
+ * 2. 构造编码消息EM = 0x00 || 0x01 || PS || 0x00 || T，其中PS为0xFF填充
+ * 3. 将EM转换为整数m，计算s = m^d mod n（使用CRT加速）
+ * 4. 将s转换为与模数等长的字节数组
+ * 
+ * PKCS#1 v1.5签名是确定性的，相同的私钥和哈希值总是产生相同的签名。
+ * 
+ * @param privateKey RSA私钥
+ * @param hashObjectIdentifier 哈希算法的ASN.1对象标识符
+ * @param hashed 消息的哈希值
+ * @returns 签名（长度与模数的字节长度相同）
+ * @throws 如果模数太短，无法容纳编码后的哈希值
+ */
+export function signRSASSAPKCS1v15(
+	privateKey: RSAPrivateKey,
+	hashObjectIdentifier: string,
+	hashed: Uint8Array
+): Uint8Array {
+	const k = Math.ceil(privateKey.n.toString(2).length / 8);
+	
+	// 创建哈希值的ASN.1 DER编码（DigestInfo）
+	const t = encodeASN1(
+		new ASN1EncodableSequence([
+			new ASN1EncodableSequence([
+				new ASN1ObjectIdentifier(encodeObjectIdentifier(hashObjectIdentifier)),
+				new ASN1Null()
+			]),
+			new ASN1OctetString(hashed)
+		])
+	);
+	
+	// 检查模数长度是否足够（必须能容纳至少8字节的填充和T）
+	if (k < t.byteLength + 11) {
+		throw new Error("Intended encoded message length too short");
+	}
+	
+	// 创建编码消息：0x00 0x01 PS 0x00 T
+	const ps = new Uint8Array(k - t.byteLength - 3).fill(0xff);
+	const em = new DynamicBuffer(k);
+	em.writeByte(0x00);
+	em.writeByte(0x01);
+	em.write(ps);
+	em.writeByte(0x00);
+	em.write(t);
+	
+	const s = privateKeyOperation(privateKey, bigIntFromBytes(em.bytes()));
+	return i2osp(s, k);
+}
+
+/**
+ * 生成RSASSA-PSS签名
+ * 
+ * 签名过程（RFC 8017 9.1.1 EMSA-PSS编码）：
+ * 1. 从随机源生成saltLength字节的盐值
+ * 2. 计算H = Hash(0x00 * 8 || mHash || salt)
+ * 3. 构造DB = PS || 0x01 || salt，并使用MGF1(H)进行掩码
+ * 4. 构造EM = maskedDB || H || 0xBC
+ * 5. 将EM转换为整数m，计算s = m^d mod n（使用CRT加速）
+ * 
+ * @param privateKey RSA私钥
+ * @param MessageHashAlgorithm 用于哈希消息的算法
+ * @param MGF1HashAlgorithm 用于掩码生成函数的哈希算法
+ * @param saltLength 盐值长度（字节），通常与哈希值长度相同
+ * @param random 用于生成盐值的随机源
+ * @param hashed 消息的哈希值
+ * @returns 签名（长度与模数的字节长度相同）
+ * @throws 如果模数太短，无法容纳哈希值和盐值
+ */
+export function signRSASSAPSS(
+	privateKey: RSAPrivateKey,
+	MessageHashAlgorithm: HashAlgorithm,
+	MGF1HashAlgorithm: HashAlgorithm,
+	saltLength: number,
+	random: RandomReader,
+	hashed: Uint8Array
+): Uint8Array {
+	const modulusBits = privateKey.n.toString(2).length;
+	const k = Math.ceil(modulusBits / 8);
+	
+	// EM的最大位长为模数位长减1，确保EM < n
+	const maximalEMBits = modulusBits - 1;
+	const emLength = Math.ceil(maximalEMBits / 8);
+	
+	if (emLength < hashed.byteLength + saltLength + 2) {
+		throw new Error("Encoding error");
+	}
+	
+	// 生成随机盐值
+	const salt = new Uint8Array(saltLength);
+	random.read(salt);
+	
+	// 计算H = Hash(M')，其中M' = 0x00 * 8 || mHash || salt
+	const hHash = new MessageHashAlgorithm();
+	hHash.update(new Uint8Array(8));
+	hHash.update(hashed);
+	hHash.update(salt);
+	const h = hHash.digest();
+	
+	// 构造DB = PS || 0x01 || salt，PS为零字节
+	const db = new Uint8Array(emLength - hashed.byteLength - 1);
+	db[db.byteLength - saltLength - 1] = 0x01;
+	db.set(salt, db.byteLength - saltLength);
+	
+	// 使用MGF1生成掩码并对DB进行异或
+	const dbMask = mgf1(MGF1HashAlgorithm, h, db.byteLength);
+	for (let i = 0; i < db.byteLength; i++) {
+		db[i] ^= dbMask[i];
+	}
+	
+	// 将maskedDB最左侧的(8emLen - emBits)比特设置为0
+	db[0] &= 0xff >> (8 * emLength - maximalEMBits);
+	
+	// 构造EM = maskedDB || H || 0xBC
+	const em = new DynamicBuffer(emLength);
+	em.write(db);
+	em.write(h);
+	em.writeByte(0xbc);
+	
+	const s = privateKeyOperation(privateKey, bigIntFromBytes(em.bytes()));
+	return i2osp(s, k);
+}
 
 /**
  * 验证RSASSA-PKCS1-v1.5签名
@@ -198,6 +415,163 @@ export function verifyRSASSAPSSSignature(
 	return constantTimeEqual(h, hPrimeHash.digest());
 }
 
+/**
+ * 使用RSAES-OAEP加密消息（RFC 8017 7.1.1）
+ * 
+ * 加密过程：
+ * 1. 计算lHash = Hash(label)
+ * 2. 构造DB = lHash || PS || 0x01 || M，其中PS为零字节填充
+ * 3. 生成随机种子seed，使用MGF1分别对DB和seed进行掩码
+ * 4. 构造EM = 0x00 || maskedSeed || maskedDB
+ * 5. 计算c = m^e mod n
+ * 
+ * 消息的最大长度为k - 2hLen - 2字节，其中k为模数的字节长度，hLen为哈希值长度。
+ * 
+ * @param publicKey RSA公钥
+ * @param HashAlgorithm 用于哈希标签的算法
+ * @param MGF1HashAlgorithm 用于掩码生成函数的哈希算法
+ * @param label 与消息关联的标签（通常为空）
+ * @param random 用于生成种子的随机源
+ * @param message 待加密的消息
+ * @returns 密文（长度与模数的字节长度相同）
+ * @throws 如果消息太长
+ */
+export function encryptRSAESOAEP(
+	publicKey: RSAPublicKey,
+	HashAlgorithm: HashAlgorithm,
+	MGF1HashAlgorithm: HashAlgorithm,
+	label: Uint8Array,
+	random: RandomReader,
+	message: Uint8Array
+): Uint8Array {
+	const k = Math.ceil(publicKey.n.toString(2).length / 8);
+	
+	const lHash = new HashAlgorithm();
+	lHash.update(label);
+	const hLen = lHash.size;
+	
+	if (message.byteLength > k - 2 * hLen - 2) {
+		throw new Error("Message too long");
+	}
+	
+	// 构造DB = lHash || PS || 0x01 || M
+	const db = new Uint8Array(k - hLen - 1);
+	db.set(lHash.digest());
+	db[db.byteLength - message.byteLength - 1] = 0x01;
+	db.set(message, db.byteLength - message.byteLength);
+	
+	// 生成随机种子
+	const seed = new Uint8Array(hLen);
+	random.read(seed);
+	
+	// maskedDB = DB xor MGF(seed, k - hLen - 1)
+	const dbMask = mgf1(MGF1HashAlgorithm, seed, db.byteLength);
+	for (let i = 0; i < db.byteLength; i++) {
+		db[i] ^= dbMask[i];
+	}
+	
+	// maskedSeed = seed xor MGF(maskedDB, hLen)
+	const seedMask = mgf1(MGF1HashAlgorithm, db, hLen);
+	for (let i = 0; i < seed.byteLength; i++) {
+		seed[i] ^= seedMask[i];
+	}
+	
+	// 构造EM = 0x00 || maskedSeed || maskedDB
+	const em = new DynamicBuffer(k);
+	em.writeByte(0x00);
+	em.write(seed);
+	em.write(db);
+	
+	const c = powmod(bigIntFromBytes(em.bytes()), publicKey.e, publicKey.n);
+	return i2osp(c, k);
+}
+
+/**
+ * 使用RSAES-OAEP解密密文（RFC 8017 7.1.2）
+ * 
+ * 填充的检查以恒定时间方式进行，所有失败情况（密文长度错误、Y不为0、lHash不匹配、
+ * 缺少0x01分隔符等）都抛出相同的错误，以防止Manger攻击等选择密文攻击。
+ * 
+ * 注意：RSA私钥运算本身不是常数时间实现。
+ * 
+ * @param privateKey RSA私钥
+ * @param HashAlgorithm 用于哈希标签的算法
+ * @param MGF1HashAlgorithm 用于掩码生成函数的哈希算法
+ * @param label 与消息关联的标签，必须与加密时使用的标签相同
+ * @param ciphertext 待解密的密文
+ * @returns 解密后的消息
+ * @throws 如果解密失败（统一的错误）
+ */
+export function decryptRSAESOAEP(
+	privateKey: RSAPrivateKey,
+	HashAlgorithm: HashAlgorithm,
+	MGF1HashAlgorithm: HashAlgorithm,
+	label: Uint8Array,
+	ciphertext: Uint8Array
+): Uint8Array {
+	const k = Math.ceil(privateKey.n.toString(2).length / 8);
+	
+	const lHashAlgorithm = new HashAlgorithm();
+	lHashAlgorithm.update(label);
+	const hLen = lHashAlgorithm.size;
+	const lHash = lHashAlgorithm.digest();
+	
+	if (ciphertext.byteLength !== k || k < 2 * hLen + 2) {
+		throw new Error("Decryption error");
+	}
+	
+	let m: bigint;
+	try {
+		m = privateKeyOperation(privateKey, bigIntFromBytes(ciphertext));
+	} catch {
+		throw new Error("Decryption error");
+	}
+	const em = i2osp(m, k);
+	
+	// 分离EM = Y || maskedSeed || maskedDB
+	const y = em[0];
+	const seed = em.slice(1, 1 + hLen);
+	const db = em.slice(1 + hLen);
+	
+	// seed = maskedSeed xor MGF(maskedDB, hLen)
+	const seedMask = mgf1(MGF1HashAlgorithm, db, hLen);
+	for (let i = 0; i < seed.byteLength; i++) {
+		seed[i] ^= seedMask[i];
+	}
+	
+	// DB = maskedDB xor MGF(seed, k - hLen - 1)
+	const dbMask = mgf1(MGF1HashAlgorithm, seed, db.byteLength);
+	for (let i = 0; i < db.byteLength; i++) {
+		db[i] ^= dbMask[i];
+	}
+	
+	// 以恒定时间方式检查填充：
+	// DB = lHash' || PS || 0x01 || M，PS只能包含零字节
+	let invalid = y;
+	if (!constantTimeEqual(db.subarray(0, hLen), lHash)) {
+		invalid |= 1;
+	}
+	let found = 0;
+	let separatorIndex = 0;
+	for (let i = hLen; i < db.byteLength; i++) {
+		// 如果字节为0x01/0x00，isOne/isZero为1，否则为0
+		const isOne = ((db[i] ^ 0x01) - 1) >>> 31;
+		const isZero = (db[i] - 1) >>> 31;
+		const notFound = found ^ 1;
+		// 记录第一个0x01的位置
+		separatorIndex |= -(notFound & isOne) & i;
+		// 在0x01之前出现非零字节则无效
+		invalid |= notFound & (isOne ^ 1) & (isZero ^ 1);
+		found |= isOne;
+	}
+	invalid |= found ^ 1;
+	
+	if (invalid !== 0) {
+		throw new Error("Decryption error");
+	}
+	return db.slice(separatorIndex + 1);
+}
+
 /**
  * RSA公钥类
  * 
@@ -274,6 +648,148 @@ export class RSAPublicKey {
 	}
 }
 
+/**
+ * RSA私钥类
+ * 
+ * 除了模数n、公钥指数e和私钥指数d之外，还包含中国剩余定理（CRT）所需的参数：
+ * - p, q：模数的两个素因子
+ * - dP = d mod (p-1)
+ * - dQ = d mod (q-1)
+ * - qInv = q^(-1) mod p
+ * 
+ * 使用CRT进行私钥运算比直接计算m^d mod n快约4倍。
+ */
+export class RSAPrivateKey {
+	/**
+	 * 模数n = p * q
+	 */
+	public n: bigint;
+	
+	/**
+	 * 公钥指数e
+	 */
+	public e: bigint;
+	
+	/**
+	 * 私钥指数d，满足e * d ≡ 1 (mod λ(n))
+	 */
+	public d: bigint;
+	
+	/**
+	 * 第一个素因子p
+	 */
+	public p: bigint;
+	
+	/**
+	 * 第二个素因子q
+	 */
+	public q: bigint;
+	
+	/**
+	 * p的CRT指数，dP = d mod (p-1)
+	 */
+	public dP: bigint;
+	
+	/**
+	 * q的CRT指数，dQ = d mod (q-1)
+	 */
+	public dQ: bigint;
+	
+	/**
+	 * CRT系数，qInv = q^(-1) mod p
+	 */
+	public qInv: bigint;
+
+	/**
+	 * 构造RSA私钥
+	 * 
+	 * @param n 模数n
+	 * @param e 公钥指数e
+	 * @param d 私钥指数d
+	 * @param p 素因子p
+	 * @param q 素因子q
+	 * @param dP CRT指数d mod (p-1)
+	 * @param dQ CRT指数d mod (q-1)
+	 * @param qInv CRT系数q^(-1) mod p
+	 */
+	constructor(
+		n: bigint,
+		e: bigint,
+		d: bigint,
+		p: bigint,
+		q: bigint,
+		dP: bigint,
+		dQ: bigint,
+		qInv: bigint
+	) {
+		this.n = n;
+		this.e = e;
+		this.d = d;
+		this.p = p;
+		this.q = q;
+		this.dP = dP;
+		this.dQ = dQ;
+		this.qInv = qInv;
+	}
+
+	/**
+	 * 将RSA私钥编码为PKCS#1格式
+	 * 
+	 * RSAPrivateKey ::= SEQUENCE {
+	 *   version           Version,  -- 0（双素数）
+	 *   modulus           INTEGER,  -- n
+	 *   publicExponent    INTEGER,  -- e
+	 *   privateExponent   INTEGER,  -- d
+	 *   prime1            INTEGER,  -- p
+	 *   prime2            INTEGER,  -- q
+	 *   exponent1         INTEGER,  -- d mod (p-1)
+	 *   exponent2         INTEGER,  -- d mod (q-1)
+	 *   coefficient       INTEGER   -- (inverse of q) mod p
+	 * }
+	 * 
+	 * @returns PKCS#1格式的DER编码私钥
+	 */
+	public encodePKCS1(): Uint8Array {
+		const asn1 = new ASN1EncodableSequence([
+			new ASN1Integer(0n),
+			new ASN1Integer(this.n),
+			new ASN1Integer(this.e),
+			new ASN1Integer(this.d),
+			new ASN1Integer(this.p),
+			new ASN1Integer(this.q),
+			new ASN1Integer(this.dP),
+			new ASN1Integer(this.dQ),
+			new ASN1Integer(this.qInv)
+		]);
+		return encodeASN1(asn1);
+	}
+
+	/**
+	 * 将RSA私钥编码为PKCS#8格式
+	 * 
+	 * PrivateKeyInfo ::= SEQUENCE {
+	 *   version                   Version,  -- 0
+	 *   privateKeyAlgorithm       AlgorithmIdentifier,
+	 *   privateKey                OCTET STRING  -- PKCS#1编码的私钥
+	 * }
+	 * 
+	 * @returns PKCS#8格式的DER编码私钥
+	 */
+	public encodePKCS8(): Uint8Array {
+		// 创建算法标识符（rsaEncryption OID和NULL参数）
+		const algorithmIdentifier = new ASN1EncodableSequence([
+			new ASN1ObjectIdentifier(encodeObjectIdentifier("1.2.840.113549.1.1.1")),
+			new ASN1Null()
+		]);
+		const privateKeyInfo = new ASN1EncodableSequence([
+			new ASN1Integer(0n),
+			algorithmIdentifier,
+			new ASN1OctetString(this.encodePKCS1())
+		]);
+		return encodeASN1(privateKeyInfo);
+	}
+}
+
 /**
  * 从PKCS#1格式解码RSA公钥
  * 
@@ -335,6 +851,101 @@ export function decodePKIXRSAPublicKey(pkix: Uint8Array): RSAPublicKey {
 	}
 }
 
+/**
+ * 从PKCS#1格式解码RSA私钥
+ * 
+ * 仅支持双素数密钥（version为0），包含otherPrimeInfos的多素数密钥会被拒绝。
+ * 解码后会检查密钥参数的一致性：
+ * - n = p * q
+ * - e * d ≡ 1 (mod λ(n))
+ * - dP = d mod (p-1)，dQ = d mod (q-1)
+ * - q * qInv ≡ 1 (mod p)
+ * 
+ * @param pkcs1 PKCS#1格式的DER编码私钥
+ * @returns RSA私钥对象
+ * @throws 如果解码失败、密钥为多素数密钥或参数不一致
+ */
+export function decodePKCS1RSAPrivateKey(pkcs1: Uint8Array): RSAPrivateKey {
+	let version: bigint;
+	let elementCount: number;
+	let privateKey: RSAPrivateKey;
+	try {
+		const asn1PrivateKey = parseASN1NoLeftoverBytes(pkcs1).sequence();
+		version = asn1PrivateKey.at(0).integer().value;
+		elementCount = asn1PrivateKey.elements.length;
+		privateKey = new RSAPrivateKey(
+			asn1PrivateKey.at(1).integer().value,
+			asn1PrivateKey.at(2).integer().value,
+			asn1PrivateKey.at(3).integer().value,
+			asn1PrivateKey.at(4).integer().value,
+			asn1PrivateKey.at(5).integer().value,
+			asn1PrivateKey.at(6).integer().value,
+			asn1PrivateKey.at(7).integer().value,
+			asn1PrivateKey.at(8).integer().value
+		);
+	} catch {
+		throw new Error("Failed to decode RSA private key");
+	}
+	
+	// version为1表示包含otherPrimeInfos的多素数密钥
+	if (version === 1n || elementCount > 9) {
+		throw new Error("Multi-prime RSA private keys are not supported");
+	}
+	if (version !== 0n) {
+		throw new Error("Invalid private key");
+	}
+	if (!isConsistentPrivateKey(privateKey)) {
+		throw new Error("Invalid private key");
+	}
+	return privateKey;
+}
+
+/**
+ * 从PKCS#8格式解码RSA私钥
+ * 
+ * PKCS#8的PrivateKeyInfo结构包含算法标识符（rsaEncryption，参数为NULL）
+ * 和PKCS#1编码的私钥。同时接受RFC 5958中version为1的OneAsymmetricKey结构。
+ * 
+ * @param pkcs8 PKCS#8格式的DER编码私钥
+ * @returns RSA私钥对象
+ * @throws 如果解码失败、私钥不是RSA类型或私钥无效
+ */
+export function decodePKCS8RSAPrivateKey(pkcs8: Uint8Array): RSAPrivateKey {
+	let version: bigint;
+	let asn1Algorithm: ASN1ObjectIdentifier;
+	let asn1Parameter: ASN1Value;
+	let asn1PrivateKey: ASN1OctetString;
+	
+	try {
+		// 解析PrivateKeyInfo结构
+		const asn1PrivateKeyInfo = parseASN1NoLeftoverBytes(pkcs8).sequence();
+		version = asn1PrivateKeyInfo.at(0).integer().value;
+		const asn1AlgorithmIdentifier = asn1PrivateKeyInfo.at(1).sequence();
+		asn1Algorithm = asn1AlgorithmIdentifier.at(0).objectIdentifier();
+		asn1Parameter = asn1AlgorithmIdentifier.at(1);
+		asn1PrivateKey = asn1PrivateKeyInfo.at(2).octetString();
+	} catch {
+		throw new Error("Failed to parse PrivateKeyInfo");
+	}
+	
+	if (version !== 0n && version !== 1n) {
+		throw new Error("Invalid private key");
+	}
+	
+	// 验证算法标识符是否为RSA
+	// rsaEncryption OID: 1.2.840.113549.1.1.1
+	if (!asn1Algorithm.is("1.2.840.113549.1.1.1")) {
+		throw new Error("Invalid private key OID");
+	}
+	
+	// 验证参数是否为NULL
+	if (asn1Parameter.universalType() !== ASN1UniversalType.Null) {
+		throw new Error("Invalid private key");
+	}
+	
+	return decodePKCS1RSAPrivateKey(asn1PrivateKey.value);
+}
+
 /**
  * 常用哈希算法的对象标识符（OID）
  * 这些OID用于在签名算法中标识使用的哈希函数
@@ -387,6 +998,229 @@ function mgf1(Hash: HashAlgorithm, Z: Uint8Array, l: number): Uint8Array {
 	return t.slice(0, l);
 }
 
+/**
+ * RSA私钥运算，即签名原语RSASP1（RFC 8017 5.2.1）和解密原语RSADP（RFC 8017 5.1.2）
+ * 
+ * 使用中国剩余定理计算s = m^d mod n：
+ * 1. s1 = m^dP mod p
+ * 2. s2 = m^dQ mod q
+ * 3. h = qInv * (s1 - s2) mod p
+ * 4. s = s2 + q * h
+ * 
+ * 计算完成后使用公钥验证结果，防止因计算错误泄露素因子（Bellcore攻击）。
+ * 
+ * @param privateKey RSA私钥
+ * @param m 消息代表或密文代表（0 ≤ m < n）
+ * @returns m^d mod n
+ * @throws 如果输入超出范围或计算结果无效
+ */
+function privateKeyOperation(privateKey: RSAPrivateKey, m: bigint): bigint {
+	if (m < 0n || m >= privateKey.n) {
+		throw new Error("Message representative out of range");
+	}
+	const s1 = powmod(m, privateKey.dP, privateKey.p);
+	const s2 = powmod(m, privateKey.dQ, privateKey.q);
+	const h = euclideanMod(privateKey.qInv * (s1 - s2), privateKey.p);
+	const s = s2 + privateKey.q * h;
+	if (powmod(s, privateKey.e, privateKey.n) !== m) {
+		throw new Error("Invalid private key");
+	}
+	return s;
+}
+
+/**
+ * 将非负整数转换为指定长度的大端字节数组（RFC 8017 4.1 I2OSP）
+ * 
+ * @param x 非负整数
+ * @param length 输出长度（字节）
+ * @returns 大端字节数组
+ */
+function i2osp(x: bigint, length: number): Uint8Array {
+	const bytes = new Uint8Array(length);
+	for (let i = 0; i < length; i++) {
+		bytes[i] = Number((x >> BigInt((length - i - 1) * 8)) & 0xffn);
+	}
+	return bytes;
+}
+
+/**
+ * 检查RSA私钥参数是否一致
+ * 
+ * @param privateKey RSA私钥
+ * @returns 参数是否一致
+ */
+function isConsistentPrivateKey(privateKey: RSAPrivateKey): boolean {
+	const { n, e, d, p, q, dP, dQ, qInv } = privateKey;
+	if (p < 3n || q < 3n || e < 3n || d < 1n) {
+		return false;
+	}
+	if (p * q !== n) {
+		return false;
+	}
+	// λ(n) = lcm(p-1, q-1)
+	const lambda = ((p - 1n) * (q - 1n)) / gcd(p - 1n, q - 1n);
+	if (euclideanMod(e * d, lambda) !== 1n) {
+		return false;
+	}
+	if (dP !== euclideanMod(d, p - 1n) || dQ !== euclideanMod(d, q - 1n)) {
+		return false;
+	}
+	if (qInv < 1n || qInv >= p || euclideanMod(q * qInv, p) !== 1n) {
+		return false;
+	}
+	return true;
+}
+
+/**
+ * 生成指定位长的随机概率素数
+ * 
+ * 候选数的最高两位和最低位被设为1，且满足gcd(candidate - 1, e) = 1。
+ * 
+ * @param random 随机数读取器
+ * @param bits 素数的位长
+ * @param e 公钥指数
+ * @returns 概率素数
+ */
+function generateProbablePrime(random: RandomReader, bits: number, e: bigint): bigint {
+	const bytes = new Uint8Array(Math.ceil(bits / 8));
+	const mask = (1n << BigInt(bits)) - 1n;
+	const rounds = millerRabinRounds(bits);
+	
+	// eslint-disable-next-line no-constant-condition
+	while (true) {
+		random.read(bytes);
+		let candidate = bigIntFromBytes(bytes) & mask;
+		
+		// 设置最高两位（保证p ≥ √2 * 2^(bits-1)）和最低位（奇数）
+		candidate |= (3n << BigInt(bits - 2)) | 1n;
+		
+		if (gcd(candidate - 1n, e) !== 1n) {
+			continue;
+		}
+		if (isProbablePrime(random, candidate, rounds)) {
+			return candidate;
+		}
+	}
+}
+
+/**
+ * 返回生成RSA素数时所需的Miller-Rabin最少轮数
+ * 
+ * 1024位及以上的素数使用FIPS 186-5 表B.1的值，
+ * 更短的素数使用FIPS 186-4 表C.3中错误概率为2^-100的值。
+ * 
+ * @param bits 素数的位长
+ * @returns Miller-Rabin测试的轮数
+ */
+function millerRabinRounds(bits: number): number {
+	if (bits >= 1536) {
+		return 4;
+	}
+	if (bits >= 1024) {
+		return 5;
+	}
+	return 7;
+}
+
+/**
+ * 概率素性测试
+ * 
+ * 先用小素数试除以快速排除大部分合数，再进行指定轮数的Miller-Rabin测试
+ * （FIPS 186-5 附录B.3.1），每轮使用[2, w-2]内的随机底数。
+ * 
+ * @param random 随机数读取器，用于选取底数
+ * @param w 待测试的整数（w > 2）
+ * @param rounds Miller-Rabin测试的轮数
+ * @returns 如果w可能为素数则返回true，如果w一定为合数则返回false
+ */
+function isProbablePrime(random: RandomReader, w: bigint, rounds: number): boolean {
+	for (const prime of smallPrimes) {
+		if (w === prime) {
+			return true;
+		}
+		if (w % prime === 0n) {
+			return false;
+		}
+	}
+	
+	// 将w-1表示为2^a * m，其中m为奇数
+	let m = w - 1n;
+	let a = 0;
+	while (m % 2n === 0n) {
+		m >>= 1n;
+		a++;
+	}
+	
+	for (let i = 0; i < rounds; i++) {
+		const b = generateRandomInteger(random, w - 3n) + 2n;
+		let z = powmod(b, m, w);
+		if (z === 1n || z === w - 1n) {
+			continue;
+		}
+		let composite = true;
+		for (let j = 1; j < a; j++) {
+			z = (z * z) % w;
+			if (z === w - 1n) {
+				composite = false;
+				break;
+			}
+			if (z === 1n) {
+				return false;
+			}
+		}
+		if (composite) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * 用于试除的小素数表（小于2000的所有素数）
+ */
+const smallPrimes: bigint[] = [];
+for (let i = 2; i < 2000; i++) {
+	if (smallPrimes.every((prime) => i % Number(prime) !== 0)) {
+		smallPrimes.push(BigInt(i));
+	}
+}
+
+/**
+ * 计算模乘法逆元（扩展欧几里得算法）
+ * 
+ * @param a 需要求逆元的整数
+ * @param n 模数
+ * @returns 满足a * s ≡ 1 (mod n)的s，范围为[0, n-1]
+ * @throws 如果a和n不互质
+ */
+function inverseMod(a: bigint, n: bigint): bigint {
+	let [oldR, r] = [euclideanMod(a, n), n];
+	let [oldS, s] = [1n, 0n];
+	while (r !== 0n) {
+		const quotient = oldR / r;
+		[oldR, r] = [r, oldR - quotient * r];
+		[oldS, s] = [s, oldS - quotient * s];
+	}
+	if (oldR !== 1n) {
+		throw new Error("No inverse");
+	}
+	return euclideanMod(oldS, n);
+}
+
+/**
+ * 计算最大公约数（欧几里得算法）
+ * 
+ * @param a 非负整数
+ * @param b 非负整数
+ * @returns a和b的最大公约数
+ */
+function gcd(a: bigint, b: bigint): bigint {
+	while (b !== 0n) {
+		[a, b] = [b, a % b];
+	}
+	return a;
+}
+
 /**
  * 模幂运算（x^y mod p）
  * 
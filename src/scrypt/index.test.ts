@@ -0,0 +1,48 @@
+import { expect, test } from "vitest";
+import { scrypt } from "./index.js";
+import * as nodeCrypto from "node:crypto";
+
+test("scrypt()", () => {
+	for (const [N, r, p, keyLength] of [
+		[2, 1, 1, 32],
+		[16, 1, 1, 64],
+		[16, 2, 3, 1],
+		[256, 8, 1, 32],
+		[1024, 1, 2, 100]
+	]) {
+		const password = crypto.getRandomValues(new Uint8Array(12));
+		const salt = crypto.getRandomValues(new Uint8Array(16));
+		const expected = new Uint8Array(nodeCrypto.scryptSync(password, salt, keyLength, { N, r, p }));
+		expect(scrypt(password, salt, N, r, p, keyLength)).toStrictEqual(expected);
+	}
+});
+
+test("scrypt() with invalid parameters", () => {
+	const password = new TextEncoder().encode("password");
+	const salt = new TextEncoder().encode("salt");
+	expect(() => scrypt(password, salt, 1, 8, 1, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1000, 8, 1, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1024, 0, 1, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1024, 8, 0, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1024, 2 ** 15, 2 ** 15, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1024, 8, 1, -1)).toThrowError();
+	// N must be less than 2^(16 * r)
+	expect(() => scrypt(password, salt, 2 ** 16, 1, 1, 32, Infinity)).toThrowError();
+	// N must be less than 2^32 (2^32 + 1024 is 1024 when truncated to 32 bits)
+	expect(() => scrypt(password, salt, 2 ** 32 + 1024, 8, 1, 32, Infinity)).toThrowError(
+		"Invalid parameter N"
+	);
+	expect(() => scrypt(password, salt, 2 ** 32, 8, 1, 32, Infinity)).toThrowError(
+		"Invalid parameter N"
+	);
+});
+
+test("scrypt() with memory limit", () => {
+	const password = new TextEncoder().encode("password");
+	const salt = new TextEncoder().encode("salt");
+	expect(() => scrypt(password, salt, 2 ** 16, 8, 1, 32)).toThrowError();
+	expect(() => scrypt(password, salt, 1024, 8, 1, 32, 128 * 1024 * 8 - 1)).toThrowError();
+	expect(scrypt(password, salt, 1024, 8, 1, 32, 128 * 1024 * 8)).toStrictEqual(
+		new Uint8Array(nodeCrypto.scryptSync(password, salt, 32, { N: 1024, r: 8, p: 1 }))
+	);
+});
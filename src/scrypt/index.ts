@@ -0,0 +1,226 @@
+/**
+ * scrypt密钥派生函数实现模块
+ *
+ * scrypt定义于RFC 7914，是一种内存困难（memory-hard）的基于密码的密钥派生函数。
+ * 计算过程需要大量内存（约128 * N * r字节），使得使用GPU或ASIC进行大规模并行暴力破解的成本大大增加。
+ *
+ * 算法结构：
+ * 1. B = PBKDF2-HMAC-SHA256(P, S, 1, p * 128 * r)
+ * 2. 将B分为p个长度为128 * r字节的块，对每个块执行ROMix
+ * 3. DK = PBKDF2-HMAC-SHA256(P, B, 1, dkLen)
+ *
+ * ROMix使用BlockMix填充并随机访问一个长度为N的数组，BlockMix的核心是Salsa20/8哈希函数。
+ */
+import { pbkdf2 } from "../pbkdf2/index.js";
+import { SHA256 } from "../sha2/index.js";
+
+/**
+ * 使用scrypt派生密钥
+ *
+ * 参数要求（RFC 7914 第2节）：
+ * - N（CPU/内存成本）必须是大于1的2的幂，且小于2^(128 * r / 8)
+ * - r（块大小）和p（并行度）必须是正整数，且 r * p < 2^30
+ * - 所需内存（128 * N * r字节）不能超过maxMemory
+ *
+ * 注意：p个块是依次计算的，因此p只增加计算时间而不增加内存使用。
+ *
+ * @example
+ * const password = new TextEncoder().encode("password");
+ * const key = scrypt(password, salt, 16384, 8, 1, 32);
+ *
+ * @param password 密码
+ * @param salt 盐值
+ * @param N CPU/内存成本参数（大于1且小于2^32的2的幂）
+ * @param r 块大小参数
+ * @param p 并行度参数
+ * @param keyLength 派生密钥的长度（字节）
+ * @param maxMemory ROMix可以使用的最大内存（字节），默认为32 MiB
+ * @returns 派生密钥
+ * @throws 如果参数无效或所需内存超过maxMemory
+ */
+export function scrypt(
+	password: Uint8Array,
+	salt: Uint8Array,
+	N: number,
+	r: number,
+	p: number,
+	keyLength: number,
+	maxMemory: number = 32 * 1024 * 1024
+): Uint8Array {
+	if (!Number.isInteger(r) || r < 1 || !Number.isInteger(p) || p < 1 || r * p >= 2 ** 30) {
+		throw new TypeError("Invalid parameters");
+	}
+	// 位运算只作用于32位整数，因此先排除N >= 2^32，否则截断后的非2的幂也能通过检查
+	if (
+		!Number.isInteger(N) ||
+		N < 2 ||
+		N >= 2 ** 32 ||
+		(N & (N - 1)) !== 0 ||
+		Math.log2(N) >= 16 * r
+	) {
+		throw new TypeError("Invalid parameter N");
+	}
+	if (!Number.isInteger(keyLength) || keyLength < 0 || keyLength > 0xffffffff * 32) {
+		throw new TypeError("Invalid key length");
+	}
+	if (128 * N * r > maxMemory) {
+		throw new Error("Memory limit exceeded");
+	}
+
+	const blockSize = 128 * r;
+	const b = pbkdf2(SHA256, password, salt, 1, p * blockSize);
+	const x = new Uint32Array(32 * r);
+	const y = new Uint32Array(32 * r);
+	const v = new Uint32Array(32 * r * N);
+	for (let i = 0; i < p; i++) {
+		decodeWords(b, i * blockSize, x);
+		roMix(x, y, v, r, N);
+		encodeWords(x, b, i * blockSize);
+	}
+	return pbkdf2(SHA256, password, b, 1, keyLength);
+}
+
+/**
+ * scryptROMix（RFC 7914 第5节）
+ *
+ * 1. 依次计算X、BlockMix(X)、BlockMix(BlockMix(X))...并保存到V中
+ * 2. 重复N次：j = Integerify(X) mod N，X = BlockMix(X ⊕ V_j)
+ *
+ * @param x 输入和输出块（32 * r个字）
+ * @param y 临时缓冲区（32 * r个字）
+ * @param v 长度为32 * r * N个字的数组
+ */
+function roMix(x: Uint32Array, y: Uint32Array, v: Uint32Array, r: number, N: number): void {
+	const words = 32 * r;
+	for (let i = 0; i < N; i++) {
+		v.set(x, i * words);
+		blockMix(x, y, r);
+	}
+	for (let i = 0; i < N; i++) {
+		// Integerify(X)：取最后一个64字节子块的第一个字（N不超过2^32，因此只需低32位）
+		const j = x[(2 * r - 1) * 16] & (N - 1);
+		for (let k = 0; k < words; k++) {
+			x[k] ^= v[j * words + k];
+		}
+		blockMix(x, y, r);
+	}
+}
+
+/**
+ * scryptBlockMix（RFC 7914 第4节）
+ *
+ * 1. X = B[2r - 1]
+ * 2. 对每个64字节子块B[i]：X = Salsa20/8(X ⊕ B[i])，Y[i] = X
+ * 3. 输出 B' = (Y[0], Y[2], ..., Y[2r - 2], Y[1], Y[3], ..., Y[2r - 1])
+ *
+ * @param b 输入和输出块（32 * r个字）
+ * @param y 临时缓冲区（32 * r个字）
+ */
+function blockMix(b: Uint32Array, y: Uint32Array, r: number): void {
+	const t = b.slice((2 * r - 1) * 16, 2 * r * 16);
+	for (let i = 0; i < 2 * r; i++) {
+		for (let k = 0; k < 16; k++) {
+			t[k] ^= b[i * 16 + k];
+		}
+		salsa208(t);
+		// 偶数子块放在前半部分，奇数子块放在后半部分
+		y.set(t, ((i >> 1) + (i & 1) * r) * 16);
+	}
+	b.set(y);
+}
+
+/**
+ * Salsa20/8核心函数（RFC 7914 第3节）
+ *
+ * 对16个字的输入执行8轮（4次双轮）Salsa20运算，并将结果与输入相加。
+ *
+ * @param b 输入和输出（16个字）
+ */
+function salsa208(b: Uint32Array): void {
+	let x0 = b[0], x1 = b[1], x2 = b[2], x3 = b[3];
+	let x4 = b[4], x5 = b[5], x6 = b[6], x7 = b[7];
+	let x8 = b[8], x9 = b[9], x10 = b[10], x11 = b[11];
+	let x12 = b[12], x13 = b[13], x14 = b[14], x15 = b[15];
+	for (let i = 0; i < 8; i += 2) {
+		// 列运算
+		x4 ^= rotl32(x0 + x12, 7);
+		x8 ^= rotl32(x4 + x0, 9);
+		x12 ^= rotl32(x8 + x4, 13);
+		x0 ^= rotl32(x12 + x8, 18);
+		x9 ^= rotl32(x5 + x1, 7);
+		x13 ^= rotl32(x9 + x5, 9);
+		x1 ^= rotl32(x13 + x9, 13);
+		x5 ^= rotl32(x1 + x13, 18);
+		x14 ^= rotl32(x10 + x6, 7);
+		x2 ^= rotl32(x14 + x10, 9);
+		x6 ^= rotl32(x2 + x14, 13);
+		x10 ^= rotl32(x6 + x2, 18);
+		x3 ^= rotl32(x15 + x11, 7);
+		x7 ^= rotl32(x3 + x15, 9);
+		x11 ^= rotl32(x7 + x3, 13);
+		x15 ^= rotl32(x11 + x7, 18);
+		// 行运算
+		x1 ^= rotl32(x0 + x3, 7);
+		x2 ^= rotl32(x1 + x0, 9);
+		x3 ^= rotl32(x2 + x1, 13);
+		x0 ^= rotl32(x3 + x2, 18);
+		x6 ^= rotl32(x5 + x4, 7);
+		x7 ^= rotl32(x6 + x5, 9);
+		x4 ^= rotl32(x7 + x6, 13);
+		x5 ^= rotl32(x4 + x7, 18);
+		x11 ^= rotl32(x10 + x9, 7);
+		x8 ^= rotl32(x11 + x10, 9);
+		x9 ^= rotl32(x8 + x11, 13);
+		x10 ^= rotl32(x9 + x8, 18);
+		x12 ^= rotl32(x15 + x14, 7);
+		x13 ^= rotl32(x12 + x15, 9);
+		x14 ^= rotl32(x13 + x12, 13);
+		x15 ^= rotl32(x14 + x13, 18);
+	}
+	b[0] += x0;
+	b[1] += x1;
+	b[2] += x2;
+	b[3] += x3;
+	b[4] += x4;
+	b[5] += x5;
+	b[6] += x6;
+	b[7] += x7;
+	b[8] += x8;
+	b[9] += x9;
+	b[10] += x10;
+	b[11] += x11;
+	b[12] += x12;
+	b[13] += x13;
+	b[14] += x14;
+	b[15] += x15;
+}
+
+/**
+ * 32位循环左移
+ */
+function rotl32(x: number, n: number): number {
+	return (x << n) | (x >>> (32 - n));
+}
+
+/**
+ * 将字节数组按小端序读取为32位字
+ */
+function decodeWords(bytes: Uint8Array, offset: number, words: Uint32Array): void {
+	for (let i = 0; i < words.length; i++) {
+		const j = offset + i * 4;
+		words[i] = bytes[j] | (bytes[j + 1] << 8) | (bytes[j + 2] << 16) | (bytes[j + 3] << 24);
+	}
+}
+
+/**
+ * 将32位字按小端序写入字节数组
+ */
+function encodeWords(words: Uint32Array, bytes: Uint8Array, offset: number): void {
+	for (let i = 0; i < words.length; i++) {
+		const j = offset + i * 4;
+		bytes[j] = words[i];
+		bytes[j + 1] = words[i] >>> 8;
+		bytes[j + 2] = words[i] >>> 16;
+		bytes[j + 3] = words[i] >>> 24;
+	}
+}
@@ -1,5 +1,6 @@
 import { expect, test } from "vitest";
 import { sha1, SHA1 } from "./index.js";
+import { testClone } from "../hash/test-utils.js";
 
 test("SHA1", async () => {
 	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
@@ -12,3 +13,7 @@ test("SHA1", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHA1.clone()", () => {
+	testClone(() => new SHA1(), sha1);
+});
@@ -178,6 +178,20 @@ export class SHA1 implements Hash {
 		return result;
 	}
 
+	/**
+	 * 复制当前的哈希计算状态
+	 * 
+	 * @returns 状态相同的新SHA-1实例
+	 */
+	public clone(): SHA1 {
+		const hash = new SHA1();
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.H.set(this.H);
+		hash.l = this.l;
+		return hash;
+	}
+
 	/**
 	 * 处理单个完整的数据块（64字节/512位）
 	 * 
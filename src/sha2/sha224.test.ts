@@ -1,5 +1,6 @@
 import { expect, test } from "vitest";
 import { sha224, SHA224 } from "./sha224.js";
+import { testClone } from "../hash/test-utils.js";
 
 test("SHA224", async () => {
 	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
@@ -12,3 +13,7 @@ test("SHA224", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHA224.clone()", () => {
+	testClone(() => new SHA224(), sha224);
+});
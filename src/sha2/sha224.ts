@@ -11,7 +11,7 @@ export function sha224(data: Uint8Array): Uint8Array {
 
 export class SHA224 implements Hash {
 	public blockSize = 64;
-	public size = 32;
+	public size = 28;
 
 	private blocks = new Uint8Array(64);
 	private currentBlockSize = 0;
@@ -67,6 +67,15 @@ export class SHA224 implements Hash {
 		return result;
 	}
 
+	public clone(): SHA224 {
+		const hash = new SHA224();
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.H.set(this.H);
+		hash.l = this.l;
+		return hash;
+	}
+
 	private process(): void {
 		for (let t = 0; t < 16; t++) {
 			this.w[t] =
@@ -1,5 +1,6 @@
 import { expect, test } from "vitest";
 import { sha256, SHA256 } from "./sha256.js";
+import { testClone } from "../hash/test-utils.js";
 
 test("SHA256", async () => {
 	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
@@ -12,3 +13,7 @@ test("SHA256", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHA256.clone()", () => {
+	testClone(() => new SHA256(), sha256);
+});
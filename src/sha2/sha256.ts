@@ -188,6 +188,20 @@ export class SHA256 implements Hash {
 		return result;
 	}
 
+	/**
+	 * 复制当前的哈希计算状态
+	 * 
+	 * @returns 状态相同的新SHA-256实例
+	 */
+	public clone(): SHA256 {
+		const hash = new SHA256();
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.H.set(this.H);
+		hash.l = this.l;
+		return hash;
+	}
+
 	/**
 	 * 处理单个完整的数据块（64字节/512位）
 	 * 
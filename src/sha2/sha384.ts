@@ -34,4 +34,10 @@ export class SHA384 implements Hash {
 		this.sha512.putDigest(result);
 		return result;
 	}
+
+	public clone(): SHA384 {
+		const hash = new SHA384();
+		hash.sha512 = this.sha512.clone();
+		return hash;
+	}
 }
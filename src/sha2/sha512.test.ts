@@ -1,5 +1,6 @@
 import { expect, test } from "vitest";
 import { SHA512, sha512 } from "./sha512.js";
+import { testClone } from "../hash/test-utils.js";
 
 test("SHA512_256", async () => {
 	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
@@ -12,3 +13,7 @@ test("SHA512_256", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHA512.clone()", () => {
+	testClone(() => new SHA512(), sha512);
+});
@@ -191,6 +191,19 @@ export class SharedSHA512 {
 		}
 	}
 
+	/**
+	 * 复制当前的哈希计算状态
+	 * 
+	 * @returns 状态相同的新实例
+	 */
+	public clone(): SharedSHA512 {
+		const hash = new SharedSHA512(this.H.slice());
+		hash.blocks.set(this.blocks);
+		hash.currentBlockSize = this.currentBlockSize;
+		hash.l = this.l;
+		return hash;
+	}
+
 	/**
 	 * 处理单个完整的数据块（128字节/1024位）
 	 * 
@@ -343,6 +356,17 @@ export class SHA512 implements Hash {
 		this.sha512.putDigest(result);
 		return result;
 	}
+
+	/**
+	 * 复制当前的哈希计算状态
+	 * 
+	 * @returns 状态相同的新SHA-512实例
+	 */
+	public clone(): SHA512 {
+		const hash = new SHA512();
+		hash.sha512 = this.sha512.clone();
+		return hash;
+	}
 }
 
 /**
@@ -35,4 +35,10 @@ export class SHA512_224 implements Hash {
 		this.sha512.putDigest(result);
 		return result.slice(0, 28);
 	}
+
+	public clone(): SHA512_224 {
+		const hash = new SHA512_224();
+		hash.sha512 = this.sha512.clone();
+		return hash;
+	}
 }
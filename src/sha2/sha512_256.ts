@@ -34,4 +34,10 @@ export class SHA512_256 implements Hash {
 		this.sha512.putDigest(result);
 		return result;
 	}
+
+	public clone(): SHA512_256 {
+		const hash = new SHA512_256();
+		hash.sha512 = this.sha512.clone();
+		return hash;
+	}
 }
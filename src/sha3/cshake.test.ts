@@ -0,0 +1,66 @@
+import { expect, test } from "vitest";
+import { cshake128, cshake256, CSHAKE128, CSHAKE256 } from "./cshake.js";
+import { shake128, shake256 } from "./xof.js";
+
+test("CSHAKE128", async () => {
+	const customization = new TextEncoder().encode("Email Signature");
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = cshake128(
+			i + 1,
+			randomValues.slice(0, i * 5),
+			new Uint8Array(),
+			customization
+		);
+		const hash = new CSHAKE128(i + 1, new Uint8Array(), customization);
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("CSHAKE256", async () => {
+	const customization = new TextEncoder().encode("Email Signature");
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = cshake256(
+			i + 1,
+			randomValues.slice(0, i * 5),
+			new Uint8Array(),
+			customization
+		);
+		const hash = new CSHAKE256(i + 1, new Uint8Array(), customization);
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("cshake128() and cshake256() without function name and customization are SHAKE", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(200));
+	expect(cshake128(64, data)).toStrictEqual(shake128(64, data));
+	expect(cshake256(64, data)).toStrictEqual(shake256(64, data));
+});
+
+test("cshake128() separates function names and customization strings", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(32));
+	const a = new TextEncoder().encode("a");
+	const b = new TextEncoder().encode("b");
+	expect(cshake128(32, data, a)).not.toStrictEqual(cshake128(32, data, b));
+	expect(cshake128(32, data, a)).not.toStrictEqual(cshake128(32, data, new Uint8Array(), a));
+});
+
+test("CSHAKE128.read()", async () => {
+	const customization = new TextEncoder().encode("Email Signature");
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const expected = cshake128(500, data, new Uint8Array(), customization);
+	const xof = new CSHAKE128(32, new Uint8Array(), customization);
+	xof.update(data);
+	const result = new Uint8Array(500);
+	result.set(xof.read(100));
+	result.set(xof.read(300), 100);
+	result.set(xof.read(100), 400);
+	expect(result).toStrictEqual(expected);
+});
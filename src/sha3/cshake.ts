@@ -0,0 +1,209 @@
+/**
+ * cSHAKE 可定制的SHAKE函数实现模块（NIST SP 800-185）
+ *
+ * cSHAKE在SHAKE的基础上增加了两个参数：
+ * - 函数名N：由NIST定义，用于基于cSHAKE构造其他函数（如"KMAC"、"TupleHash"）
+ * - 定制字符串S：由用户选择，用于区分不同的应用场景（领域分隔）
+ *
+ * cSHAKE(X, L, N, S) = KECCAK[c](bytepad(encode_string(N) || encode_string(S), rate) || X || 00, L)
+ *
+ * 当N和S都为空时，cSHAKE与SHAKE完全相同。
+ */
+
+import { bytepad, encodeString } from "./encoding.js";
+import { SHA3XOF } from "./sha3.js";
+import type { Hash } from "../hash/index.js";
+
+/**
+ * cSHAKE128 哈希函数 - 便捷版本
+ *
+ * @example
+ * const customization = new TextEncoder().encode("Email Signature");
+ * const hash = cshake128(32, data, new Uint8Array(), customization);
+ *
+ * @param size 输出长度（字节）
+ * @param data 要计算哈希值的数据
+ * @param functionName 函数名N（应用通常使用空字节串）
+ * @param customization 定制字符串S
+ * @returns 指定长度的cSHAKE128哈希值
+ */
+export function cshake128(
+	size: number,
+	data: Uint8Array,
+	functionName?: Uint8Array,
+	customization?: Uint8Array
+): Uint8Array {
+	const hash = new CSHAKE128(size, functionName, customization);
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * cSHAKE256 哈希函数 - 便捷版本
+ *
+ * @param size 输出长度（字节）
+ * @param data 要计算哈希值的数据
+ * @param functionName 函数名N（应用通常使用空字节串）
+ * @param customization 定制字符串S
+ * @returns 指定长度的cSHAKE256哈希值
+ */
+export function cshake256(
+	size: number,
+	data: Uint8Array,
+	functionName?: Uint8Array,
+	customization?: Uint8Array
+): Uint8Array {
+	const hash = new CSHAKE256(size, functionName, customization);
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * CSHAKE128 类 - 实现cSHAKE128
+ */
+export class CSHAKE128 implements Hash {
+	/**
+	 * 与SHAKE128相同，吸收率为168字节
+	 */
+	public blockSize = 168;
+
+	/**
+	 * 期望输出的哈希值的字节长度
+	 */
+	public size: number;
+
+	private sha3: SHA3XOF;
+
+	/**
+	 * @param size 输出长度（字节），必须大于0
+	 * @param functionName 函数名N，默认为空
+	 * @param customization 定制字符串S，默认为空
+	 */
+	constructor(
+		size: number,
+		functionName: Uint8Array = new Uint8Array(),
+		customization: Uint8Array = new Uint8Array()
+	) {
+		if (size < 1) {
+			throw new TypeError("Invalid hash size");
+		}
+		this.size = size;
+		this.sha3 = createCSHAKE(this.blockSize, size, functionName, customization);
+	}
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	/**
+	 * 增量读取输出，每次都从上次停止的位置继续挤压
+	 *
+	 * @param size 要读取的字节数
+	 * @returns 接下来的size个字节
+	 */
+	public read(size: number): Uint8Array {
+		return this.sha3.read(size);
+	}
+
+	/**
+	 * 复制当前的哈希计算状态
+	 *
+	 * @returns 状态相同的新CSHAKE128实例
+	 */
+	public clone(): CSHAKE128 {
+		const hash = new CSHAKE128(this.size);
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+/**
+ * CSHAKE256 类 - 实现cSHAKE256
+ */
+export class CSHAKE256 implements Hash {
+	/**
+	 * 与SHAKE256相同，吸收率为136字节
+	 */
+	public blockSize = 136;
+
+	/**
+	 * 期望输出的哈希值的字节长度
+	 */
+	public size: number;
+
+	private sha3: SHA3XOF;
+
+	/**
+	 * @param size 输出长度（字节），必须大于0
+	 * @param functionName 函数名N，默认为空
+	 * @param customization 定制字符串S，默认为空
+	 */
+	constructor(
+		size: number,
+		functionName: Uint8Array = new Uint8Array(),
+		customization: Uint8Array = new Uint8Array()
+	) {
+		if (size < 1) {
+			throw new TypeError("Invalid hash size");
+		}
+		this.size = size;
+		this.sha3 = createCSHAKE(this.blockSize, size, functionName, customization);
+	}
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	/**
+	 * 增量读取输出，每次都从上次停止的位置继续挤压
+	 *
+	 * @param size 要读取的字节数
+	 * @returns 接下来的size个字节
+	 */
+	public read(size: number): Uint8Array {
+		return this.sha3.read(size);
+	}
+
+	/**
+	 * 复制当前的哈希计算状态
+	 *
+	 * @returns 状态相同的新CSHAKE256实例
+	 */
+	public clone(): CSHAKE256 {
+		const hash = new CSHAKE256(this.size);
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+/**
+ * 创建已吸收bytepad(encode_string(N) || encode_string(S), rate)的海绵
+ *
+ * N和S都为空时退化为SHAKE（领域分隔值0x1F），否则使用领域分隔值0x04。
+ */
+function createCSHAKE(
+	rate: number,
+	size: number,
+	functionName: Uint8Array,
+	customization: Uint8Array
+): SHA3XOF {
+	if (functionName.byteLength === 0 && customization.byteLength === 0) {
+		return new SHA3XOF(rate, size);
+	}
+	const sha3 = new SHA3XOF(rate, size, 0x04);
+	const encodedFunctionName = encodeString(functionName);
+	const encodedCustomization = encodeString(customization);
+	const prefix = new Uint8Array(encodedFunctionName.byteLength + encodedCustomization.byteLength);
+	prefix.set(encodedFunctionName);
+	prefix.set(encodedCustomization, encodedFunctionName.byteLength);
+	sha3.absorb(bytepad(prefix, rate));
+	return sha3;
+}
@@ -0,0 +1,32 @@
+import { expect, test } from "vitest";
+import { bytepad, encodeString, leftEncode, rightEncode } from "./encoding.js";
+
+test("leftEncode()", () => {
+	expect(leftEncode(0)).toStrictEqual(new Uint8Array([1, 0]));
+	expect(leftEncode(255)).toStrictEqual(new Uint8Array([1, 255]));
+	expect(leftEncode(256)).toStrictEqual(new Uint8Array([2, 1, 0]));
+	expect(() => leftEncode(-1)).toThrowError(TypeError);
+	expect(() => leftEncode(0.5)).toThrowError(TypeError);
+});
+
+test("rightEncode()", () => {
+	expect(rightEncode(0)).toStrictEqual(new Uint8Array([0, 1]));
+	expect(rightEncode(255)).toStrictEqual(new Uint8Array([255, 1]));
+	expect(rightEncode(256)).toStrictEqual(new Uint8Array([1, 0, 2]));
+	expect(() => rightEncode(-1)).toThrowError(TypeError);
+});
+
+test("encodeString()", () => {
+	expect(encodeString(new Uint8Array())).toStrictEqual(new Uint8Array([1, 0]));
+	expect(encodeString(new Uint8Array([0x4b, 0x4d, 0x41, 0x43]))).toStrictEqual(
+		new Uint8Array([1, 32, 0x4b, 0x4d, 0x41, 0x43])
+	);
+});
+
+test("bytepad()", () => {
+	expect(bytepad(new Uint8Array([1, 2]), 4)).toStrictEqual(new Uint8Array([1, 4, 1, 2]));
+	expect(bytepad(new Uint8Array([1, 2, 3]), 4)).toStrictEqual(
+		new Uint8Array([1, 4, 1, 2, 3, 0, 0, 0])
+	);
+	expect(() => bytepad(new Uint8Array(), 0)).toThrowError(TypeError);
+});
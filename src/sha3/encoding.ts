@@ -0,0 +1,89 @@
+/**
+ * NIST SP 800-185 编码函数
+ *
+ * cSHAKE、KMAC、TupleHash和ParallelHash使用这些函数对长度和字符串进行无歧义的编码，
+ * 保证不同的输入参数组合不会得到相同的字节串。
+ */
+
+/**
+ * left_encode(x)：将整数x编码为最少的大端序字节，并在前面加上字节数
+ *
+ * @example
+ * leftEncode(0); // [0x01, 0x00]
+ * leftEncode(256); // [0x02, 0x01, 0x00]
+ *
+ * @param x 非负整数（0 <= x < 2^53）
+ * @returns 编码后的字节串
+ * @throws 如果x无效
+ */
+export function leftEncode(x: number): Uint8Array {
+	const bytes = encodeInteger(x);
+	const result = new Uint8Array(bytes.byteLength + 1);
+	result[0] = bytes.byteLength;
+	result.set(bytes, 1);
+	return result;
+}
+
+/**
+ * right_encode(x)：将整数x编码为最少的大端序字节，并在后面加上字节数
+ *
+ * @param x 非负整数（0 <= x < 2^53）
+ * @returns 编码后的字节串
+ * @throws 如果x无效
+ */
+export function rightEncode(x: number): Uint8Array {
+	const bytes = encodeInteger(x);
+	const result = new Uint8Array(bytes.byteLength + 1);
+	result.set(bytes);
+	result[bytes.byteLength] = bytes.byteLength;
+	return result;
+}
+
+/**
+ * encode_string(S)：left_encode(len(S))后接S，其中长度以位为单位
+ *
+ * @param s 字节串
+ * @returns 编码后的字节串
+ */
+export function encodeString(s: Uint8Array): Uint8Array {
+	const length = leftEncode(s.byteLength * 8);
+	const result = new Uint8Array(length.byteLength + s.byteLength);
+	result.set(length);
+	result.set(s, length.byteLength);
+	return result;
+}
+
+/**
+ * bytepad(X, w)：left_encode(w)后接X，并用零字节填充到w的整数倍
+ *
+ * @param x 字节串
+ * @param w 块大小（字节），通常为海绵结构的吸收率
+ * @returns 长度为w的整数倍的字节串
+ * @throws 如果w无效
+ */
+export function bytepad(x: Uint8Array, w: number): Uint8Array {
+	if (!Number.isInteger(w) || w < 1) {
+		throw new TypeError("Invalid block size");
+	}
+	const prefix = leftEncode(w);
+	const length = Math.ceil((prefix.byteLength + x.byteLength) / w) * w;
+	const result = new Uint8Array(length);
+	result.set(prefix);
+	result.set(x, prefix.byteLength);
+	return result;
+}
+
+/**
+ * 将非负整数编码为最少的大端序字节（至少1字节）
+ */
+function encodeInteger(x: number): Uint8Array {
+	if (!Number.isSafeInteger(x) || x < 0) {
+		throw new TypeError("Invalid integer");
+	}
+	const bytes: number[] = [];
+	do {
+		bytes.unshift(x % 256);
+		x = Math.floor(x / 256);
+	} while (x > 0);
+	return new Uint8Array(bytes);
+}
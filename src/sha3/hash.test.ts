@@ -1,4 +1,5 @@
 import { expect, test } from "vitest";
+import { testClone } from "../hash/test-utils.js";
 import {
 	sha3_224,
 	sha3_256,
@@ -57,3 +58,7 @@ test("SHA3_512", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHA3_256.clone()", () => {
+	testClone(() => new SHA3_256(), sha3_256);
+});
@@ -128,6 +128,15 @@ export class SHA3_224 implements Hash {
 	public digest(): Uint8Array {
 		return this.sha3.squeeze();
 	}
+	
+	/**
+	 * 复制当前的哈希计算状态
+	 */
+	public clone(): SHA3_224 {
+		const hash = new SHA3_224();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
 
 /**
@@ -167,6 +176,15 @@ export class SHA3_256 implements Hash {
 	public digest(): Uint8Array {
 		return this.sha3.squeeze();
 	}
+	
+	/**
+	 * 复制当前的哈希计算状态
+	 */
+	public clone(): SHA3_256 {
+		const hash = new SHA3_256();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
 
 /**
@@ -206,6 +224,15 @@ export class SHA3_384 implements Hash {
 	public digest(): Uint8Array {
 		return this.sha3.squeeze();
 	}
+	
+	/**
+	 * 复制当前的哈希计算状态
+	 */
+	public clone(): SHA3_384 {
+		const hash = new SHA3_384();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
 
 /**
@@ -245,4 +272,13 @@ export class SHA3_512 implements Hash {
 	public digest(): Uint8Array {
 		return this.sha3.squeeze();
 	}
+	
+	/**
+	 * 复制当前的哈希计算状态
+	 */
+	public clone(): SHA3_512 {
+		const hash = new SHA3_512();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
@@ -14,6 +14,9 @@
  * - 固定输出长度的哈希函数：SHA3-224、SHA3-256、SHA3-384、SHA3-512
  * - 可扩展输出函数（XOF）：SHAKE128、SHAKE256
  * 
+ * 此外还包括NIST SP 800-185定义的派生函数：cSHAKE、KMAC、TupleHash和ParallelHash，
+ * 以及以太坊使用的原始Keccak哈希函数。
+ * 
  * 本模块导出了所有SHA-3变体的类和便捷函数。
  */
 
@@ -42,3 +45,40 @@ export {
 	SHAKE128, // SHAKE128的类实现
 	SHAKE256  // SHAKE256的类实现
 } from "./xof.js";
+
+// 导出原始Keccak哈希函数（以太坊使用的Keccak-256等）
+export {
+	keccak224, // 生成224位（28字节）哈希值
+	keccak256, // 生成256位（32字节）哈希值
+	keccak384, // 生成384位（48字节）哈希值
+	keccak512, // 生成512位（64字节）哈希值
+	Keccak224, // Keccak-224的类实现
+	Keccak256, // Keccak-256的类实现
+	Keccak384, // Keccak-384的类实现
+	Keccak512  // Keccak-512的类实现
+} from "./keccak.js";
+
+// 导出可定制的SHAKE函数（cSHAKE）
+export {
+	cshake128, // 基于128位安全强度的cSHAKE
+	cshake256, // 基于256位安全强度的cSHAKE
+	CSHAKE128, // cSHAKE128的类实现
+	CSHAKE256  // cSHAKE256的类实现
+} from "./cshake.js";
+
+// 导出基于Keccak的消息认证码（KMAC）
+export {
+	kmac128, // 基于128位安全强度的KMAC
+	kmac256, // 基于256位安全强度的KMAC
+	KMAC128, // KMAC128的类实现
+	KMAC256  // KMAC256的类实现
+} from "./kmac.js";
+
+// 导出元组哈希（TupleHash）
+export { tupleHash128, tupleHash256 } from "./tuplehash.js";
+
+// 导出并行哈希（ParallelHash）
+export { parallelHash128, parallelHash256 } from "./parallelhash.js";
+
+// 导出NIST SP 800-185编码函数
+export { bytepad, encodeString, leftEncode, rightEncode } from "./encoding.js";
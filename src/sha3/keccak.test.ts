@@ -0,0 +1,69 @@
+import { expect, test } from "vitest";
+import {
+	keccak224,
+	keccak256,
+	keccak384,
+	keccak512,
+	Keccak224,
+	Keccak256,
+	Keccak384,
+	Keccak512
+} from "./keccak.js";
+import { sha3_256 } from "./hash.js";
+import { decodeHex } from "@oslojs/encoding";
+
+test("Keccak224", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = keccak224(randomValues.slice(0, i * 5));
+		const hash = new Keccak224();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("Keccak256", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = keccak256(randomValues.slice(0, i * 5));
+		const hash = new Keccak256();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("Keccak384", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = keccak384(randomValues.slice(0, i * 5));
+		const hash = new Keccak384();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("Keccak512", async () => {
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = keccak512(randomValues.slice(0, i * 5));
+		const hash = new Keccak512();
+		for (let j = 0; j < i; j++) {
+			hash.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(hash.digest()).toStrictEqual(expected);
+	}
+});
+
+test("keccak256() uses the original Keccak padding", async () => {
+	expect(keccak256(new Uint8Array())).toStrictEqual(
+		decodeHex("c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470")
+	);
+	const data = crypto.getRandomValues(new Uint8Array(32));
+	expect(keccak256(data)).not.toStrictEqual(sha3_256(data));
+});
@@ -0,0 +1,165 @@
+/**
+ * Keccak 哈希算法实现模块
+ *
+ * 这里的Keccak指的是SHA-3标准化之前提交到SHA-3竞赛的原始版本。
+ * 它与SHA-3使用相同的Keccak-f[1600]置换和吸收率，区别只在于填充：
+ * 原始Keccak使用pad10*1填充（领域分隔值0x01），而FIPS 202在填充前追加了01两位（领域分隔值0x06）。
+ * 因此对同一输入，Keccak-256和SHA3-256的结果完全不同。
+ *
+ * 以太坊在SHA-3最终定稿之前就采用了Keccak-256，用于地址、交易哈希和函数选择器等，
+ * 新的应用应该使用SHA-3。
+ */
+
+import { SHA3 } from "./sha3.js";
+import type { Hash } from "../hash/index.js";
+
+/**
+ * Keccak-224哈希函数 - 便捷版本
+ *
+ * @param data 要计算哈希值的数据
+ * @returns Keccak-224哈希值（28字节/224位）
+ */
+export function keccak224(data: Uint8Array): Uint8Array {
+	const hash = new Keccak224();
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * Keccak-256哈希函数 - 便捷版本
+ *
+ * @example
+ * // 以太坊函数选择器是函数签名的Keccak-256哈希值的前4个字节
+ * const selector = keccak256(new TextEncoder().encode("transfer(address,uint256)")).slice(0, 4);
+ *
+ * @param data 要计算哈希值的数据
+ * @returns Keccak-256哈希值（32字节/256位）
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+	const hash = new Keccak256();
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * Keccak-384哈希函数 - 便捷版本
+ *
+ * @param data 要计算哈希值的数据
+ * @returns Keccak-384哈希值（48字节/384位）
+ */
+export function keccak384(data: Uint8Array): Uint8Array {
+	const hash = new Keccak384();
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * Keccak-512哈希函数 - 便捷版本
+ *
+ * @param data 要计算哈希值的数据
+ * @returns Keccak-512哈希值（64字节/512位）
+ */
+export function keccak512(data: Uint8Array): Uint8Array {
+	const hash = new Keccak512();
+	hash.update(data);
+	return hash.digest();
+}
+
+/**
+ * Keccak-224类 - 块大小与SHA3-224相同（144字节）
+ */
+export class Keccak224 implements Hash {
+	public blockSize = 144;
+	public size = 28;
+
+	private sha3 = new SHA3(this.blockSize, this.size, KECCAK_DOMAIN_SEPARATOR);
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	public clone(): Keccak224 {
+		const hash = new Keccak224();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+/**
+ * Keccak-256类 - 块大小与SHA3-256相同（136字节）
+ */
+export class Keccak256 implements Hash {
+	public blockSize = 136;
+	public size = 32;
+
+	private sha3 = new SHA3(this.blockSize, this.size, KECCAK_DOMAIN_SEPARATOR);
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	public clone(): Keccak256 {
+		const hash = new Keccak256();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+/**
+ * Keccak-384类 - 块大小与SHA3-384相同（104字节）
+ */
+export class Keccak384 implements Hash {
+	public blockSize = 104;
+	public size = 48;
+
+	private sha3 = new SHA3(this.blockSize, this.size, KECCAK_DOMAIN_SEPARATOR);
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	public clone(): Keccak384 {
+		const hash = new Keccak384();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+/**
+ * Keccak-512类 - 块大小与SHA3-512相同（72字节）
+ */
+export class Keccak512 implements Hash {
+	public blockSize = 72;
+	public size = 64;
+
+	private sha3 = new SHA3(this.blockSize, this.size, KECCAK_DOMAIN_SEPARATOR);
+
+	public update(data: Uint8Array): void {
+		this.sha3.absorb(data);
+	}
+
+	public digest(): Uint8Array {
+		return this.sha3.squeeze();
+	}
+
+	public clone(): Keccak512 {
+		const hash = new Keccak512();
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
+}
+
+// 原始Keccak的pad10*1填充
+const KECCAK_DOMAIN_SEPARATOR = 0x01;
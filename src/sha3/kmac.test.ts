@@ -0,0 +1,43 @@
+import { expect, test } from "vitest";
+import { kmac128, kmac256, KMAC128, KMAC256 } from "./kmac.js";
+import { testClone } from "../hash/test-utils.js";
+
+test("KMAC128", async () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = kmac128(key, i + 1, randomValues.slice(0, i * 5));
+		const mac = new KMAC128(key, i + 1);
+		for (let j = 0; j < i; j++) {
+			mac.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(mac.digest()).toStrictEqual(expected);
+	}
+});
+
+test("KMAC256", async () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
+	for (let i = 0; i < randomValues.byteLength / 5; i++) {
+		const expected = kmac256(key, i + 1, randomValues.slice(0, i * 5));
+		const mac = new KMAC256(key, i + 1);
+		for (let j = 0; j < i; j++) {
+			mac.update(randomValues.slice(j * 5, (j + 1) * 5));
+		}
+		expect(mac.digest()).toStrictEqual(expected);
+	}
+});
+
+test("kmac128() output depends on output size", async () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	const data = crypto.getRandomValues(new Uint8Array(32));
+	expect(kmac128(key, 64, data).slice(0, 32)).not.toStrictEqual(kmac128(key, 32, data));
+});
+
+test("KMAC128.clone()", () => {
+	const key = crypto.getRandomValues(new Uint8Array(32));
+	testClone(
+		() => new KMAC128(key, 32),
+		(data) => kmac128(key, 32, data)
+	);
+});
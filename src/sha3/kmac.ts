@@ -0,0 +1,168 @@
+/**
+ * KMAC 基于Keccak的消息认证码实现模块（NIST SP 800-185）
+ *
+ * KMAC是基于cSHAKE的带密钥的哈希函数，可以直接用作消息认证码（MAC）或伪随机函数（PRF）。
+ * 与HMAC不同，Keccak的海绵结构本身可以抵抗长度扩展攻击，因此KMAC不需要嵌套的两次哈希：
+ *
+ * KMAC128(K, X, L, S) = cSHAKE128(bytepad(encode_string(K), 168) || X || right_encode(L), L, "KMAC", S)
+ *
+ * 其中L为输出长度（位），它也参与计算，因此不同输出长度的结果互不相关。
+ * 定制字符串S可以用于领域分隔，使同一个密钥在不同用途下得到不同的MAC。
+ */
+
+import { bytepad, encodeString, rightEncode } from "./encoding.js";
+import { CSHAKE128, CSHAKE256 } from "./cshake.js";
+import type { Hash } from "../hash/index.js";
+
+/**
+ * KMAC128 - 便捷版本
+ *
+ * @example
+ * const customization = new TextEncoder().encode("My Tagged Application");
+ * const mac = kmac128(key, 32, message, customization);
+ *
+ * @param key 密钥（推荐至少16字节）
+ * @param size 输出长度（字节）
+ * @param data 消息
+ * @param customization 定制字符串S
+ * @returns 长度为size的MAC
+ */
+export function kmac128(
+	key: Uint8Array,
+	size: number,
+	data: Uint8Array,
+	customization?: Uint8Array
+): Uint8Array {
+	const mac = new KMAC128(key, size, customization);
+	mac.update(data);
+	return mac.digest();
+}
+
+/**
+ * KMAC256 - 便捷版本
+ *
+ * @param key 密钥（推荐至少32字节）
+ * @param size 输出长度（字节）
+ * @param data 消息
+ * @param customization 定制字符串S
+ * @returns 长度为size的MAC
+ */
+export function kmac256(
+	key: Uint8Array,
+	size: number,
+	data: Uint8Array,
+	customization?: Uint8Array
+): Uint8Array {
+	const mac = new KMAC256(key, size, customization);
+	mac.update(data);
+	return mac.digest();
+}
+
+/**
+ * KMAC128 类 - 实现KMAC128
+ *
+ * 实现Hash接口，与HMAC类的用法相同。
+ */
+export class KMAC128 implements Hash {
+	/**
+	 * 与cSHAKE128相同，吸收率为168字节
+	 */
+	public blockSize = 168;
+
+	/**
+	 * MAC的字节长度
+	 */
+	public size: number;
+
+	private cshake: CSHAKE128;
+
+	/**
+	 * @param key 密钥
+	 * @param size 输出长度（字节），必须大于0
+	 * @param customization 定制字符串S，默认为空
+	 */
+	constructor(key: Uint8Array, size: number, customization: Uint8Array = new Uint8Array()) {
+		this.size = size;
+		this.cshake = new CSHAKE128(size, KMAC_FUNCTION_NAME, customization);
+		this.cshake.update(bytepad(encodeString(key), this.blockSize));
+	}
+
+	public update(data: Uint8Array): void {
+		this.cshake.update(data);
+	}
+
+	public digest(): Uint8Array {
+		this.cshake.update(rightEncode(this.size * 8));
+		return this.cshake.digest();
+	}
+
+	/**
+	 * 复制当前的MAC计算状态
+	 *
+	 * @returns 状态相同的新KMAC128实例
+	 */
+	public clone(): KMAC128 {
+		// 不调用构造函数，避免重新吸收密钥
+		const mac = Object.create(KMAC128.prototype) as KMAC128;
+		mac.blockSize = this.blockSize;
+		mac.size = this.size;
+		mac.cshake = this.cshake.clone();
+		return mac;
+	}
+}
+
+/**
+ * KMAC256 类 - 实现KMAC256
+ *
+ * 实现Hash接口，与HMAC类的用法相同。
+ */
+export class KMAC256 implements Hash {
+	/**
+	 * 与cSHAKE256相同，吸收率为136字节
+	 */
+	public blockSize = 136;
+
+	/**
+	 * MAC的字节长度
+	 */
+	public size: number;
+
+	private cshake: CSHAKE256;
+
+	/**
+	 * @param key 密钥
+	 * @param size 输出长度（字节），必须大于0
+	 * @param customization 定制字符串S，默认为空
+	 */
+	constructor(key: Uint8Array, size: number, customization: Uint8Array = new Uint8Array()) {
+		this.size = size;
+		this.cshake = new CSHAKE256(size, KMAC_FUNCTION_NAME, customization);
+		this.cshake.update(bytepad(encodeString(key), this.blockSize));
+	}
+
+	public update(data: Uint8Array): void {
+		this.cshake.update(data);
+	}
+
+	public digest(): Uint8Array {
+		this.cshake.update(rightEncode(this.size * 8));
+		return this.cshake.digest();
+	}
+
+	/**
+	 * 复制当前的MAC计算状态
+	 *
+	 * @returns 状态相同的新KMAC256实例
+	 */
+	public clone(): KMAC256 {
+		// 不调用构造函数，避免重新吸收密钥
+		const mac = Object.create(KMAC256.prototype) as KMAC256;
+		mac.blockSize = this.blockSize;
+		mac.size = this.size;
+		mac.cshake = this.cshake.clone();
+		return mac;
+	}
+}
+
+// 函数名N = "KMAC"
+const KMAC_FUNCTION_NAME = new Uint8Array([0x4b, 0x4d, 0x41, 0x43]);
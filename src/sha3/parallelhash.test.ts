@@ -0,0 +1,13 @@
+import { expect, test } from "vitest";
+import { parallelHash128, parallelHash256 } from "./parallelhash.js";
+
+test("parallelHash128() and parallelHash256() depend on block size", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	expect(parallelHash128(32, data, 8)).not.toStrictEqual(parallelHash128(32, data, 16));
+	expect(parallelHash256(64, data, 8)).not.toStrictEqual(parallelHash256(64, data, 16));
+});
+
+test("parallelHash128() throws on invalid block size", async () => {
+	expect(() => parallelHash128(32, new Uint8Array(), 0)).toThrowError(TypeError);
+	expect(() => parallelHash256(64, new Uint8Array(), 1.5)).toThrowError(TypeError);
+});
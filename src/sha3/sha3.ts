@@ -50,15 +50,22 @@ export class SHA3 {
 	 */
 	private absorbedBytes = 0;
 
+	/**
+	 * 领域分隔值 - SHA-3为0x06，原始Keccak（以太坊使用）为0x01
+	 */
+	private domainSeparator: bigint;
+
 	/**
 	 * 构造SHA3哈希实例
 	 * 
 	 * @param rate 吸收率（字节）- 每次可以吸收的数据量
 	 * @param outputSize 输出大小（字节）- 哈希值的长度
+	 * @param domainSeparator 领域分隔值，默认为SHA-3的0x06
 	 */
-	constructor(rate: number, outputSize: number) {
+	constructor(rate: number, outputSize: number, domainSeparator = 0x06) {
 		this.rate = rate;
 		this.outputSize = outputSize;
+		this.domainSeparator = BigInt(domainSeparator);
 	}
 
 	/**
@@ -94,7 +101,7 @@ export class SHA3 {
 	 * 挤压阶段 - 从状态中提取哈希值
 	 * 
 	 * 挤压过程：
-	 * 1. 添加填充和领域分隔值（0x06）
+	 * 1. 添加填充和领域分隔值（SHA-3为0x06，Keccak为0x01）
 	 * 2. 添加帧位（0x80）到最后一个字节
 	 * 3. 执行Keccak-f置换
 	 * 4. 从状态中提取所需长度的输出
@@ -102,9 +109,9 @@ export class SHA3 {
 	 * @returns 最终的哈希值
 	 */
 	public squeeze(): Uint8Array {
-		// 添加SHA-3的领域分隔值0x06（区别于SHAKE的0x1F）
+		// 添加SHA-3的领域分隔值0x06（区别于SHAKE的0x1F）或原始Keccak的0x01
 		this.state[Math.floor(this.absorbedBytes / 8)] ^=
-			0x06n << (BigInt(this.absorbedBytes % 8) * 8n);
+			this.domainSeparator << (BigInt(this.absorbedBytes % 8) * 8n);
 		
 		// 添加帧位（设置状态最高位为1）
 		this.state[Math.floor((this.rate - 1) / 8)] ^= 0x8000000000000000n;
@@ -133,6 +140,19 @@ export class SHA3 {
 		// 截取所需长度的输出
 		return z.slice(0, this.outputSize);
 	}
+
+	/**
+	 * 复制当前的海绵状态
+	 * 
+	 * @returns 状态相同的新SHA3实例
+	 */
+	public clone(): SHA3 {
+		const sha3 = new SHA3(this.rate, this.outputSize);
+		sha3.state.set(this.state);
+		sha3.absorbedBytes = this.absorbedBytes;
+		sha3.domainSeparator = this.domainSeparator;
+		return sha3;
+	}
 }
 
 /**
@@ -165,23 +185,44 @@ export class SHA3XOF {
 	 */
 	private absorbedBytes = 0;
 
+	/**
+	 * 领域分隔值 - SHAKE为0x1F，cSHAKE为0x04
+	 */
+	private domainSeparator: bigint;
+
+	/**
+	 * 是否已进入挤压阶段 - 进入后不能再吸收数据
+	 */
+	private squeezing = false;
+
+	/**
+	 * 当前状态中已输出的字节数 - 达到吸收率时执行Keccak-f置换并重置
+	 */
+	private squeezedBytes = 0;
+
 	/**
 	 * 构造SHA3XOF哈希实例
 	 * 
 	 * @param rate 吸收率（字节）
 	 * @param outputSize 输出大小（字节）
+	 * @param domainSeparator 领域分隔值，默认为SHAKE的0x1F
 	 */
-	constructor(rate: number, outputSize: number) {
+	constructor(rate: number, outputSize: number, domainSeparator = 0x1f) {
 		this.rate = rate;
 		this.outputSize = outputSize;
+		this.domainSeparator = BigInt(domainSeparator);
 	}
 
 	/**
 	 * 吸收阶段 - 与SHA3类的实现相同
 	 * 
 	 * @param bytes 要吸收的数据
+	 * @throws 如果已经开始挤压
 	 */
 	public absorb(bytes: Uint8Array): void {
+		if (this.squeezing) {
+			throw new Error("Cannot absorb data after squeezing");
+		}
 		for (let i = 0; i < bytes.byteLength; i++) {
 			this.state[Math.floor(this.absorbedBytes / 8)] ^=
 				BigInt(bytes[i]) << (BigInt(this.absorbedBytes % 8) * 8n);
@@ -194,31 +235,69 @@ export class SHA3XOF {
 	}
 
 	/**
-	 * 挤压阶段 - 与SHA3类似，但使用不同的领域分隔值
+	 * 挤压阶段 - 一次性输出构造时指定长度的结果
 	 * 
 	 * @returns 可变长度的哈希值
 	 */
 	public squeeze(): Uint8Array {
-		// 添加SHAKE的领域分隔值0x1F（区别于SHA-3的0x06）
-		this.state[Math.floor(this.absorbedBytes / 8)] ^=
-			0x1fn << (BigInt(this.absorbedBytes % 8) * 8n);
-		
-		// 添加帧位（与SHA3相同）
-		this.state[Math.floor((this.rate - 1) / 8)] ^= 0x8000000000000000n;
-		
-		// 后续挤压过程与SHA3相同
-		keccak(this.state);
-		if (this.outputSize <= this.rate) {
-			return new Uint8Array(this.state.buffer).slice(0, this.outputSize);
+		return this.read(this.outputSize);
+	}
+
+	/**
+	 * 增量挤压 - 从海绵中读取接下来的size个字节
+	 * 
+	 * 第一次调用时添加填充并进入挤压阶段，之后每次调用都从上次停止的位置继续输出，
+	 * 因此多次读取的结果连接起来与一次读取相同长度的结果一致。
+	 * 
+	 * @param size 要读取的字节数
+	 * @returns 长度为size的输出
+	 * @throws 如果size无效
+	 */
+	public read(size: number): Uint8Array {
+		if (!Number.isInteger(size) || size < 0) {
+			throw new TypeError("Invalid output size");
 		}
-		const keccakCount = Math.ceil(this.outputSize / this.rate);
-		const z = new Uint8Array(keccakCount * this.rate);
-		z.set(new Uint8Array(this.state.buffer).slice(0, this.rate));
-		for (let i = 1; i < keccakCount; i++) {
+		if (!this.squeezing) {
+			// 添加SHAKE的领域分隔值0x1F或cSHAKE的0x04（区别于SHA-3的0x06）
+			this.state[Math.floor(this.absorbedBytes / 8)] ^=
+				this.domainSeparator << (BigInt(this.absorbedBytes % 8) * 8n);
+			
+			// 添加帧位（与SHA3相同）
+			this.state[Math.floor((this.rate - 1) / 8)] ^= 0x8000000000000000n;
+			
 			keccak(this.state);
-			z.set(new Uint8Array(this.state.buffer).slice(0, this.rate), i * this.rate);
+			this.squeezing = true;
 		}
-		return z.slice(0, this.outputSize);
+		const result = new Uint8Array(size);
+		const stateBytes = new Uint8Array(this.state.buffer);
+		let offset = 0;
+		while (offset < size) {
+			// 当前状态的输出已用完，执行Keccak-f置换生成下一块
+			if (this.squeezedBytes === this.rate) {
+				keccak(this.state);
+				this.squeezedBytes = 0;
+			}
+			const length = Math.min(this.rate - this.squeezedBytes, size - offset);
+			result.set(stateBytes.subarray(this.squeezedBytes, this.squeezedBytes + length), offset);
+			this.squeezedBytes += length;
+			offset += length;
+		}
+		return result;
+	}
+
+	/**
+	 * 复制当前的海绵状态，包括挤压阶段的读取位置
+	 * 
+	 * @returns 状态相同的新SHA3XOF实例
+	 */
+	public clone(): SHA3XOF {
+		const sha3 = new SHA3XOF(this.rate, this.outputSize);
+		sha3.state.set(this.state);
+		sha3.absorbedBytes = this.absorbedBytes;
+		sha3.domainSeparator = this.domainSeparator;
+		sha3.squeezing = this.squeezing;
+		sha3.squeezedBytes = this.squeezedBytes;
+		return sha3;
 	}
 }
 
@@ -0,0 +1,9 @@
+import { expect, test } from "vitest";
+import { tupleHash128, tupleHash256 } from "./tuplehash.js";
+
+test("tupleHash128() and tupleHash256() are not ambiguous", async () => {
+	const a = [new Uint8Array([1, 2]), new Uint8Array([3])];
+	const b = [new Uint8Array([1]), new Uint8Array([2, 3])];
+	expect(tupleHash128(32, a)).not.toStrictEqual(tupleHash128(32, b));
+	expect(tupleHash256(64, a)).not.toStrictEqual(tupleHash256(64, b));
+});
@@ -0,0 +1,59 @@
+/**
+ * TupleHash 元组哈希实现模块（NIST SP 800-185）
+ *
+ * TupleHash用于对一组字节串（元组）进行哈希。每个元素都使用encode_string()编码，
+ * 因此元素之间的边界也参与计算，例如("abc", "d")和("ab", "cd")会得到不同的哈希值：
+ *
+ * TupleHash128(X, L, S) = cSHAKE128(encode_string(X[1]) || ... || encode_string(X[n]) || right_encode(L), L, "TupleHash", S)
+ */
+
+import { encodeString, rightEncode } from "./encoding.js";
+import { CSHAKE128, CSHAKE256 } from "./cshake.js";
+
+/**
+ * TupleHash128
+ *
+ * @example
+ * const hash = tupleHash128(32, [username, domain]);
+ *
+ * @param size 输出长度（字节）
+ * @param tuple 要计算哈希值的字节串元组
+ * @param customization 定制字符串S
+ * @returns 长度为size的哈希值
+ */
+export function tupleHash128(
+	size: number,
+	tuple: Uint8Array[],
+	customization: Uint8Array = new Uint8Array()
+): Uint8Array {
+	const hash = new CSHAKE128(size, TUPLE_HASH_FUNCTION_NAME, customization);
+	for (const item of tuple) {
+		hash.update(encodeString(item));
+	}
+	hash.update(rightEncode(size * 8));
+	return hash.digest();
+}
+
+/**
+ * TupleHash256
+ *
+ * @param size 输出长度（字节）
+ * @param tuple 要计算哈希值的字节串元组
+ * @param customization 定制字符串S
+ * @returns 长度为size的哈希值
+ */
+export function tupleHash256(
+	size: number,
+	tuple: Uint8Array[],
+	customization: Uint8Array = new Uint8Array()
+): Uint8Array {
+	const hash = new CSHAKE256(size, TUPLE_HASH_FUNCTION_NAME, customization);
+	for (const item of tuple) {
+		hash.update(encodeString(item));
+	}
+	hash.update(rightEncode(size * 8));
+	return hash.digest();
+}
+
+// 函数名N = "TupleHash"
+const TUPLE_HASH_FUNCTION_NAME = new TextEncoder().encode("TupleHash");
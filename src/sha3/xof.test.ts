@@ -1,5 +1,6 @@
 import { expect, test } from "vitest";
 import { shake128, shake256, SHAKE128, SHAKE256 } from "./xof.js";
+import { testClone } from "../hash/test-utils.js";
 
 test("SHAKE128", async () => {
 	const randomValues = crypto.getRandomValues(new Uint8Array(5 * 100));
@@ -24,3 +25,52 @@ test("SHAKE256", async () => {
 		expect(hash.digest()).toStrictEqual(expected);
 	}
 });
+
+test("SHAKE128.read()", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const expected = shake128(1000, data);
+	const xof = new SHAKE128(32);
+	xof.update(data);
+	const result = new Uint8Array(1000);
+	let offset = 0;
+	for (let i = 0; offset < result.byteLength; i++) {
+		const chunk = xof.read(Math.min(i * 7, result.byteLength - offset));
+		result.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	expect(result).toStrictEqual(expected);
+	expect(() => xof.update(data)).toThrowError();
+});
+
+test("SHAKE256.read()", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const expected = shake256(1000, data);
+	const xof = new SHAKE256(32);
+	xof.update(data);
+	const result = new Uint8Array(1000);
+	let offset = 0;
+	for (let i = 0; offset < result.byteLength; i++) {
+		const chunk = xof.read(Math.min(i * 7, result.byteLength - offset));
+		result.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	expect(result).toStrictEqual(expected);
+	expect(() => xof.read(-1)).toThrowError(TypeError);
+});
+
+test("SHAKE128.clone()", () => {
+	testClone(
+		() => new SHAKE128(100),
+		(data) => shake128(100, data)
+	);
+});
+
+test("SHAKE128.clone() after read()", async () => {
+	const data = crypto.getRandomValues(new Uint8Array(100));
+	const xof = new SHAKE128(32);
+	xof.update(data);
+	xof.read(200);
+	const branch = xof.clone();
+	expect(branch.read(300)).toStrictEqual(xof.read(300));
+	expect(() => branch.update(data)).toThrowError();
+});
@@ -17,7 +17,8 @@
  * 本模块基于 `./sha3.js` 中的 `SHA3XOF` 类，实现了 SHAKE128 和 SHAKE256。
  * 它提供了两种使用方式：
  * - 便捷函数 (`shake128`, `shake256`)：用于一次性计算少量数据的 XOF 输出。
- * - 类 (`SHAKE128`, `SHAKE256`)：用于处理大数据流，可以分块 `update`。
+ * - 类 (`SHAKE128`, `SHAKE256`)：用于处理大数据流，可以分块 `update`，
+ *   并且可以通过 `read` 多次读取输出，不需要预先知道总长度。
  */
 
 import { SHA3XOF } from "./sha3.js";
@@ -149,6 +150,35 @@ export class SHAKE128 implements Hash {
 		// 调用内部 SHA3XOF 实例的 squeeze 方法来获取最终结果
 		return this.sha3.squeeze();
 	}
+
+	/**
+	 * 增量读取输出，可以多次调用，每次都从上次停止的位置继续挤压。
+	 * 适合在不知道总长度时把 SHAKE128 当作确定性的字节流使用（例如采样多项式系数）。
+	 * 第一次调用后就不能再调用 `update` 了。
+	 * 
+	 * @example
+	 * const xof = new SHAKE128(32);
+	 * xof.update(seed);
+	 * const block1 = xof.read(168);
+	 * const block2 = xof.read(168);
+	 * 
+	 * @param size 要读取的字节数
+	 * @returns 接下来的 size 个字节
+	 */
+	public read(size: number): Uint8Array {
+		return this.sha3.read(size);
+	}
+
+	/**
+	 * 复制当前的哈希计算状态，包括已读取的位置。
+	 * 
+	 * @returns 状态相同的新 SHAKE128 实例
+	 */
+	public clone(): SHAKE128 {
+		const hash = new SHAKE128(this.size);
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
 
 /**
@@ -211,4 +241,26 @@ export class SHAKE256 implements Hash {
 	public digest(): Uint8Array {
 		return this.sha3.squeeze();
 	}
+
+	/**
+	 * 增量读取输出，可以多次调用，每次都从上次停止的位置继续挤压。
+	 * 第一次调用后就不能再调用 `update` 了。
+	 * 
+	 * @param size 要读取的字节数
+	 * @returns 接下来的 size 个字节
+	 */
+	public read(size: number): Uint8Array {
+		return this.sha3.read(size);
+	}
+
+	/**
+	 * 复制当前的哈希计算状态，包括已读取的位置。
+	 * 
+	 * @returns 状态相同的新 SHAKE256 实例
+	 */
+	public clone(): SHAKE256 {
+		const hash = new SHAKE256(this.size);
+		hash.sha3 = this.sha3.clone();
+		return hash;
+	}
 }
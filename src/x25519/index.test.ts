@@ -0,0 +1,100 @@
+import { expect, test } from "vitest";
+import * as nodeCrypto from "node:crypto";
+import {
+	computeX25519SharedSecret,
+	computeX448SharedSecret,
+	generateX25519KeyPair,
+	generateX448KeyPair,
+	x25519,
+	x448
+} from "./index.js";
+
+import type { RandomReader } from "../random/index.js";
+
+const random: RandomReader = {
+	read(bytes: Uint8Array): void {
+		crypto.getRandomValues(bytes);
+	}
+};
+
+const algorithms = [
+	["x25519", x25519, generateX25519KeyPair, computeX25519SharedSecret, 32],
+	["x448", x448, generateX448KeyPair, computeX448SharedSecret, 56]
+] as const;
+
+function exportRawKeys(keyPair: nodeCrypto.KeyPairKeyObjectResult): {
+	privateKey: Uint8Array;
+	publicKey: Uint8Array;
+} {
+	const jwk = keyPair.privateKey.export({ format: "jwk" });
+	return {
+		privateKey: new Uint8Array(Buffer.from(jwk.d!, "base64url")),
+		publicKey: new Uint8Array(Buffer.from(jwk.x!, "base64url"))
+	};
+}
+
+function importPublicKey(type: string, publicKey: Uint8Array): nodeCrypto.KeyObject {
+	return nodeCrypto.createPublicKey({
+		key: {
+			kty: "OKP",
+			crv: type === "x25519" ? "X25519" : "X448",
+			x: Buffer.from(publicKey).toString("base64url")
+		},
+		format: "jwk"
+	});
+}
+
+test("generate key pair", () => {
+	for (const [type, , generateKeyPair, , size] of algorithms) {
+		const keyPair = generateKeyPair(random);
+		expect(keyPair.privateKey.byteLength).toBe(size);
+		// PKCS#8 PrivateKeyInfo (RFC 8410) header followed by the raw private key
+		const pkcs8Header =
+			type === "x25519" ? "302e020100300506032b656e04220420" : "3046020100300506032b656f043a0438";
+		const nodePrivateKey = nodeCrypto.createPrivateKey({
+			key: Buffer.concat([Buffer.from(pkcs8Header, "hex"), keyPair.privateKey]),
+			format: "der",
+			type: "pkcs8"
+		});
+		const expected = nodeCrypto.createPublicKey(nodePrivateKey).export({ format: "jwk" });
+		expect(Buffer.from(keyPair.publicKey).toString("base64url")).toBe(expected.x);
+	}
+});
+
+test("compute shared secret", () => {
+	for (const [type, , generateKeyPair, computeSharedSecret] of algorithms) {
+		for (let i = 0; i < 5; i++) {
+			const keyPair = generateKeyPair(random);
+			const nodeKeyPair = nodeCrypto.generateKeyPairSync(type as "x25519");
+			const nodeRawKeyPair = exportRawKeys(nodeKeyPair);
+			const expected = nodeCrypto.diffieHellman({
+				privateKey: nodeKeyPair.privateKey,
+				publicKey: importPublicKey(type, keyPair.publicKey)
+			});
+			expect(computeSharedSecret(keyPair.privateKey, nodeRawKeyPair.publicKey)).toStrictEqual(
+				new Uint8Array(expected)
+			);
+			expect(computeSharedSecret(nodeRawKeyPair.privateKey, keyPair.publicKey)).toStrictEqual(
+				new Uint8Array(expected)
+			);
+		}
+	}
+});
+
+test("compute shared secret with low order point", () => {
+	for (const [, , generateKeyPair, computeSharedSecret, size] of algorithms) {
+		const keyPair = generateKeyPair(random);
+		// u = 0 and u = 1 are low order points on both curves
+		expect(() => computeSharedSecret(keyPair.privateKey, new Uint8Array(size))).toThrowError();
+		const one = new Uint8Array(size);
+		one[0] = 1;
+		expect(() => computeSharedSecret(keyPair.privateKey, one)).toThrowError();
+	}
+});
+
+test("invalid lengths", () => {
+	for (const [, scalarMultiply, , , size] of algorithms) {
+		expect(() => scalarMultiply(new Uint8Array(size - 1), new Uint8Array(size))).toThrowError();
+		expect(() => scalarMultiply(new Uint8Array(size), new Uint8Array(size + 1))).toThrowError();
+	}
+});
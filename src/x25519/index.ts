@@ -0,0 +1,280 @@
+/**
+ * X25519和X448密钥协商模块
+ *
+ * X25519和X448是RFC 7748定义的基于蒙哥马利曲线（Curve25519和Curve448）的
+ * 椭圆曲线Diffie-Hellman（ECDH）函数。它们只使用点的u坐标进行计算：
+ * 1. 私钥是随机字节串，计算前会进行"钳位"（clamping）处理
+ * 2. 公钥是私钥与基点u坐标进行标量乘法的结果
+ * 3. 双方用自己的私钥和对方的公钥计算出相同的共享密钥
+ *
+ * 标量乘法使用蒙哥马利阶梯（Montgomery ladder），每一步都执行相同的运算，
+ * 并通过条件交换（conditional swap）避免依赖私钥位的分支。
+ *
+ * 注意：JavaScript的BigInt运算本身不是常数时间的，因此实现不能完全防御时间侧信道攻击。
+ */
+import { powmod } from "../ecdsa/math.js";
+import { decodeLittleEndian, encodeLittleEndian } from "../eddsa/curve.js";
+
+import type { RandomReader } from "../random/index.js";
+
+/**
+ * 计算X25519函数（RFC 7748 第5节）
+ *
+ * 不检查结果是否为全零，进行密钥协商时请使用computeX25519SharedSecret()。
+ *
+ * @param scalar 32字节的标量（会进行钳位处理）
+ * @param u 32字节的u坐标
+ * @returns 32字节的u坐标
+ * @throws 如果标量或u坐标的长度无效
+ */
+export function x25519(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+	return curve25519.scalarMultiply(scalar, u);
+}
+
+/**
+ * 计算X448函数（RFC 7748 第5节）
+ *
+ * 不检查结果是否为全零，进行密钥协商时请使用computeX448SharedSecret()。
+ *
+ * @param scalar 56字节的标量（会进行钳位处理）
+ * @param u 56字节的u坐标
+ * @returns 56字节的u坐标
+ * @throws 如果标量或u坐标的长度无效
+ */
+export function x448(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+	return curve448.scalarMultiply(scalar, u);
+}
+
+/**
+ * 生成X25519密钥对
+ *
+ * @param random 随机数读取器，用于生成私钥
+ * @returns 包含32字节私钥和公钥的密钥对
+ */
+export function generateX25519KeyPair(random: RandomReader): X25519KeyPair {
+	return curve25519.generateKeyPair(random);
+}
+
+/**
+ * 生成X448密钥对
+ *
+ * @param random 随机数读取器，用于生成私钥
+ * @returns 包含56字节私钥和公钥的密钥对
+ */
+export function generateX448KeyPair(random: RandomReader): X448KeyPair {
+	return curve448.generateKeyPair(random);
+}
+
+/**
+ * 使用X25519计算共享密钥（RFC 7748 第6.1节）
+ *
+ * @param privateKey 32字节的私钥
+ * @param publicKey 对方的32字节公钥
+ * @returns 32字节的共享密钥
+ * @throws 如果密钥长度无效，或者共享密钥为全零（对方公钥为低阶点）
+ */
+export function computeX25519SharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+	return curve25519.computeSharedSecret(privateKey, publicKey);
+}
+
+/**
+ * 使用X448计算共享密钥（RFC 7748 第6.2节）
+ *
+ * @param privateKey 56字节的私钥
+ * @param publicKey 对方的56字节公钥
+ * @returns 56字节的共享密钥
+ * @throws 如果密钥长度无效，或者共享密钥为全零（对方公钥为低阶点）
+ */
+export function computeX448SharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+	return curve448.computeSharedSecret(privateKey, publicKey);
+}
+
+/**
+ * X25519密钥对
+ */
+export interface X25519KeyPair {
+	/**
+	 * 32字节的私钥
+	 */
+	privateKey: Uint8Array;
+
+	/**
+	 * 32字节的公钥
+	 */
+	publicKey: Uint8Array;
+}
+
+/**
+ * X448密钥对
+ */
+export interface X448KeyPair {
+	/**
+	 * 56字节的私钥
+	 */
+	privateKey: Uint8Array;
+
+	/**
+	 * 56字节的公钥
+	 */
+	publicKey: Uint8Array;
+}
+
+/**
+ * RFC 7748定义的蒙哥马利曲线 v² = u³ + A*u² + u
+ */
+class MontgomeryCurve {
+	/**
+	 * 有限域的素数
+	 */
+	public p: bigint;
+
+	/**
+	 * 常数(A - 2) / 4
+	 */
+	public a24: bigint;
+
+	/**
+	 * 基点的u坐标
+	 */
+	public u: bigint;
+
+	/**
+	 * 标量和u坐标的长度（字节）
+	 */
+	public size: number;
+
+	/**
+	 * 标量的位长度（钳位后最高位的位置加1）
+	 */
+	public bits: number;
+
+	/**
+	 * 钳位时清除的低位数（余因子的对数）
+	 */
+	private cofactorBits: number;
+
+	constructor(p: bigint, a24: bigint, u: bigint, size: number, bits: number, cofactorBits: number) {
+		this.p = p;
+		this.a24 = a24;
+		this.u = u;
+		this.size = size;
+		this.bits = bits;
+		this.cofactorBits = cofactorBits;
+	}
+
+	public generateKeyPair(random: RandomReader): X25519KeyPair | X448KeyPair {
+		const privateKey = new Uint8Array(this.size);
+		random.read(privateKey);
+		const publicKey = this.scalarMultiply(privateKey, encodeLittleEndian(this.u, this.size));
+		return { privateKey, publicKey };
+	}
+
+	public computeSharedSecret(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
+		const sharedSecret = this.scalarMultiply(privateKey, publicKey);
+		// 以常数时间检查结果是否为全零
+		let c = 0;
+		for (let i = 0; i < sharedSecret.byteLength; i++) {
+			c |= sharedSecret[i];
+		}
+		if (c === 0) {
+			throw new Error("Invalid shared secret");
+		}
+		return sharedSecret;
+	}
+
+	public scalarMultiply(scalar: Uint8Array, u: Uint8Array): Uint8Array {
+		if (scalar.byteLength !== this.size) {
+			throw new TypeError("Invalid scalar");
+		}
+		if (u.byteLength !== this.size) {
+			throw new TypeError("Invalid u-coordinate");
+		}
+		const result = this.ladder(this.decodeScalar(scalar), this.decodeUCoordinate(u));
+		return encodeLittleEndian(result, this.size);
+	}
+
+	/**
+	 * 标量钳位（RFC 7748 第5节）
+	 *
+	 * 清除低位使标量为余因子的倍数，清除最高位以上的位并设置最高位。
+	 */
+	private decodeScalar(bytes: Uint8Array): bigint {
+		let k = decodeLittleEndian(bytes);
+		k &= ~((1n << BigInt(this.cofactorBits)) - 1n);
+		k &= (1n << BigInt(this.bits)) - 1n;
+		k |= 1n << BigInt(this.bits - 1);
+		return k;
+	}
+
+	/**
+	 * 解码u坐标（RFC 7748 第5节）
+	 *
+	 * 对于X25519需要忽略最高位。非规范值（大于等于p）按模p约简后的值处理。
+	 */
+	private decodeUCoordinate(bytes: Uint8Array): bigint {
+		let u = decodeLittleEndian(bytes);
+		const bits = this.p.toString(2).length;
+		u &= (1n << BigInt(bits)) - 1n;
+		return u % this.p;
+	}
+
+	/**
+	 * 蒙哥马利阶梯（RFC 7748 第5节）
+	 *
+	 * 在每一步中对(x2, z2)和(x3, z3)执行相同的差分加法和倍点运算，
+	 * 通过条件交换选择操作数，避免依赖标量位的分支。
+	 */
+	private ladder(k: bigint, u: bigint): bigint {
+		const p = this.p;
+		const x1 = u;
+		let x2 = 1n;
+		let z2 = 0n;
+		let x3 = u;
+		let z3 = 1n;
+		let swap = 0n;
+		for (let t = this.bits - 1; t >= 0; t--) {
+			const kt = (k >> BigInt(t)) & 1n;
+			swap ^= kt;
+			[x2, x3] = conditionalSwap(swap, x2, x3);
+			[z2, z3] = conditionalSwap(swap, z2, z3);
+			swap = kt;
+
+			const a = (x2 + z2) % p;
+			const aa = (a * a) % p;
+			const b = (x2 - z2 + p) % p;
+			const bb = (b * b) % p;
+			const e = (aa - bb + p) % p;
+			const c = (x3 + z3) % p;
+			const d = (x3 - z3 + p) % p;
+			const da = (d * a) % p;
+			const cb = (c * b) % p;
+			const sum = (da + cb) % p;
+			const difference = (da - cb + p) % p;
+			x3 = (sum * sum) % p;
+			z3 = (x1 * ((difference * difference) % p)) % p;
+			x2 = (aa * bb) % p;
+			z2 = (e * ((aa + this.a24 * e) % p)) % p;
+		}
+		[x2, x3] = conditionalSwap(swap, x2, x3);
+		[z2, z3] = conditionalSwap(swap, z2, z3);
+		// x2 * z2^(p-2)，z2为0时结果为0
+		return (x2 * powmod(z2, p - 2n, p)) % p;
+	}
+}
+
+/**
+ * 条件交换
+ *
+ * 使用掩码而不是分支：swap为1时掩码为全1，为0时掩码为0。
+ */
+function conditionalSwap(swap: bigint, a: bigint, b: bigint): [bigint, bigint] {
+	const mask = -swap;
+	const dummy = mask & (a ^ b);
+	return [a ^ dummy, b ^ dummy];
+}
+
+// Curve25519: p = 2^255 - 19, A = 486662
+const curve25519 = new MontgomeryCurve((1n << 255n) - 19n, 121665n, 9n, 32, 255, 3);
+
+// Curve448: p = 2^448 - 2^224 - 1, A = 156326
+const curve448 = new MontgomeryCurve((1n << 448n) - (1n << 224n) - 1n, 39081n, 5n, 56, 448, 2);
@@ -0,0 +1,59 @@
+// Tests based on the test vectors in RFC 8452 appendix C
+// https://datatracker.ietf.org/doc/html/rfc8452
+
+import { test, expect } from "vitest";
+import { AESGCMSIV } from "../src/aes/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const nonce = decodeHex("030000000000000000000000");
+
+test("AEAD_AES_128_GCM_SIV", () => {
+	const gcmsiv = new AESGCMSIV(decodeHex("01000000000000000000000000000000"));
+	const vectors: [plaintext: string, additionalData: string, expected: string][] = [
+		["", "", "dc20e2d83f25705bb49e439eca56de25"],
+		["0100000000000000", "", "b5d839330ac7b786578782fff6013b815b287c22493a364c"],
+		["010000000000000000000000", "", "7323ea61d05932260047d942a4978db357391a0bc4fdec8b0d106639"],
+		["0200000000000000", "01", "1e6daba35669f4273b0a1a2560969cdf790d99759abd1508"]
+	];
+	for (const [plaintext, additionalData, expected] of vectors) {
+		expect(gcmsiv.seal(nonce, decodeHex(plaintext), decodeHex(additionalData))).toStrictEqual(
+			decodeHex(expected)
+		);
+		expect(gcmsiv.open(nonce, decodeHex(expected), decodeHex(additionalData))).toStrictEqual(
+			decodeHex(plaintext)
+		);
+	}
+});
+
+test("AEAD_AES_256_GCM_SIV", () => {
+	const gcmsiv = new AESGCMSIV(
+		decodeHex("0100000000000000000000000000000000000000000000000000000000000000")
+	);
+	const vectors: [plaintext: string, expected: string][] = [
+		["", "07f5f4169bbf55a8400cd47ea6fd400f"],
+		["0100000000000000", "c2ef328e5c71c83b843122130f7364b761e0b97427e3df28"]
+	];
+	for (const [plaintext, expected] of vectors) {
+		expect(gcmsiv.seal(nonce, decodeHex(plaintext))).toStrictEqual(decodeHex(expected));
+		expect(gcmsiv.open(nonce, decodeHex(expected))).toStrictEqual(decodeHex(plaintext));
+	}
+});
+
+test("Counter wrap", () => {
+	const gcmsiv = new AESGCMSIV(new Uint8Array(32));
+	const vectors: [plaintext: string, expected: string][] = [
+		[
+			"000000000000000000000000000000004db923dc793ee6497c76dcc03a98e108",
+			"f3f80f2cf0cb2dd9c5984fcda908456cc537703b5ba70324a6793a7bf218d3eaffffffff000000000000000000000000"
+		],
+		[
+			"eb3640277c7ffd1303c7a542d02d3e4c0000000000000000",
+			"18ce4f0b8cb4d0cac65fea8f79257b20888e53e72299e56dffffffff000000000000000000000000"
+		]
+	];
+	for (const [plaintext, expected] of vectors) {
+		expect(gcmsiv.seal(new Uint8Array(12), decodeHex(plaintext))).toStrictEqual(
+			decodeHex(expected)
+		);
+	}
+});
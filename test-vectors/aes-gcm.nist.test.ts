@@ -0,0 +1,58 @@
+// Tests based on the test cases in "The Galois/Counter Mode of Operation (GCM)" by McGrew and Viega
+// https://csrc.nist.rip/groups/ST/toolkit/BCM/documents/proposedmodes/gcm/gcm-spec.pdf
+
+import { test, expect } from "vitest";
+import { AESGCM } from "../src/aes/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const key = decodeHex("feffe9928665731c6d6a8f9467308308");
+const plaintext = decodeHex(
+	"d9313225f88406e5a55909c5aff5269a86a7a9531534f7da2e4c303d8a318a721c3c0c95956809532fcf0e2449a6b525b16aedf5aa0de657ba637b391aafd255"
+);
+const additionalData = decodeHex("feedfacedeadbeeffeedfacedeadbeefabaddad2");
+
+test("Test case 1", () => {
+	const gcm = new AESGCM(new Uint8Array(16));
+	const nonce = new Uint8Array(12);
+	const expected = decodeHex("58e2fccefa7e3061367f1d57a4e7455a");
+	expect(gcm.seal(nonce, new Uint8Array())).toStrictEqual(expected);
+	expect(gcm.open(nonce, expected)).toStrictEqual(new Uint8Array());
+});
+
+test("Test case 2", () => {
+	const gcm = new AESGCM(new Uint8Array(16));
+	const nonce = new Uint8Array(12);
+	const expected = decodeHex("0388dace60b6a392f328c2b971b2fe78ab6e47d42cec13bdf53a67b21257bddf");
+	expect(gcm.seal(nonce, new Uint8Array(16))).toStrictEqual(expected);
+	expect(gcm.open(nonce, expected)).toStrictEqual(new Uint8Array(16));
+});
+
+test("Test case 3", () => {
+	const gcm = new AESGCM(key);
+	const nonce = decodeHex("cafebabefacedbaddecaf888");
+	const expected = decodeHex(
+		"42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e091473f59854d5c2af327cd64a62cf35abd2ba6fab4"
+	);
+	expect(gcm.seal(nonce, plaintext)).toStrictEqual(expected);
+	expect(gcm.open(nonce, expected)).toStrictEqual(plaintext);
+});
+
+test("Test case 4", () => {
+	const gcm = new AESGCM(key);
+	const nonce = decodeHex("cafebabefacedbaddecaf888");
+	const expected = decodeHex(
+		"42831ec2217774244b7221b784d0d49ce3aa212f2c02a4e035c17e2329aca12e21d514b25466931c7d8f6a5aac84aa051ba30b396a0aac973d58e0915bc94fbc3221a5db94fae95ae7121a47"
+	);
+	expect(gcm.seal(nonce, plaintext.slice(0, 60), additionalData)).toStrictEqual(expected);
+	expect(gcm.open(nonce, expected, additionalData)).toStrictEqual(plaintext.slice(0, 60));
+});
+
+test("Test case 5", () => {
+	const gcm = new AESGCM(key);
+	const nonce = decodeHex("cafebabefacedbad");
+	const expected = decodeHex(
+		"61353b4c2806934a777ff51fa22a4755699b2a714fcdc6f83766e5f97b6c742373806900e49f24b22b097544d4896b424989b5e1ebac0f07c23f45983612d2e79e3b0785561be14aaca2fccb"
+	);
+	expect(gcm.seal(nonce, plaintext.slice(0, 60), additionalData)).toStrictEqual(expected);
+	expect(gcm.open(nonce, expected, additionalData)).toStrictEqual(plaintext.slice(0, 60));
+});
@@ -0,0 +1,56 @@
+// Tests based on the test vectors in RFC 3394 section 4 and RFC 5649 section 6
+// https://datatracker.ietf.org/doc/html/rfc3394
+// https://datatracker.ietf.org/doc/html/rfc5649
+
+import { test, expect } from "vitest";
+import { wrapKey, unwrapKey, wrapKeyWithPadding, unwrapKeyWithPadding } from "../src/aes/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const kek128 = decodeHex("000102030405060708090a0b0c0d0e0f");
+const kek192 = decodeHex("000102030405060708090a0b0c0d0e0f1011121314151617");
+const kek256 = decodeHex("000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f");
+
+const keyData128 = decodeHex("00112233445566778899aabbccddeeff");
+const keyData192 = decodeHex("00112233445566778899aabbccddeeff0001020304050607");
+const keyData256 = decodeHex("00112233445566778899aabbccddeeff000102030405060708090a0b0c0d0e0f");
+
+const vectors: [kek: Uint8Array, keyData: Uint8Array, expected: string][] = [
+	// 4.1 Wrap 128 bits of Key Data with a 128-bit KEK
+	[kek128, keyData128, "1fa68b0a8112b447aef34bd8fb5a7b829d3e862371d2cfe5"],
+	// 4.2 Wrap 128 bits of Key Data with a 192-bit KEK
+	[kek192, keyData128, "96778b25ae6ca435f92b5b97c050aed2468ab8a17ad84e5d"],
+	// 4.3 Wrap 128 bits of Key Data with a 256-bit KEK
+	[kek256, keyData128, "64e8c3f9ce0f5ba263e9777905818a2a93c8191e7d6e8ae7"],
+	// 4.4 Wrap 192 bits of Key Data with a 192-bit KEK
+	[kek192, keyData192, "031d33264e15d33268f24ec260743edce1c6c7ddee725a936ba814915c6762d2"],
+	// 4.5 Wrap 192 bits of Key Data with a 256-bit KEK
+	[kek256, keyData192, "a8f9bc1612c68b3ff6e6f4fbe30e71e4769c8b80a32cb8958cd5d17d6b254da1"],
+	// 4.6 Wrap 256 bits of Key Data with a 256-bit KEK
+	[
+		kek256,
+		keyData256,
+		"28c9f404c4b810f4cbccb35cfb87f8263f5786e2d80ed326cbc7f0e71a99f43bfb988b9b7a02dd21"
+	]
+];
+
+test("AES Key Wrap", () => {
+	for (const [kek, keyData, expected] of vectors) {
+		expect(wrapKey(kek, keyData)).toStrictEqual(decodeHex(expected));
+		expect(unwrapKey(kek, decodeHex(expected))).toStrictEqual(keyData);
+	}
+});
+
+test("AES Key Wrap with Padding", () => {
+	const kek = decodeHex("5840df6e29b02af1ab493b705bf16ea1ae8338f4dcc176a8");
+	const paddingVectors: [keyData: string, expected: string][] = [
+		[
+			"c37b7e6492584340bed12207808941155068f738",
+			"138bdeaa9b8fa7fc61f97742e72248ee5ae6ae5360d1ae6a5f54f373fa543b6a"
+		],
+		["466f7250617369", "afbeb0f07dfbf5419200f2ccb50bb24f"]
+	];
+	for (const [keyData, expected] of paddingVectors) {
+		expect(wrapKeyWithPadding(kek, decodeHex(keyData))).toStrictEqual(decodeHex(expected));
+		expect(unwrapKeyWithPadding(kek, decodeHex(expected))).toStrictEqual(decodeHex(keyData));
+	}
+});
@@ -0,0 +1,36 @@
+// Tests based on the test vectors in RFC 5297 appendix A
+// https://datatracker.ietf.org/doc/html/rfc5297
+
+import { test, expect } from "vitest";
+import { AESSIV } from "../src/aes/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+test("Deterministic authenticated encryption example", () => {
+	const siv = new AESSIV(
+		decodeHex("fffefdfcfbfaf9f8f7f6f5f4f3f2f1f0f0f1f2f3f4f5f6f7f8f9fafbfcfdfeff")
+	);
+	const additionalData = [decodeHex("101112131415161718191a1b1c1d1e1f2021222324252627")];
+	const plaintext = decodeHex("112233445566778899aabbccddee");
+	const expected = decodeHex("85632d07c6e8f37f950acd320a2ecc9340c02b9690c4dc04daef7f6afe5c");
+	expect(siv.seal(plaintext, additionalData)).toStrictEqual(expected);
+	expect(siv.open(expected, additionalData)).toStrictEqual(plaintext);
+});
+
+test("Nonce-based authenticated encryption example", () => {
+	const siv = new AESSIV(
+		decodeHex("7f7e7d7c7b7a79787776757473727170404142434445464748494a4b4c4d4e4f")
+	);
+	const additionalData = [
+		decodeHex("00112233445566778899aabbccddeeffdeaddadadeaddadaffeeddccbbaa99887766554433221100"),
+		decodeHex("102030405060708090a0"),
+		decodeHex("09f911029d74e35bd84156c5635688c0")
+	];
+	const plaintext = decodeHex(
+		"7468697320697320736f6d6520706c61696e7465787420746f20656e6372797074207573696e67205349562d414553"
+	);
+	const expected = decodeHex(
+		"7bdb6e3b432667eb06f4d14bff2fbd0fcb900f2fddbe404326601965c889bf17dba77ceb094fa663b7a3f748ba8af829ea64ad544a272e9c485b62a3fd5c0d"
+	);
+	expect(siv.seal(plaintext, additionalData)).toStrictEqual(expected);
+	expect(siv.open(expected, additionalData)).toStrictEqual(plaintext);
+});
@@ -0,0 +1,31 @@
+// Tests based on the example vectors in FIPS 197 Appendix C
+// https://nvlpubs.nist.gov/nistpubs/FIPS/NIST.FIPS.197-upd1.pdf
+
+import { test, expect } from "vitest";
+import { AES } from "../src/aes/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const plaintext = decodeHex("00112233445566778899aabbccddeeff");
+
+test("AES-128", () => {
+	const aes = new AES(decodeHex("000102030405060708090a0b0c0d0e0f"));
+	const ciphertext = decodeHex("69c4e0d86a7b0430d8cdb78070b4c55a");
+	expect(aes.encryptBlock(plaintext)).toStrictEqual(ciphertext);
+	expect(aes.decryptBlock(ciphertext)).toStrictEqual(plaintext);
+});
+
+test("AES-192", () => {
+	const aes = new AES(decodeHex("000102030405060708090a0b0c0d0e0f1011121314151617"));
+	const ciphertext = decodeHex("dda97ca4864cdfe06eaf70a0ec0d7191");
+	expect(aes.encryptBlock(plaintext)).toStrictEqual(ciphertext);
+	expect(aes.decryptBlock(ciphertext)).toStrictEqual(plaintext);
+});
+
+test("AES-256", () => {
+	const aes = new AES(
+		decodeHex("000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f")
+	);
+	const ciphertext = decodeHex("8ea2b7ca516745bfeafc49904b496089");
+	expect(aes.encryptBlock(plaintext)).toStrictEqual(ciphertext);
+	expect(aes.decryptBlock(ciphertext)).toStrictEqual(plaintext);
+});
@@ -0,0 +1,35 @@
+// Tests based on the Argon2 test vectors in RFC 9106 section 5
+// https://datatracker.ietf.org/doc/html/rfc9106#section-5
+
+import { test, expect } from "vitest";
+import { argon2d, argon2i, argon2id } from "../src/argon2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const password = new Uint8Array(32).fill(0x01);
+const salt = new Uint8Array(16).fill(0x02);
+const secret = new Uint8Array(8).fill(0x03);
+const associatedData = new Uint8Array(12).fill(0x04);
+const parameters = {
+	memoryCost: 32,
+	timeCost: 3,
+	parallelism: 4,
+	hashLength: 32
+};
+
+test("Argon2d", () => {
+	expect(argon2d(password, salt, parameters, secret, associatedData)).toStrictEqual(
+		decodeHex("512b391b6f1162975371d30919734294f868e3be3984f3c1a13a4db9fabe4acb")
+	);
+});
+
+test("Argon2i", () => {
+	expect(argon2i(password, salt, parameters, secret, associatedData)).toStrictEqual(
+		decodeHex("c814d9d1dc7f37aa13f0d77f2494bda1c8de6b016dd388d29952a4c4672b6ce8")
+	);
+});
+
+test("Argon2id", () => {
+	expect(argon2id(password, salt, parameters, secret, associatedData)).toStrictEqual(
+		decodeHex("0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659")
+	);
+});
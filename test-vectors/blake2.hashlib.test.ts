@@ -0,0 +1,208 @@
+// Known-answer tests for BLAKE2 with key, salt and personalization.
+// The expected values were generated with Python's hashlib.blake2b() and hashlib.blake2s()
+// using the key, salt and person arguments.
+
+import { test, expect } from "vitest";
+import { blake2b, blake2s } from "../src/blake2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+import type { BLAKE2Options } from "../src/blake2/index.js";
+
+const key = new Uint8Array(64).map((_, i) => i);
+const salt = new Uint8Array(16).map((_, i) => 0x40 + i);
+const personalization = new Uint8Array(16).map((_, i) => 0x60 + i);
+
+const abc = new TextEncoder().encode("abc");
+const sequence = new Uint8Array(200).map((_, i) => i);
+
+const blake2bVectors: [
+	size: number,
+	options: BLAKE2Options,
+	message: Uint8Array,
+	expected: string
+][] = [
+	[
+		64,
+		{ key, salt, personalization },
+		abc,
+		"4c882ff6705204efd33dd257d1432f52ddb2812c347cb44631a2aa39bc6989c867f79ad4d7a8d690d250bd19e01ae7c4a5e32b9c87487fff043d200d4c098ca8"
+	],
+	[
+		64,
+		{ key, salt, personalization },
+		sequence,
+		"c00ab5696d53aff7b0e2fb9a3f23f06c31a06fed9f0871f428b05b39cbc7c399c5738b1c2c3d375afac0357bbeddc97253bd718f64f212e28e9c42678cc54a79"
+	],
+	[
+		64,
+		{ key: key.subarray(0, 32), salt, personalization },
+		abc,
+		"d9e3a8f7d898bc7b24f3749ac00f65835e604d90e6d6cf65497c00d5f652216a31c6b39039cffd6795b85dbab060a5fc22c0117e14ca6808f36366d9d141ba24"
+	],
+	[
+		64,
+		{ key: key.subarray(0, 32), salt, personalization },
+		sequence,
+		"a0657d390852df74c5314902b6668b1ca591622758541005daf8fc0a5107e624b9cc7715f123e0de323853943cf43926a2ce236d65305d2285f6294cd10a4f74"
+	],
+	[
+		64,
+		{ salt },
+		abc,
+		"5ecc41328a6fc55c4e3ca5878d9194496c4d7664f456a175e896379395e8bfb03484ce829203584966591ea7daafc835d4f7cace7ec3870c961fe9d7447ce0dc"
+	],
+	[
+		64,
+		{ salt },
+		sequence,
+		"e90ced3006bef0ccf03e164f5d91cad56e7d114d112117e6ae45d55f1b65eeb109a08418cdae244ded563300df7a9f41289d672b2ce6929a55a7bc248bb0230f"
+	],
+	[
+		64,
+		{ personalization },
+		abc,
+		"463711d69e86b740e756bdc706ee70d25d8bf37906a45551c4cd68efa1fe90fd9dabfbdb876a21627b0214ba07ff46e0f958f36f03a8a1089ad87cf1e1e36766"
+	],
+	[
+		64,
+		{ personalization },
+		sequence,
+		"cbbd8e2bca6b5b1d8078d5daa295d99fc749ffaf2874c50ba8514327788305e2bfc0be811d68c92a3991e636b8b6436655acc351a8d99b5be027364b02c5838e"
+	],
+	[
+		32,
+		{ key, salt, personalization },
+		abc,
+		"27352648ae7bfa93b4586bc1b5cf21309b8f0912eff571c41b62242f57d32149"
+	],
+	[
+		32,
+		{ key, salt, personalization },
+		sequence,
+		"b975afdb16f9ffe6d338c56fe7b6c2f3de617ebdef1fcd6aaabc77f624477db0"
+	],
+	[
+		32,
+		{ key: key.subarray(0, 32), salt, personalization },
+		abc,
+		"e76cb6d5cf75e91ca532d163d566c9bbb6c9802c096fe589e46b22250039fc19"
+	],
+	[
+		32,
+		{ key: key.subarray(0, 32), salt, personalization },
+		sequence,
+		"80b6733def8330cc690adf8b478897db2a0dccaa951071fbc84483aa896db9ee"
+	],
+	[32, { salt }, abc, "b5ad364976dfc2cab7aee52a041e0ea3f06ef51f6277a92955e67d33bff1e47a"],
+	[32, { salt }, sequence, "201889f27b51894f8531e7b6ab80b6d144fb9995c0d74f41e10c1ca35bd3144d"],
+	[
+		32,
+		{ personalization },
+		abc,
+		"9cc96227d984e74d0b254b55043aa188f68e7ed4cd9dcf225cb65dcf130d58b3"
+	],
+	[
+		32,
+		{ personalization },
+		sequence,
+		"58452dfa28c0196d3fe5298cba6b130de54c34cda6ceec7768f7e1efe797af30"
+	]
+];
+
+const blake2sVectors: [
+	size: number,
+	options: BLAKE2Options,
+	message: Uint8Array,
+	expected: string
+][] = [
+	[
+		32,
+		{
+			key: key.subarray(0, 32),
+			salt: salt.subarray(0, 8),
+			personalization: personalization.subarray(0, 8)
+		},
+		abc,
+		"c74b600b340bc906220bef625174e21cacc108ae3f3972ad4b74b2d3768867d0"
+	],
+	[
+		32,
+		{
+			key: key.subarray(0, 32),
+			salt: salt.subarray(0, 8),
+			personalization: personalization.subarray(0, 8)
+		},
+		sequence,
+		"9ece834a4f911022e583f1d561bcfb7ff0133bed493f7828128a44bac7cfe995"
+	],
+	[
+		32,
+		{ salt: salt.subarray(0, 8) },
+		abc,
+		"402961425ad380d5259a4ad858963fe305a90fa581f74e7cd9ef51e42780e87b"
+	],
+	[
+		32,
+		{ salt: salt.subarray(0, 8) },
+		sequence,
+		"493952c37da07f031af7fa00223fb6823720f35f847d5290b22b10ada2f74b90"
+	],
+	[
+		32,
+		{ personalization: personalization.subarray(0, 8) },
+		abc,
+		"db203559eb11ba4da08fdc6a3e49ad2a36827d1ceb71ab0824b569a6c56fb477"
+	],
+	[
+		32,
+		{ personalization: personalization.subarray(0, 8) },
+		sequence,
+		"2616f49781908c3702e5fc6ce88c1dc9dec50fe55082bbf333f84c987236a4da"
+	],
+	[
+		16,
+		{
+			key: key.subarray(0, 32),
+			salt: salt.subarray(0, 8),
+			personalization: personalization.subarray(0, 8)
+		},
+		abc,
+		"2cc5e7fd15c11447e9a8d6ebea280b59"
+	],
+	[
+		16,
+		{
+			key: key.subarray(0, 32),
+			salt: salt.subarray(0, 8),
+			personalization: personalization.subarray(0, 8)
+		},
+		sequence,
+		"99d76797caae926e03e08bd59a6d89c2"
+	],
+	[16, { salt: salt.subarray(0, 8) }, abc, "3d5475424017b6d047f4d07bb7910f95"],
+	[16, { salt: salt.subarray(0, 8) }, sequence, "824da6d7cbbeed9d8cf902573cfc4e31"],
+	[
+		16,
+		{ personalization: personalization.subarray(0, 8) },
+		abc,
+		"cd64456d3ebd36ba6862845d3e9ce7ee"
+	],
+	[
+		16,
+		{ personalization: personalization.subarray(0, 8) },
+		sequence,
+		"b20ff951ba9a580ef813c3483c57b4fc"
+	]
+];
+
+test("BLAKE2b with key, salt and personalization", () => {
+	for (const [size, options, message, expected] of blake2bVectors) {
+		expect(blake2b(size, message, options)).toStrictEqual(decodeHex(expected));
+	}
+});
+
+test("BLAKE2s with key, salt and personalization", () => {
+	for (const [size, options, message, expected] of blake2sVectors) {
+		expect(blake2s(size, message, options)).toStrictEqual(decodeHex(expected));
+	}
+});
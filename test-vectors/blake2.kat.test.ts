@@ -0,0 +1,30 @@
+// Tests based on the keyed BLAKE2 known-answer tests in the BLAKE2 reference implementation
+// https://github.com/BLAKE2/BLAKE2/blob/master/testvectors/blake2-kat.json
+
+import { test, expect } from "vitest";
+import { blake2b, blake2s } from "../src/blake2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const key = new Uint8Array(64).map((_, i) => i);
+
+test("BLAKE2b keyed", () => {
+	expect(blake2b(64, new Uint8Array(), { key })).toStrictEqual(
+		decodeHex(
+			"10ebb67700b1868efb4417987acf4690ae9d972fb7a590c2f02871799aaa4786b5e996e8f0f4eb981fc214b005f42d2ff4233499391653df7aefcbc13fc51568"
+		)
+	);
+	expect(blake2b(64, new Uint8Array([0x00]), { key })).toStrictEqual(
+		decodeHex(
+			"961f6dd1e4dd30f63901690c512e78e4b45e4742ed197c3c5e45c549fd25f2e4187b0bc9fe30492b16b0d0bc4ef9b0f34c7003fac09a5ef1532e69430234cebd"
+		)
+	);
+});
+
+test("BLAKE2s keyed", () => {
+	expect(blake2s(32, new Uint8Array(), { key: key.subarray(0, 32) })).toStrictEqual(
+		decodeHex("48a8997da407876b3d79c0d92325ad3b89cbb754d86ab71aee047ad345fd2c49")
+	);
+	expect(blake2s(32, new Uint8Array([0x00]), { key: key.subarray(0, 32) })).toStrictEqual(
+		decodeHex("40d15fee7c328830166ac3f918650f807e7e01e177258cdc0a39b11f598066f1")
+	);
+});
@@ -0,0 +1,20 @@
+// Tests based on the BLAKE2 test vectors in RFC 7693 appendix A and B
+// https://datatracker.ietf.org/doc/html/rfc7693#appendix-A
+
+import { test, expect } from "vitest";
+import { blake2b, blake2s } from "../src/blake2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+test("BLAKE2b-512", () => {
+	expect(blake2b(64, new TextEncoder().encode("abc"))).toStrictEqual(
+		decodeHex(
+			"ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923"
+		)
+	);
+});
+
+test("BLAKE2s-256", () => {
+	expect(blake2s(32, new TextEncoder().encode("abc"))).toStrictEqual(
+		decodeHex("508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982")
+	);
+});
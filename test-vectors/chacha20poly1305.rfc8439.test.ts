@@ -0,0 +1,152 @@
+// Tests based on the test vectors in RFC 8439 section 2 and appendix A
+// https://datatracker.ietf.org/doc/html/rfc8439
+
+import { test, expect } from "vitest";
+import { chacha20, ChaCha20Poly1305 } from "../src/chacha20/index.js";
+import { poly1305 } from "../src/poly1305/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+test("ChaCha20 block function", () => {
+	const key = decodeHex("000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f");
+	const nonce = decodeHex("000000090000004a00000000");
+	expect(chacha20(key, nonce, 1, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"10f1e7e4d13b5915500fdd1fa32071c4c7d1f4c733c068030422aa9ac3d46c4ed2826446079faa0914c2d705d98b02a2b5129cd1de164eb9cbd083e8a2503c4e"
+		)
+	);
+});
+
+test("ChaCha20 block function test vector #1", () => {
+	expect(chacha20(new Uint8Array(32), new Uint8Array(12), 0, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"76b8e0ada0f13d90405d6ae55386bd28bdd219b8a08ded1aa836efcc8b770dc7da41597c5157488d7724e03fb8d84a376a43b8f41518a11cc387b669b2ee6586"
+		)
+	);
+});
+
+test("ChaCha20 block function test vector #2", () => {
+	expect(chacha20(new Uint8Array(32), new Uint8Array(12), 1, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"9f07e7be5551387a98ba977c732d080dcb0f29a048e3656912c6533e32ee7aed29b721769ce64e43d57133b074d839d531ed1f28510afb45ace10a1f4b794d6f"
+		)
+	);
+});
+
+test("ChaCha20 block function test vector #3", () => {
+	const key = new Uint8Array(32);
+	key[31] = 0x01;
+	expect(chacha20(key, new Uint8Array(12), 1, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"3aeb5224ecf849929b9d828db1ced4dd832025e8018b8160b82284f3c949aa5a8eca00bbb4a73bdad192b5c42f73f2fd4e273644c8b36125a64addeb006c13a0"
+		)
+	);
+});
+
+test("ChaCha20 block function test vector #4", () => {
+	const key = new Uint8Array(32);
+	key[1] = 0xff;
+	expect(chacha20(key, new Uint8Array(12), 2, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"72d54dfbf12ec44b362692df94137f328fea8da73990265ec1bbbea1ae9af0ca13b25aa26cb4a648cb9b9d1be65b2c0924a66c54d545ec1b7374f4872e99f096"
+		)
+	);
+});
+
+test("ChaCha20 block function test vector #5", () => {
+	const nonce = new Uint8Array(12);
+	nonce[11] = 0x02;
+	expect(chacha20(new Uint8Array(32), nonce, 0, new Uint8Array(64))).toStrictEqual(
+		decodeHex(
+			"c2c64d378cd536374ae204b9ef933fcd1a8b2288b3dfa49672ab765b54ee27c78a970e0e955c14f3a88e741b97c286f75f8fc299e8148362fa198a39531bed6d"
+		)
+	);
+});
+
+test("ChaCha20 encryption", () => {
+	const key = decodeHex("000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f");
+	const nonce = decodeHex("000000000000004a00000000");
+	const plaintext = new TextEncoder().encode(
+		"Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it."
+	);
+	expect(chacha20(key, nonce, 1, plaintext)).toStrictEqual(
+		decodeHex(
+			"6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0bf91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d807ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab77937365af90bbf74a35be6b40b8eedf2785e42874d"
+		)
+	);
+});
+
+test("ChaCha20 encryption test vector #3", () => {
+	const key = decodeHex("1c9240a5eb55d38af333888604f6b5f0473917c1402b80099dca5cbc207075c0");
+	const nonce = decodeHex("000000000000000000000002");
+	const plaintext = new TextEncoder().encode(
+		"'Twas brillig, and the slithy toves\nDid gyre and gimble in the wabe:\nAll mimsy were the borogoves,\nAnd the mome raths outgrabe."
+	);
+	expect(chacha20(key, nonce, 42, plaintext)).toStrictEqual(
+		decodeHex(
+			"62e6347f95ed87a45ffae7426f27a1df5fb69110044c0d73118effa95b01e5cf166d3df2d721caf9b21e5fb14c616871fd84c54f9d65b283196c7fe4f60553ebf39c6402c42234e32a356b3e764312a61a5532055716ead6962568f87d3f3f7704c6a8d1bcd1bf4d50d6154b6da731b187b58dfd728afa36757a797ac188d1"
+		)
+	);
+});
+
+test("Poly1305", () => {
+	const key = decodeHex("85d6be7857556d337f4452fe42d506a80103808afb0db2fd4abff6af4149f51b");
+	const data = new TextEncoder().encode("Cryptographic Forum Research Group");
+	expect(poly1305(key, data)).toStrictEqual(decodeHex("a8061dc1305136c6c22b8baf0c0127a9"));
+});
+
+test("Poly1305 test vector #1", () => {
+	expect(poly1305(new Uint8Array(32), new Uint8Array(64))).toStrictEqual(new Uint8Array(16));
+});
+
+test("Poly1305 test vector #5", () => {
+	const key = new Uint8Array(32);
+	key[0] = 0x02;
+	const data = decodeHex("ffffffffffffffffffffffffffffffff");
+	expect(poly1305(key, data)).toStrictEqual(decodeHex("03000000000000000000000000000000"));
+});
+
+test("Poly1305 test vector #6", () => {
+	const key = decodeHex("02000000000000000000000000000000ffffffffffffffffffffffffffffffff");
+	const data = decodeHex("02000000000000000000000000000000");
+	expect(poly1305(key, data)).toStrictEqual(decodeHex("03000000000000000000000000000000"));
+});
+
+test("Poly1305 test vector #7", () => {
+	const key = new Uint8Array(32);
+	key[0] = 0x01;
+	const data = decodeHex(
+		"fffffffffffffffffffffffffffffffff0ffffffffffffffffffffffffffffff11000000000000000000000000000000"
+	);
+	expect(poly1305(key, data)).toStrictEqual(decodeHex("05000000000000000000000000000000"));
+});
+
+test("Poly1305 test vector #8", () => {
+	const key = new Uint8Array(32);
+	key[0] = 0x01;
+	const data = decodeHex(
+		"fffffffffffffffffffffffffffffffffbfefefefefefefefefefefefefefefe01010101010101010101010101010101"
+	);
+	expect(poly1305(key, data)).toStrictEqual(new Uint8Array(16));
+});
+
+test("Poly1305 test vector #9", () => {
+	const key = new Uint8Array(32);
+	key[0] = 0x02;
+	const data = decodeHex("fdffffffffffffffffffffffffffffff");
+	expect(poly1305(key, data)).toStrictEqual(decodeHex("faffffffffffffffffffffffffffffff"));
+});
+
+test("ChaCha20-Poly1305", () => {
+	const key = decodeHex("808182838485868788898a8b8c8d8e8f909192939495969798999a9b9c9d9e9f");
+	const nonce = decodeHex("070000004041424344454647");
+	const additionalData = decodeHex("50515253c0c1c2c3c4c5c6c7");
+	const plaintext = new TextEncoder().encode(
+		"Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it."
+	);
+	const expected = decodeHex(
+		"d31a8d34648e60db7b86afbc53ef7ec2a4aded51296e08fea9e2b5a736ee62d63dbea45e8ca9671282fafb69da92728b1a71de0a9e060b2905d6a5b67ecd3b3692ddbd7f2d778b8c9803aee328091b58fab324e4fad675945585808b4831d7bc3ff4def08e4b7a9de576d26586cec64b61161ae10b594f09e26a7e902ecbd0600691"
+	);
+	const cipher = new ChaCha20Poly1305(key);
+	expect(cipher.seal(nonce, plaintext, additionalData)).toStrictEqual(expected);
+	expect(cipher.open(nonce, expected, additionalData)).toStrictEqual(plaintext);
+});
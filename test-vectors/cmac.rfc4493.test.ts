@@ -0,0 +1,63 @@
+// Tests based on the test vectors in RFC 4493 section 4 and NIST SP 800-38B appendix D
+// https://datatracker.ietf.org/doc/html/rfc4493
+// https://csrc.nist.gov/projects/cryptographic-standards-and-guidelines/example-values
+
+import { test, expect } from "vitest";
+import { cmac, CMAC } from "../src/cmac/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const message = decodeHex(
+	"6bc1bee22e409f96e93d7e117393172aae2d8a571e03ac9c9eb76fac45af8e5130c81c46a35ce411e5fbc1191a0a52eff69f2445df4f9b17ad2b417be66c3710"
+);
+
+const vectors: [key: string, messageLength: number, expected: string][] = [
+	// RFC 4493 Example 1-4 (AES-128)
+	["2b7e151628aed2a6abf7158809cf4f3c", 0, "bb1d6929e95937287fa37d129b756746"],
+	["2b7e151628aed2a6abf7158809cf4f3c", 16, "070a16b46b4d4144f79bdd9dd04a287c"],
+	["2b7e151628aed2a6abf7158809cf4f3c", 40, "dfa66747de9ae63030ca32611497c827"],
+	["2b7e151628aed2a6abf7158809cf4f3c", 64, "51f0bebf7e3b9d92fc49741779363cfe"],
+	// SP 800-38B D.2 (AES-192)
+	["8e73b0f7da0e6452c810f32b809079e562f8ead2522c6b7b", 0, "d17ddf46adaacde531cac483de7a9367"],
+	["8e73b0f7da0e6452c810f32b809079e562f8ead2522c6b7b", 16, "9e99a7bf31e710900662f65e617c5184"],
+	["8e73b0f7da0e6452c810f32b809079e562f8ead2522c6b7b", 40, "8a1de5be2eb31aad089a82e6ee908b0e"],
+	["8e73b0f7da0e6452c810f32b809079e562f8ead2522c6b7b", 64, "a1d5df0eed790f794d77589659f39a11"],
+	// SP 800-38B D.3 (AES-256)
+	[
+		"603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4",
+		0,
+		"028962f61b7bf89efc6b551f4667d983"
+	],
+	[
+		"603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4",
+		16,
+		"28a7023f452e8f82bd4bf28d8c37c35c"
+	],
+	[
+		"603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4",
+		40,
+		"aaf3d8f1de5640c232f5b169b9c911e6"
+	],
+	[
+		"603deb1015ca71be2b73aef0857d77811f352c073b6108d72d9810a30914dff4",
+		64,
+		"e1992190549f6ed5696a2c056c315410"
+	]
+];
+
+test("AES-CMAC", () => {
+	for (const [key, messageLength, expected] of vectors) {
+		expect(cmac(decodeHex(key), message.subarray(0, messageLength))).toStrictEqual(
+			decodeHex(expected)
+		);
+	}
+});
+
+test("AES-CMAC with streaming", () => {
+	for (const [key, messageLength, expected] of vectors) {
+		const mac = new CMAC(decodeHex(key));
+		for (let i = 0; i < messageLength; i += 16) {
+			mac.update(message.subarray(i, Math.min(i + 16, messageLength)));
+		}
+		expect(mac.digest()).toStrictEqual(decodeHex(expected));
+	}
+});
@@ -0,0 +1,119 @@
+// Tests based on the EdDSA test vectors in RFC 8032 section 7
+// https://datatracker.ietf.org/doc/html/rfc8032#section-7
+
+import { describe, test, expect } from "vitest";
+import {
+	signEdDSA,
+	verifyEdDSASignature,
+	EdDSAPrivateKey,
+	EdDSAPublicKey,
+	ed25519,
+	ed448
+} from "../src/eddsa/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+import type { EdDSANamedCurve } from "../src/eddsa/index.js";
+
+function testVector(
+	curve: EdDSANamedCurve,
+	secretKey: string,
+	publicKey: string,
+	message: string,
+	context: string,
+	signature: string
+): void {
+	const privateKey = new EdDSAPrivateKey(curve, decodeHex(secretKey));
+	const expectedSignature = decodeHex(signature);
+	expect(signEdDSA(privateKey, decodeHex(message), decodeHex(context))).toStrictEqual(
+		expectedSignature
+	);
+	expect(
+		verifyEdDSASignature(
+			new EdDSAPublicKey(curve, decodeHex(publicKey)),
+			decodeHex(message),
+			expectedSignature,
+			decodeHex(context)
+		)
+	).toBe(true);
+}
+
+describe("Ed25519", () => {
+	test("TEST 1", () => {
+		testVector(
+			ed25519,
+			"9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60",
+			"d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a",
+			"",
+			"",
+			"e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b"
+		);
+	});
+
+	test("TEST 2", () => {
+		testVector(
+			ed25519,
+			"4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb",
+			"3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c",
+			"72",
+			"",
+			"92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00"
+		);
+	});
+
+	test("TEST 3", () => {
+		testVector(
+			ed25519,
+			"c5aa8df43f9f837bedb7442f31dcb7b166d38535076f094b85ce3a2e0b4458f7",
+			"fc51cd8e6218a1a38da47ed00230f0580816ed13ba3303ac5deb911548908025",
+			"af82",
+			"",
+			"6291d657deec24024827e69c3abe01a30ce548a284743a445e3680d7db5ac3ac18ff9b538d16f290ae67f760984dc6594a7c15e9716ed28dc027beceea1ec40a"
+		);
+	});
+});
+
+describe("Ed448", () => {
+	test("Blank", () => {
+		testVector(
+			ed448,
+			"6c82a562cb808d10d632be89c8513ebf6c929f34ddfa8c9f63c9960ef6e348a3528c8a3fcc2f044e39a3fc5b94492f8f032e7549a20098f95b",
+			"5fd7449b59b461fd2ce787ec616ad46a1da1342485a70e1f8a0ea75d80e96778edf124769b46c7061bd6783df1e50f6cd1fa1abeafe8256180",
+			"",
+			"",
+			"533a37f6bbe457251f023c0d88f976ae2dfb504a843e34d2074fd823d41a591f2b233f034f628281f2fd7a22ddd47d7828c59bd0a21bfd3980ff0d2028d4b18a9df63e006c5d1c2d345b925d8dc00b4104852db99ac5c7cdda8530a113a0f4dbb61149f05a7363268c71d95808ff2e652600"
+		);
+	});
+
+	test("1 octet", () => {
+		testVector(
+			ed448,
+			"c4eab05d357007c632f3dbb48489924d552b08fe0c353a0d4a1f00acda2c463afbea67c5e8d2877c5e3bc397a659949ef8021e954e0a12274e",
+			"43ba28f430cdff456ae531545f7ecd0ac834a55d9358c0372bfa0c6c6798c0866aea01eb00742802b8438ea4cb82169c235160627b4c3a9480",
+			"03",
+			"",
+			"26b8f91727bd62897af15e41eb43c377efb9c610d48f2335cb0bd0087810f4352541b143c4b981b7e18f62de8ccdf633fc1bf037ab7cd779805e0dbcc0aae1cbcee1afb2e027df36bc04dcecbf154336c19f0af7e0a6472905e799f1953d2a0ff3348ab21aa4adafd1d234441cf807c03a00"
+		);
+	});
+
+	test("1 octet (with context)", () => {
+		testVector(
+			ed448,
+			"c4eab05d357007c632f3dbb48489924d552b08fe0c353a0d4a1f00acda2c463afbea67c5e8d2877c5e3bc397a659949ef8021e954e0a12274e",
+			"43ba28f430cdff456ae531545f7ecd0ac834a55d9358c0372bfa0c6c6798c0866aea01eb00742802b8438ea4cb82169c235160627b4c3a9480",
+			"03",
+			"666f6f",
+			"d4f8f6131770dd46f40867d6fd5d5055de43541f8c5e35abbcd001b32a89f7d2151f7647f11d8ca2ae279fb842d607217fce6e042f6815ea000c85741de5c8da1144a6a1aba7f96de42505d7a7298524fda538fccbbb754f578c1cad10d54d0d5428407e85dcbc98a49155c13764e66c3c00"
+		);
+	});
+
+	test("11 octets", () => {
+		testVector(
+			ed448,
+			"cd23d24f714274e744343237b93290f511f6425f98e64459ff203e8985083ffdf60500553abc0e05cd02184bdb89c4ccd67e187951267eb328",
+			"dcea9e78f35a1bf3499a831b10b86c90aac01cd84b67a0109b55a36e9328b1e365fce161d71ce7131a543ea4cb5f7e9f1d8b00696447001400",
+			"0c3e544074ec63b0265e0c",
+			"",
+			"1f0a8888ce25e8d458a21130879b840a9089d999aaba039eaf3e3afa090a09d389dba82c4ff2ae8ac5cdfb7c55e94d5d961a29fe0109941e00b8dbdeea6d3b051068df7254c0cdc129cbe62db2dc957dbb47b51fd3f213fb8698f064774250a5028961c9bf8ffd973fe5d5c206492b140e00"
+		);
+	});
+});
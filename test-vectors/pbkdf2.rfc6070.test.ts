@@ -0,0 +1,75 @@
+// Tests based on the PBKDF2-HMAC-SHA1 test vectors in RFC 6070
+// https://datatracker.ietf.org/doc/html/rfc6070#section-2
+// and the PBKDF2-HMAC-SHA256 test vectors in RFC 7914 section 11
+// https://datatracker.ietf.org/doc/html/rfc7914#section-11
+
+import { describe, test, expect } from "vitest";
+import { pbkdf2 } from "../src/pbkdf2/index.js";
+import { SHA1 } from "../src/sha1/index.js";
+import { SHA256 } from "../src/sha2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+import type { HashAlgorithm } from "../src/hash/index.js";
+
+function testVector(
+	Hash: HashAlgorithm,
+	password: string,
+	salt: string,
+	iterations: number,
+	keyLength: number,
+	expected: string
+): void {
+	const encoder = new TextEncoder();
+	expect(
+		pbkdf2(Hash, encoder.encode(password), encoder.encode(salt), iterations, keyLength)
+	).toStrictEqual(decodeHex(expected));
+}
+
+describe("RFC 6070", () => {
+	test("c = 1", () => {
+		testVector(SHA1, "password", "salt", 1, 20, "0c60c80f961f0e71f3a9b524af6012062fe037a6");
+	});
+	test("c = 2", () => {
+		testVector(SHA1, "password", "salt", 2, 20, "ea6c014dc72d6f8ccd1ed92ace1d41f0d8de8957");
+	});
+	test("c = 4096", () => {
+		testVector(SHA1, "password", "salt", 4096, 20, "4b007901b765489abead49d926f721d065a429c1");
+	});
+	// c = 16777216 is omitted as it takes too long
+	test("c = 4096, dkLen = 25", () => {
+		testVector(
+			SHA1,
+			"passwordPASSWORDpassword",
+			"saltSALTsaltSALTsaltSALTsaltSALTsalt",
+			4096,
+			25,
+			"3d2eec4fe41c849b80c8d83662c0e44a8b291a964cf2f07038"
+		);
+	});
+	test("c = 4096, dkLen = 16", () => {
+		testVector(SHA1, "pass\0word", "sa\0lt", 4096, 16, "56fa6aa75548099dcc37d7f03425e0c3");
+	});
+});
+
+describe("RFC 7914", () => {
+	test("c = 1", () => {
+		testVector(
+			SHA256,
+			"passwd",
+			"salt",
+			1,
+			64,
+			"55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783"
+		);
+	});
+	test("c = 80000", () => {
+		testVector(
+			SHA256,
+			"Password",
+			"NaCl",
+			80000,
+			64,
+			"4ddcd8f60b98be21830cee5ef22701f9641a4418d04c0414aeff08876b34ab56a1d425a1225833549adb841b51c9b3176a272bdebba1d078478f62b397f33c8d"
+		);
+	}, 60000);
+});
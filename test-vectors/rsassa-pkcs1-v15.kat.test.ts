@@ -0,0 +1,117 @@
+// Known-answer tests for RSASSA-PKCS1-v1_5 signature generation with a fixed 2048-bit key.
+// The private key is given in CRT form (p, q, dP, dQ, qInv), and the expected signatures
+// were generated with OpenSSL.
+
+import { expect, test } from "vitest";
+import {
+	RSAPrivateKey,
+	RSAPublicKey,
+	signRSASSAPKCS1v15,
+	verifyRSASSAPKCS1v15Signature,
+	sha1ObjectIdentifier,
+	sha224ObjectIdentifier,
+	sha256ObjectIdentifier,
+	sha384ObjectIdentifier,
+	sha512ObjectIdentifier
+} from "../src/rsa/index.js";
+import { sha1 } from "../src/sha1/index.js";
+import { sha224, sha256, sha384, sha512 } from "../src/sha2/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const privateKey = new RSAPrivateKey(
+	0xcc4bd089785e4b09f42f9d7876df7bbe9aa1bc8bad103db4b497225b1fd8a887c3e855da8da923f2f46bd338e00250789020b73ed94252896bfd5fe3c712593a18e7c369aa7e5c65cf7b30b756987dd0427c4afe1072d809f624700f3eb1dae7c9402fbf2da19f22b844e6b3f39a50895cd3f0ece1eafd87a8b68209f6e7a82d40abd4832a60b921fb40eeac80e1954b386b7eb6ef9d4445971ca666eba1d70d1777d48b7a01671059bb350ccec9f729b3d5e2333c38861ddf75e122aaa7e4e8b4de0f1ac920c1ec24b7a27a92a22f7a98290130a184c240339259bb48398d8540ee2e09b0477551f2c96118edde2ae4df929511a626d373104e7af8ea2be33dn,
+	0x010001n,
+	0x2b0fd7f7020e2e16fd078453be0ac1549dd7759ca37006f1ae172540bbe7b92e54d70631b9266bd36c3dc619f8edc3f485bcbfa359bc27159c539e00af1769035bf88e3219a3e4e9f8dfe896dc83ec1117d28724226772ae36d9db5cfb4415f6416f6c210a074539d6497faf72ab964a3decd69db7c90683afc63886cd2a6b422e34a7125b40f2ce97a3f14f9aeec2094c1dddbdc1e552d43854b15d6e0404282454b3e09d607fc587d9b6e9bf493dd295c78f43037d8152861d95d0df61ea71d3b0dd0763f424f80764586bb01634a71e1bd5605177c7a51cdd52d70c749e486de1e5617373d9d1c61ddee7ce5a6116ce7a96a1a70cb6c45e20f4b4340c51e9n,
+	0xe53a4ac902ab6458e26875d7d4182417bd191cff6b14e17375d474207317068abd800cd874899a411b986a8acbd4f60de0a520f05104f4e6e9a1f6e8d078a5a92f64a6b003af358c9aa070ba42f86a7535461f1b83dad17021a85917464d94a6e8e700dde7635d01a6249eb58089eb186f7daea37507fe0653dbc70b68ad115bn,
+	0xe42817415ba5cce1838ae13600068ae2a483e6d1f371dff4f2d2f8152ffb43547e92422243877e6b405fac3c96577661c595d886e1423abe835f6331a3932ca597bbe317fd4eb0f3b6c85cee135cbcbb351843be2f7d5e8ad344a10bcca14fd68533ed1988ac1ae0c6841fcb9718bc29b2cecab3c441d34ac4dfc42d63d5a947n,
+	0x87149ed56d794a9d066ec062fb5d6e877eabb9e6da5767b3fe8fc00f0f43565b93e84da990a335ff801f85495d6c95c2ffcacf6a4e94392d8a2823b47685623a1cef973aca3109c15dad86407d0e9ecd8b235359878dff35b0dfe00053318c93ff5381b34293cf4f157527019649affcaa56c9ff110c30a9d1e90596b78ca559n,
+	0xb762f6164599060e39d23665562dec127213c742f83f8eb8ef38ddc901f11f545a0c2b7628fb4e84dc9049fbc507f6126e639c5005dd5b2468aa122c0303b7fe3df0fa7efccef4726077ba226e93baeb6aa8df428e1f620f89f2fed3621e42f2f5cc2006c71136e5770b1a176592af238122b051402d7cacfb83b4c69b1950dfn,
+	0x463302f25e1350d023b9aa6ed5f5f082470b466b673b5b559767d12325667ab190bf4262fe422d069caf2050f7949208938135650f8c6bcc1e185bc770b8558393fbe1e836363010352a1633b571b49718def8a04ee7dcf15aa8a7432d69acd3137c05c7ccb0ce3b8ba6a4452ee56ef73149187b3a7d7da2001634d8f9e9061fn
+);
+
+const vectors: [
+	hash: (data: Uint8Array) => Uint8Array,
+	hashObjectIdentifier: string,
+	message: string,
+	signature: string
+][] = [
+	// SHA-1
+	[
+		sha1,
+		sha1ObjectIdentifier,
+		"136021d2cb10824f8a2fff409afd6edc57f566c939ce6b9c227024a40c59a9a5dda7c96e00eae2536d06f7e156c1a4712970adc38409a7df3b69196705f2de9bbe4ec3f0f01263229ae87934db9cea7feb13633961543d308aae3769b0383c0f9b55f384a122c59a96c4677ed57703ceebdf60972d798fb232f9d1decf9b892d",
+		"4af93d397d66b9d953b86dd93cba34e9b28d88d73f27320cbadb0a8e983c5362151bfc51de19725f53caa5ec313cc723da450d2d9442a784b9b932a43de561b716357dbe084d8a7a97ac06c753897c89bcb8486ee8b95def8ad98c9d3d93bcf2ab9f2bb85e7dd0e69b20369a2f616d129fafc18875706d8e6f0aa8cccf702360e5065762d1029fd33a88e37a1fcef6e603a02fc976e5b971599f323cb3d2c5853aae79b8a23346e635250283df928ec6f567217a1ecf44d192478fdd585f8ca37696a0ce4e6921150b16232fd3523ca80fedd0999f642b66e19f545f4c001ef642c4275d85fb78df0b2c800c81932d185d248e3d76d8a6e656c87f13f9495e0a"
+	],
+	// SHA-224
+	[
+		sha224,
+		sha224ObjectIdentifier,
+		"f667003119ad2ea011bd7f907a7212ae369e4b51ad15fcdae5b5385f5fa1660bebcc4338746ed868303e08acde4b171a825143d9e02d203754478312520d5af5615d46baeb65a27a5512bc4948a4924048003f46a506a6ccb48bdf8b1a95d67b736ad4bd1876b1b7518345be3a8d651ee14825ee961fdacf65cf3b25ec4a0fad",
+		"b3fc934684d84e5dda7832a9c934a885eff4aaee83bf6fd36ca163576e6e00016e66c9bc098cc8ad2842b09584c49972b7b7c874e6f5f32583aefbca290718f247fe9760553e974ef8c1e0231b89c2ca0f5499e1d438f43bfabcb3b7951e46cb7c0193b70ba26d7147cbf9e9d7a5c3161b2d98d7537f0319871db81181abc86f7f79c41e65dd4ee0e0c50c8266985e0298e400204b4c8952937b1d251b6108ef3c8353bac89ed558142be27aed2ff86a5e25aa78ba776806cfd32c243289393c24f5fa8149a8fc9973bd6e06a5a2db7d86c74e1627f8b7f5ed81537dd3d4a1d0c8905e0aeb8df9fb3839009c50c1a394250ada8593de082a64cfdc4dcec6a9c4"
+	],
+	// SHA-256
+	[
+		sha256,
+		sha256ObjectIdentifier,
+		"c23d3bb4366bb8ef3fb1719ee278458603056fd81a1b7d477e6f80066865f44240b30f77c1d5e4b3a4b5555b2f8250ce1a3edc554f4cfe32f9b35e89d9a52ff81df36a6dc2f6923717a7f385513c765f983b6851b1023ed488f3d3c9a57e7e6e12e6966f03a92cfddedb852f20bf620cd166e3c70987aefb0b38aa75c78a4cfe",
+		"a135b3ac4dc5cfbc6f509801b8bfbf10d2725d8292e66994e8c0c6b2ed51024f1ee62e04d638a9ad144ba1cc9cbf1e90b94e6ca9d519a12d3168cea2b63c149271d670bc9a7b2c571154716b319adb3c0e5be2e7d6f7271e3b60cb4f09a56f628b6c8b3ed30ba9b139f818aca16435853c44d52bcb4720d4090c08babdc4df01f2f610d98d706122e3d29492792b197ba1065a4efde844a4d5fa8082b2f750efb64a762c24c72590b687c8093fdbacbe5a714bf94214553ae2ab97f7150a197b9eb18d05e62883ab9c79cd041439ff6c74d818460d804df2ef6d16a71cdf02ad1f227d7cfb1e18805d5dd392322f3561a1517198478bf691af8c7eac5434a4d2"
+	],
+	// SHA-384
+	[
+		sha384,
+		sha384ObjectIdentifier,
+		"bdaa224f81c2d9918d965d90e2e55caf18e8e14b6a1df41b8d85ede9472718755abed577c06ba529bd7c7d57dd838c319d9493b48a0bf161ccc965aa96df0853e219a7b8a818b96be87c79a7356f3a05b4f8c9bbafc280306b321502672a9613be25c13b3225c4999838aeab21a50a39193b31627b08b7f762c29f7c07267f19",
+		"c78f8425d7ce4da90c21e9520be2e597e2a343285742a1ed1aa4852d9d37e321496266182ea6669534aee8ddeb8f0fa625fd98a44561b162f855c95112d4971b7a0c019b8310e18f291b66adc4121169e5d1b3f9a89def8c1f2e7179c7a914898fc628ea47d5785e89b18c69f33e9bf88ef3b18dedb27ec1f2af17600c0b0dc62fff5345ecf55b874ddba8c9f810c2bb3b4a904d74ee3cd9cd28ffbab470c3bbcd64006d3ceb41739329c4ce1e6aabe880c77ed9e9e08b8a0ef51271281e4789e9847cd4570746786dbe137253162a24af3645c36d532c64317a5f26f98534a4477b0320b011b3d5ea60ca56383e4ad484fdc3625ff57de5613a43ceb42825ce"
+	],
+	// SHA-512
+	[
+		sha512,
+		sha512ObjectIdentifier,
+		"58f65f149f7b52a64a9a3fb62a970da67314611540a1c85e1198825220f55e4f4852fdf524b72774a3b69240854ee9499cad396cee3712c8aed7254c3d7a5986fab5151226390676b777bcf67f88f6b22776db456282db67574d5e1a9415c3b4cc1155c0099add969077a2b790007626a3d3ea04a17c2b51912be3ab0f54a8b9",
+		"124b27eb3b0cb5d4bfd708fda7263940a93c1b7781f731049d707d9b8fc423b7450f872fde396d7d56cc1f7cc4dc2116ed5c5ac34231e7d3aaf53240bb668eaad7e309c01e97b6707b8b8f78984f5407d6216883b055c1c01de21f299c07ee84b3e3562f85b8e80c3db7037c75bd3c1eec668175817b58adb82a52549d6dece4d24bc958d7a7a2d24abed90334d0640fc4ff03523ddb79ddb69bc454d6f92cd9873cfdbbce406ab7c34b7c010482bba7de0c30d247bd6670677ce86070604973ea2a8fe771dc2c7007b98b660b56615eb026ecac99a44cb54076163355573acff1296ec801715d7732262aaa5e4aa5cf8fc09426dd983195a48a10c52274e9e4"
+	]
+];
+
+test("RSASSA-PKCS1-v1_5 signature generation", () => {
+	for (const [hash, hashObjectIdentifier, message, signature] of vectors) {
+		const hashed = hash(decodeHex(message));
+		expect(signRSASSAPKCS1v15(privateKey, hashObjectIdentifier, hashed)).toStrictEqual(
+			decodeHex(signature)
+		);
+	}
+});
+
+test("RSASSA-PKCS1-v1_5 signature generation with swapped primes", () => {
+	// The CRT recombination differs when p and q are swapped, but the signature must not
+	const swapped = new RSAPrivateKey(
+		privateKey.n,
+		privateKey.e,
+		privateKey.d,
+		privateKey.q,
+		privateKey.p,
+		privateKey.dQ,
+		privateKey.dP,
+		modInverse(privateKey.p, privateKey.q)
+	);
+	const publicKey = new RSAPublicKey(privateKey.n, privateKey.e);
+	for (const [hash, hashObjectIdentifier, message, signature] of vectors) {
+		const hashed = hash(decodeHex(message));
+		expect(signRSASSAPKCS1v15(swapped, hashObjectIdentifier, hashed)).toStrictEqual(
+			decodeHex(signature)
+		);
+		expect(
+			verifyRSASSAPKCS1v15Signature(publicKey, hashObjectIdentifier, hashed, decodeHex(signature))
+		).toBe(true);
+	}
+});
+
+function modInverse(a: bigint, m: bigint): bigint {
+	let [oldR, r] = [a % m, m];
+	let [oldS, s] = [1n, 0n];
+	while (r !== 0n) {
+		const quotient = oldR / r;
+		[oldR, r] = [r, oldR - quotient * r];
+		[oldS, s] = [s, oldS - quotient * s];
+	}
+	return ((oldS % m) + m) % m;
+}
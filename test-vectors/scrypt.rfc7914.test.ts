@@ -0,0 +1,55 @@
+// Tests based on the scrypt test vectors in RFC 7914 section 12
+// https://datatracker.ietf.org/doc/html/rfc7914#section-12
+
+import { test, expect } from "vitest";
+import { scrypt } from "../src/scrypt/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+function testVector(
+	password: string,
+	salt: string,
+	N: number,
+	r: number,
+	p: number,
+	expected: string
+): void {
+	const encoder = new TextEncoder();
+	expect(scrypt(encoder.encode(password), encoder.encode(salt), N, r, p, 64)).toStrictEqual(
+		decodeHex(expected)
+	);
+}
+
+test("N = 16, r = 1, p = 1", () => {
+	testVector(
+		"",
+		"",
+		16,
+		1,
+		1,
+		"77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906"
+	);
+});
+
+test("N = 1024, r = 8, p = 16", () => {
+	testVector(
+		"password",
+		"NaCl",
+		1024,
+		8,
+		16,
+		"fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640"
+	);
+});
+
+test("N = 16384, r = 8, p = 1", () => {
+	testVector(
+		"pleaseletmein",
+		"SodiumChloride",
+		16384,
+		8,
+		1,
+		"7023bdcb3afd7348461c06cd81fd38ebfda8fbba904f8e3ea9b543f6545da1f2d5432955613f0fcf62d49705242a9af9e61e85dc0d651e40dfcf017b45575887"
+	);
+}, 60000);
+
+// N = 1048576 is omitted as it requires 1 GiB of memory
@@ -0,0 +1,169 @@
+// Tests based on the NIST SP 800-185 sample values
+// https://csrc.nist.gov/projects/cryptographic-standards-and-guidelines/example-values
+
+import { test, expect } from "vitest";
+import {
+	cshake128,
+	cshake256,
+	kmac128,
+	kmac256,
+	parallelHash128,
+	parallelHash256,
+	tupleHash128,
+	tupleHash256
+} from "../src/sha3/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+const emailSignature = new TextEncoder().encode("Email Signature");
+const taggedApplication = new TextEncoder().encode("My Tagged Application");
+const tupleApp = new TextEncoder().encode("My Tuple App");
+const parallelData = new TextEncoder().encode("Parallel Data");
+
+const key = decodeHex("404142434445464748494a4b4c4d4e4f505152535455565758595a5b5c5d5e5f");
+const data4 = decodeHex("00010203");
+const data200 = new Uint8Array(200).map((_, i) => i);
+
+const tuple2 = [decodeHex("000102"), decodeHex("101112131415")];
+const tuple3 = [decodeHex("000102"), decodeHex("101112131415"), decodeHex("202122232425262728")];
+
+const parallelInput = decodeHex("000102030405060710111213141516172021222324252627");
+
+test("cSHAKE128 sample #1", () => {
+	expect(cshake128(32, data4, new Uint8Array(), emailSignature)).toStrictEqual(
+		decodeHex("c1c36925b6409a04f1b504fcbca9d82b4017277cb5ed2b2065fc1d3814d5aaf5")
+	);
+});
+
+test("cSHAKE128 sample #2", () => {
+	expect(cshake128(32, data200, new Uint8Array(), emailSignature)).toStrictEqual(
+		decodeHex("c5221d50e4f822d96a2e8881a961420f294b7b24fe3d2094baed2c6524cc166b")
+	);
+});
+
+test("cSHAKE256 sample #3", () => {
+	expect(cshake256(64, data4, new Uint8Array(), emailSignature)).toStrictEqual(
+		decodeHex(
+			"d008828e2b80ac9d2218ffee1d070c48b8e4c87bff32c9699d5b6896eee0edd164020e2be0560858d9c00c037e34a96937c561a74c412bb4c746469527281c8c"
+		)
+	);
+});
+
+test("cSHAKE256 sample #4", () => {
+	expect(cshake256(64, data200, new Uint8Array(), emailSignature)).toStrictEqual(
+		decodeHex(
+			"07dc27b11e51fbac75bc7b3c1d983e8b4b85fb1defaf218912ac86430273091727f42b17ed1df63e8ec118f04b23633c1dfb1574c8fb55cb45da8e25afb092bb"
+		)
+	);
+});
+
+test("KMAC128 sample #1", () => {
+	expect(kmac128(key, 32, data4)).toStrictEqual(
+		decodeHex("e5780b0d3ea6f7d3a429c5706aa43a00fadbd7d49628839e3187243f456ee14e")
+	);
+});
+
+test("KMAC128 sample #2", () => {
+	expect(kmac128(key, 32, data4, taggedApplication)).toStrictEqual(
+		decodeHex("3b1fba963cd8b0b59e8c1a6d71888b7143651af8ba0a7070c0979e2811324aa5")
+	);
+});
+
+test("KMAC128 sample #3", () => {
+	expect(kmac128(key, 32, data200, taggedApplication)).toStrictEqual(
+		decodeHex("1f5b4e6cca02209e0dcb5ca635b89a15e271ecc760071dfd805faa38f9729230")
+	);
+});
+
+test("KMAC256 sample #4", () => {
+	expect(kmac256(key, 64, data4, taggedApplication)).toStrictEqual(
+		decodeHex(
+			"20c570c31346f703c9ac36c61c03cb64c3970d0cfc787e9b79599d273a68d2f7f69d4cc3de9d104a351689f27cf6f5951f0103f33f4f24871024d9c27773a8dd"
+		)
+	);
+});
+
+test("KMAC256 sample #5", () => {
+	expect(kmac256(key, 64, data200)).toStrictEqual(
+		decodeHex(
+			"75358cf39e41494e949707927cee0af20a3ff553904c86b08f21cc414bcfd691589d27cf5e15369cbbff8b9a4c2eb17800855d0235ff635da82533ec6b759b69"
+		)
+	);
+});
+
+test("KMAC256 sample #6", () => {
+	expect(kmac256(key, 64, data200, taggedApplication)).toStrictEqual(
+		decodeHex(
+			"b58618f71f92e1d56c1b8c55ddd7cd188b97b4ca4d99831eb2699a837da2e4d970fbacfde50033aea585f1a2708510c32d07880801bd182898fe476876fc8965"
+		)
+	);
+});
+
+test("TupleHash128 sample #1", () => {
+	expect(tupleHash128(32, tuple2)).toStrictEqual(
+		decodeHex("c5d8786c1afb9b82111ab34b65b2c0048fa64e6d48e263264ce1707d3ffc8ed1")
+	);
+});
+
+test("TupleHash128 sample #2", () => {
+	expect(tupleHash128(32, tuple2, tupleApp)).toStrictEqual(
+		decodeHex("75cdb20ff4db1154e841d758e24160c54bae86eb8c13e7f5f40eb35588e96dfb")
+	);
+});
+
+test("TupleHash128 sample #3", () => {
+	expect(tupleHash128(32, tuple3, tupleApp)).toStrictEqual(
+		decodeHex("e60f202c89a2631eda8d4c588ca5fd07f39e5151998deccf973adb3804bb6e84")
+	);
+});
+
+test("TupleHash256 sample #4", () => {
+	expect(tupleHash256(64, tuple2)).toStrictEqual(
+		decodeHex(
+			"cfb7058caca5e668f81a12a20a2195ce97a925f1dba3e7449a56f82201ec607311ac2696b1ab5ea2352df1423bde7bd4bb78c9aed1a853c78672f9eb23bbe194"
+		)
+	);
+});
+
+test("TupleHash256 sample #5", () => {
+	expect(tupleHash256(64, tuple2, tupleApp)).toStrictEqual(
+		decodeHex(
+			"147c2191d5ed7efd98dbd96d7ab5a11692576f5fe2a5065f3e33de6bba9f3aa1c4e9a068a289c61c95aab30aee1e410b0b607de3620e24a4e3bf9852a1d4367e"
+		)
+	);
+});
+
+test("TupleHash256 sample #6", () => {
+	expect(tupleHash256(64, tuple3, tupleApp)).toStrictEqual(
+		decodeHex(
+			"45000be63f9b6bfd89f54717670f69a9bc763591a4f05c50d68891a744bcc6e7d6d5b5e82c018da999ed35b0bb49c9678e526abd8e85c13ed254021db9e790ce"
+		)
+	);
+});
+
+test("ParallelHash128 sample #1", () => {
+	expect(parallelHash128(32, parallelInput, 8)).toStrictEqual(
+		decodeHex("ba8dc1d1d979331d3f813603c67f72609ab5e44b94a0b8f9af46514454a2b4f5")
+	);
+});
+
+test("ParallelHash128 sample #2", () => {
+	expect(parallelHash128(32, parallelInput, 8, parallelData)).toStrictEqual(
+		decodeHex("fc484dcb3f84dceedc353438151bee58157d6efed0445a81f165e495795b7206")
+	);
+});
+
+test("ParallelHash256 sample #4", () => {
+	expect(parallelHash256(64, parallelInput, 8)).toStrictEqual(
+		decodeHex(
+			"bc1ef124da34495e948ead207dd9842235da432d2bbc54b4c110e64c451105531b7f2a3e0ce055c02805e7c2de1fb746af97a1dd01f43b824e31b87612410429"
+		)
+	);
+});
+
+test("ParallelHash256 sample #5", () => {
+	expect(parallelHash256(64, parallelInput, 8, parallelData)).toStrictEqual(
+		decodeHex(
+			"cdf15289b54f6212b4bc270528b49526006dd9b54e2b6add1ef6900dda3963bb33a72491f236969ca8afaea29c682d47a393c065b38e29fae651a2091c833110"
+		)
+	);
+});
@@ -0,0 +1,14 @@
+// Tests based on the test vectors in draft-irtf-cfrg-xchacha-03
+// https://datatracker.ietf.org/doc/html/draft-irtf-cfrg-xchacha-03
+
+import { test, expect } from "vitest";
+import { hchacha20 } from "../src/chacha20/index.js";
+import { decodeHex } from "@oslojs/encoding";
+
+test("HChaCha20", () => {
+	const key = decodeHex("000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f");
+	const nonce = decodeHex("000000090000004a0000000031415927");
+	expect(hchacha20(key, nonce)).toStrictEqual(
+		decodeHex("82413b4227b27bfed30e42508a877d73a0f9e4d58a74a853c12ec41326d3ecdc")
+	);
+});